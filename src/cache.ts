@@ -1,5 +1,5 @@
 import type { SessionUsageData } from '@tokentop/plugin-sdk';
-import type { SessionAggregateCacheEntry } from './types.ts';
+import type { ProcessLogIndexEntry, SessionAggregateCacheEntry, SessionSummary } from './types.ts';
 
 export const sessionCache: {
   lastCheck: number;
@@ -15,10 +15,19 @@ export const sessionCache: {
 
 export const CACHE_TTL_MS = 2000;
 
+/**
+ * Version of the row-building logic. Bump whenever parsing changes the rows
+ * produced for the same input so persisted rows are discarded on load.
+ */
+export const PARSER_VERSION = 20;
+
 export const SESSION_AGGREGATE_CACHE_MAX = 10_000;
 
 export const sessionAggregateCache = new Map<string, SessionAggregateCacheEntry>();
 
+/** One summary per parsed session, valid while its `updatedAt` matches the aggregate entry. */
+export const sessionSummaryCache = new Map<string, SessionSummary>();
+
 export function evictSessionAggregateCache(): void {
   if (sessionAggregateCache.size <= SESSION_AGGREGATE_CACHE_MAX) return;
 
@@ -28,10 +37,36 @@ export function evictSessionAggregateCache(): void {
   const toEvict = entries.length - SESSION_AGGREGATE_CACHE_MAX;
   for (let i = 0; i < toEvict; i++) {
     sessionAggregateCache.delete(entries[i]![0]);
+    sessionSummaryCache.delete(entries[i]![0]);
+  }
+}
+
+/**
+ * Mark every cached session's rows as stale while keeping its parse state,
+ * so the next parse rebuilds rows without re-reading events.jsonl
+ * (e.g. after pricing config changed).
+ */
+export function invalidateSessionAggregateRows(): void {
+  for (const entry of sessionAggregateCache.values()) {
+    entry.updatedAt = -1;
   }
+  sessionCache.lastCheck = 0;
 }
 
 export const sessionMetadataIndex = new Map<string, {
   mtimeMs: number;
   sessionId: string;
 }>();
+
+/**
+ * Path of the events.jsonl last indexed for a session, or null if unknown.
+ */
+export function getSessionEventsPath(sessionId: string): string | null {
+  for (const [eventsPath, metadata] of sessionMetadataIndex) {
+    if (metadata.sessionId === sessionId) return eventsPath;
+  }
+  return null;
+}
+
+/** Parsed process logs keyed by file path — the shared index kept by logs.ts. */
+export const processLogCache = new Map<string, ProcessLogIndexEntry>();
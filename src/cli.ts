@@ -0,0 +1,721 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import { resolveSessionLifecycle, summarizeSessionProcesses } from './lifecycle.ts';
+import {
+  buildCompactionIndex,
+  buildModelIndex,
+  getDefaultModel,
+  invalidateCompactionIndex,
+  parseSessionDirIncremental,
+  parseSessionDirRows,
+} from './parser.ts';
+import { configureCopilotHomes, getCopilotCliRoots, getSessionDirs, listProcessLogs } from './paths.ts';
+import { configurePersistentCache } from './persist.ts';
+import { resolveModelPricing, summarizeCost } from './pricing.ts';
+import { summarizeSession } from './summary.ts';
+import type { CompactionEntry, ModelTimelineEntry, SessionParseState, TokenTotals, TurnMetrics } from './types.ts';
+import { getReasoningTokens, parseProcessLogData, readWorkspaceYaml } from './utils.ts';
+
+/** Sessions and logs shown by `list` and `logs` unless `--limit` says otherwise. */
+const DEFAULT_LIST_LIMIT = 20;
+
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: copilot-cli-usage <command> [options]
+
+Commands:
+  list                  Sessions, most recently updated first
+  show <sessionId>      Totals, models and state of one session
+  timeline <sessionId>  Every assistant message of one session
+  models                Usage per model across all sessions
+  logs                  Process logs and what they recorded
+  doctor                Check the Copilot home directories for problems
+
+A session ID may be shortened to any unique prefix.
+
+Options:
+  -H, --home <dir>      Copilot home directory to read (repeatable); replaces the default homes
+  -n, --limit <n>       Sessions or logs to show for list and logs (default ${DEFAULT_LIST_LIMIT}, 0 for all)
+      --json            Print JSON instead of a table
+  -h, --help            Show this help
+`;
+
+/** Where the CLI writes; replaced in tests. */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+interface CliOptions {
+  json: boolean;
+  limit: number;
+}
+
+interface SessionDir {
+  sessionId: string;
+  dirPath: string;
+  mtimeMs: number;
+}
+
+/** Process log derived inputs every session parse needs. */
+interface ParseInputs {
+  defaultModel: string;
+  compactionIndex: Map<string, CompactionEntry[]>;
+  modelIndex: Map<string, ModelTimelineEntry[]>;
+}
+
+type CheckStatus = 'ok' | 'warn' | 'error';
+
+interface DoctorCheck {
+  status: CheckStatus;
+  check: string;
+  detail: string;
+}
+
+interface Column {
+  header: string;
+  alignRight?: boolean;
+}
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+};
+
+// ---------------------------------------------------------------------------
+// Formatting
+// ---------------------------------------------------------------------------
+
+function renderTable(columns: ReadonlyArray<Column>, rows: ReadonlyArray<ReadonlyArray<string>>): string {
+  const widths = columns.map((column, i) => Math.max(column.header.length, ...rows.map((row) => row[i]!.length)));
+  const renderRow = (cells: ReadonlyArray<string>): string => cells
+    .map((cell, i) => (columns[i]!.alignRight ? cell.padStart(widths[i]!) : cell.padEnd(widths[i]!)))
+    .join('  ')
+    .trimEnd();
+
+  return [
+    renderRow(columns.map((column) => column.header)),
+    renderRow(widths.map((width) => '-'.repeat(width))),
+    ...rows.map(renderRow),
+  ].join('\n') + '\n';
+}
+
+function renderJson(value: unknown): string {
+  return JSON.stringify(value, null, 2) + '\n';
+}
+
+function formatCount(value: number): string {
+  return value.toLocaleString('en-US');
+}
+
+function formatCost(cost: number | undefined): string {
+  return cost === undefined ? '-' : `$${cost.toFixed(4)}`;
+}
+
+function formatTime(timestamp: number | null | undefined): string {
+  if (!timestamp) return '-';
+  return new Date(timestamp).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatPercent(part: number, whole: number): string {
+  return whole === 0 ? '0%' : `${Math.round((part / whole) * 100)}%`;
+}
+
+function addRowTokens(totals: TokenTotals, row: SessionUsageData): void {
+  totals.input += row.tokens.input;
+  totals.output += row.tokens.output;
+  totals.cacheRead += row.tokens.cacheRead ?? 0;
+  totals.cacheWrite += row.tokens.cacheWrite ?? 0;
+  totals.reasoning += getReasoningTokens(row);
+  totals.total = totals.input + totals.output + totals.cacheRead + totals.cacheWrite;
+}
+
+function createTokenTotals(): TokenTotals {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0, total: 0 };
+}
+
+function sumCost(rows: ReadonlyArray<SessionUsageData>): number | undefined {
+  return rows.some((row) => row.cost !== undefined)
+    ? rows.reduce((sum, row) => sum + (row.cost ?? 0), 0)
+    : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/**
+ * Every session directory under the selected homes, most recently updated first.
+ */
+async function listSessionDirs(): Promise<SessionDir[]> {
+  const sessionDirs: SessionDir[] = [];
+
+  for (const dirPath of await getSessionDirs()) {
+    try {
+      const stat = await fs.stat(path.join(dirPath, 'events.jsonl'));
+      sessionDirs.push({ sessionId: path.basename(dirPath), dirPath, mtimeMs: stat.mtimeMs });
+    } catch {
+      // Removed since it was listed — skip
+    }
+  }
+
+  return sessionDirs.sort((a, b) => b.mtimeMs - a.mtimeMs);
+}
+
+/**
+ * Find a session by its full ID or a unique prefix of it.
+ */
+function findSessionDir(sessionDirs: ReadonlyArray<SessionDir>, query: string | undefined): SessionDir {
+  if (!query) throw new Error('A session ID is required');
+
+  const exact = sessionDirs.find((dir) => dir.sessionId === query);
+  if (exact) return exact;
+
+  const matches = sessionDirs.filter((dir) => dir.sessionId.startsWith(query));
+  if (matches.length === 1) return matches[0]!;
+  if (matches.length > 1) throw new Error(`Session ID prefix ${query} matches ${matches.length} sessions`);
+  throw new Error(`No session ${query}`);
+}
+
+async function loadParseInputs(): Promise<ParseInputs> {
+  return {
+    defaultModel: await getDefaultModel(),
+    compactionIndex: await buildCompactionIndex(),
+    modelIndex: await buildModelIndex(),
+  };
+}
+
+function loadSessionRows(dir: SessionDir, inputs: ParseInputs): Promise<SessionUsageData[]> {
+  return parseSessionDirRows(
+    dir.dirPath,
+    dir.mtimeMs,
+    inputs.defaultModel,
+    inputs.compactionIndex.get(dir.sessionId),
+    inputs.modelIndex.get(dir.sessionId),
+  );
+}
+
+function loadSessionWithState(
+  dir: SessionDir,
+  inputs: ParseInputs,
+): Promise<{ rows: SessionUsageData[]; state: SessionParseState | null }> {
+  return parseSessionDirIncremental(
+    dir.dirPath,
+    dir.mtimeMs,
+    inputs.defaultModel,
+    inputs.compactionIndex.get(dir.sessionId),
+    undefined,
+    inputs.modelIndex.get(dir.sessionId),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+async function runList(options: CliOptions, io: CliIO): Promise<number> {
+  const sessionDirs = await listSessionDirs();
+  const shown = options.limit > 0 ? sessionDirs.slice(0, options.limit) : sessionDirs;
+  const inputs = await loadParseInputs();
+
+  const sessions = [];
+  for (const dir of shown) {
+    const rows = await loadSessionRows(dir, inputs);
+    const tokens = createTokenTotals();
+    for (const row of rows) addRowTokens(tokens, row);
+
+    sessions.push({
+      sessionId: dir.sessionId,
+      updatedAt: new Date(dir.mtimeMs).toISOString(),
+      messages: rows.length,
+      models: Array.from(new Set(rows.map((row) => row.modelId))),
+      tokens,
+      cost: sumCost(rows),
+      projectPath: rows[0]?.projectPath,
+      summary: rows[0]?.sessionName,
+    });
+  }
+
+  if (options.json) {
+    io.stdout(renderJson(sessions));
+    return EXIT_OK;
+  }
+
+  if (sessions.length === 0) {
+    io.stdout('No sessions found\n');
+    return EXIT_OK;
+  }
+
+  io.stdout(renderTable(
+    [
+      { header: 'SESSION' },
+      { header: 'UPDATED' },
+      { header: 'MESSAGES', alignRight: true },
+      { header: 'INPUT', alignRight: true },
+      { header: 'OUTPUT', alignRight: true },
+      { header: 'COST', alignRight: true },
+      { header: 'MODELS' },
+      { header: 'PROJECT' },
+    ],
+    sessions.map((session) => [
+      session.sessionId,
+      formatTime(Date.parse(session.updatedAt)),
+      formatCount(session.messages),
+      formatCount(session.tokens.input),
+      formatCount(session.tokens.output),
+      formatCost(session.cost),
+      session.models.join(', '),
+      session.projectPath ?? '',
+    ]),
+  ));
+  if (shown.length < sessionDirs.length) {
+    io.stdout(`${sessionDirs.length - shown.length} older sessions not shown (--limit 0 shows all)\n`);
+  }
+  return EXIT_OK;
+}
+
+async function runShow(sessionQuery: string | undefined, options: CliOptions, io: CliIO): Promise<number> {
+  const dir = findSessionDir(await listSessionDirs(), sessionQuery);
+  const inputs = await loadParseInputs();
+  const { rows, state } = await loadSessionWithState(dir, inputs);
+  if (!state) throw new Error(`Cannot read the events of session ${dir.sessionId}`);
+
+  const workspace = await readWorkspaceYaml(path.join(dir.dirPath, 'workspace.yaml'));
+  const summary = summarizeSession(dir.sessionId, { updatedAt: dir.mtimeMs, usageRows: rows, parseState: state }, workspace);
+  const lifecycle = resolveSessionLifecycle(state, dir.mtimeMs, summarizeSessionProcesses().get(dir.sessionId));
+
+  if (options.json) {
+    io.stdout(renderJson({ ...summary, lifecycle, dirPath: dir.dirPath }));
+    return EXIT_OK;
+  }
+
+  const fields: Array<[string, string]> = [
+    ['Session', summary.sessionId],
+    ['Directory', dir.dirPath],
+    ['Summary', summary.summary ?? '-'],
+    ['Project', summary.projectPath ?? '-'],
+    ['Repository', summary.repository ? `${summary.repository}${summary.branch ? ` (${summary.branch})` : ''}` : '-'],
+    ['State', lifecycle.state],
+    ['Started', formatTime(summary.startedAt)],
+    ['Ended', formatTime(summary.endedAt)],
+    ['Duration', formatDuration(summary.durationMs)],
+    ['Messages', `${summary.messageCount} (${summary.tokenSplit.estimatedMessages} estimated)`],
+    ['Turns', String(summary.turnCount)],
+    ['Interactions', String(summary.interactionCount)],
+    ['Tokens', `${formatCount(summary.tokens.input)} in, ${formatCount(summary.tokens.output)} out, `
+      + `${formatCount(summary.tokens.cacheRead)} cache read, ${formatCount(summary.tokens.cacheWrite)} cache write`],
+    ['Cost', formatCost(summary.cost)],
+  ];
+  const labelWidth = Math.max(...fields.map(([label]) => label.length));
+  io.stdout(fields.map(([label, value]) => `${label.padEnd(labelWidth)}  ${value}`).join('\n') + '\n');
+
+  if (summary.byModel.length > 0) {
+    io.stdout('\n' + renderTable(
+      [
+        { header: 'MODEL' },
+        { header: 'MESSAGES', alignRight: true },
+        { header: 'INPUT', alignRight: true },
+        { header: 'OUTPUT', alignRight: true },
+        { header: 'CACHE READ', alignRight: true },
+        { header: 'COST', alignRight: true },
+      ],
+      summary.byModel.map((model) => [
+        model.modelId,
+        formatCount(model.messages),
+        formatCount(model.tokens.input),
+        formatCount(model.tokens.output),
+        formatCount(model.tokens.cacheRead),
+        formatCost(model.cost),
+      ]),
+    ));
+  }
+  return EXIT_OK;
+}
+
+async function runTimeline(sessionQuery: string | undefined, options: CliOptions, io: CliIO): Promise<number> {
+  const dir = findSessionDir(await listSessionDirs(), sessionQuery);
+  const rows = await loadSessionRows(dir, await loadParseInputs());
+
+  if (options.json) {
+    io.stdout(renderJson(rows));
+    return EXIT_OK;
+  }
+
+  if (rows.length === 0) {
+    io.stdout(`Session ${dir.sessionId} has no assistant messages\n`);
+    return EXIT_OK;
+  }
+
+  io.stdout(renderTable(
+    [
+      { header: 'TIME' },
+      { header: 'MODEL' },
+      { header: 'MODEL SOURCE' },
+      { header: 'TOKEN SOURCE' },
+      { header: 'INPUT', alignRight: true },
+      { header: 'OUTPUT', alignRight: true },
+      { header: 'CACHE READ', alignRight: true },
+      { header: 'TURN', alignRight: true },
+      { header: 'COST', alignRight: true },
+    ],
+    rows.map((row) => [
+      formatTime(row.timestamp),
+      row.modelId,
+      String(row.metadata?.modelSource ?? '-'),
+      String(row.metadata?.tokenSource ?? '-'),
+      formatCount(row.tokens.input),
+      formatCount(row.tokens.output),
+      formatCount(row.tokens.cacheRead ?? 0),
+      (row.metadata?.turn as TurnMetrics | undefined)?.turnId ?? '-',
+      formatCost(row.cost),
+    ]),
+  ));
+  return EXIT_OK;
+}
+
+async function runModels(options: CliOptions, io: CliIO): Promise<number> {
+  const sessionDirs = await listSessionDirs();
+  const inputs = await loadParseInputs();
+
+  const byModel = new Map<string, {
+    modelId: string;
+    sessions: number;
+    messages: number;
+    estimatedMessages: number;
+    tokens: TokenTotals;
+    cost: number | undefined;
+    pricingKey: string | null;
+  }>();
+  for (const dir of sessionDirs) {
+    const rows = await loadSessionRows(dir, inputs);
+    const seen = new Set<string>();
+    for (const row of rows) {
+      let model = byModel.get(row.modelId);
+      if (!model) {
+        model = {
+          modelId: row.modelId,
+          sessions: 0,
+          messages: 0,
+          estimatedMessages: 0,
+          tokens: createTokenTotals(),
+          cost: undefined,
+          pricingKey: resolveModelPricing(row.modelId)?.key ?? null,
+        };
+        byModel.set(row.modelId, model);
+      }
+      if (!seen.has(row.modelId)) {
+        seen.add(row.modelId);
+        model.sessions++;
+      }
+      model.messages++;
+      if (row.metadata?.isEstimated === true) model.estimatedMessages++;
+      addRowTokens(model.tokens, row);
+      if (row.cost !== undefined) model.cost = (model.cost ?? 0) + row.cost;
+    }
+  }
+  const models = Array.from(byModel.values()).sort((a, b) => b.messages - a.messages);
+
+  if (options.json) {
+    io.stdout(renderJson({ defaultModel: inputs.defaultModel, models }));
+    return EXIT_OK;
+  }
+
+  io.stdout(`Default model: ${inputs.defaultModel}\n`);
+  if (models.length === 0) return EXIT_OK;
+
+  io.stdout('\n' + renderTable(
+    [
+      { header: 'MODEL' },
+      { header: 'SESSIONS', alignRight: true },
+      { header: 'MESSAGES', alignRight: true },
+      { header: 'ESTIMATED', alignRight: true },
+      { header: 'INPUT', alignRight: true },
+      { header: 'OUTPUT', alignRight: true },
+      { header: 'COST', alignRight: true },
+      { header: 'PRICING' },
+    ],
+    models.map((model) => [
+      model.modelId,
+      formatCount(model.sessions),
+      formatCount(model.messages),
+      formatCount(model.estimatedMessages),
+      formatCount(model.tokens.input),
+      formatCount(model.tokens.output),
+      formatCost(model.cost),
+      model.pricingKey ?? 'none',
+    ]),
+  ));
+  return EXIT_OK;
+}
+
+async function runLogs(options: CliOptions, io: CliIO): Promise<number> {
+  const logFiles = (await listProcessLogs()).sort((a, b) => b.mtimeMs - a.mtimeMs);
+  const shown = options.limit > 0 ? logFiles.slice(0, options.limit) : logFiles;
+
+  const logs = [];
+  for (const logFile of shown) {
+    let content: string;
+    try {
+      content = await fs.readFile(logFile.path, 'utf-8');
+    } catch {
+      // Removed since it was listed — skip
+      continue;
+    }
+    const data = parseProcessLogData(content);
+    logs.push({
+      path: logFile.path,
+      size: logFile.size,
+      modifiedAt: new Date(logFile.mtimeMs).toISOString(),
+      sessionId: data.sessionId,
+      startedAt: data.startedAt === null ? null : new Date(data.startedAt).toISOString(),
+      model: data.model,
+      modelTimeline: data.modelTimeline,
+      compactionEntries: data.compactionTimeline.length,
+    });
+  }
+
+  if (options.json) {
+    io.stdout(renderJson(logs));
+    return EXIT_OK;
+  }
+
+  if (logs.length === 0) {
+    io.stdout('No process logs found\n');
+    return EXIT_OK;
+  }
+
+  io.stdout(renderTable(
+    [
+      { header: 'LOG' },
+      { header: 'STARTED' },
+      { header: 'SESSION' },
+      { header: 'MODEL' },
+      { header: 'COMPACTIONS', alignRight: true },
+    ],
+    logs.map((log) => [
+      path.basename(log.path),
+      formatTime(log.startedAt === null ? null : Date.parse(log.startedAt)),
+      log.sessionId ?? '-',
+      log.model ?? '-',
+      formatCount(log.compactionEntries),
+    ]),
+  ));
+  if (shown.length < logFiles.length) {
+    io.stdout(`${logFiles.length - shown.length} older logs not shown (--limit 0 shows all)\n`);
+  }
+  return EXIT_OK;
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check the selected homes for anything that makes the numbers less
+ * trustworthy: missing directories and files, schema drift, sessions and
+ * logs that cannot be matched up, estimated tokens, unknown and unpriced models.
+ */
+async function collectDoctorChecks(): Promise<DoctorCheck[]> {
+  const checks: DoctorCheck[] = [];
+  const add = (status: CheckStatus, check: string, detail: string): void => {
+    checks.push({ status, check, detail });
+  };
+
+  const roots = getCopilotCliRoots();
+  let rootsWithSessions = 0;
+  for (const root of roots) {
+    const hasSessions = await fileExists(root.sessionStatePath);
+    const hasLogs = await fileExists(root.logsPath);
+    if (hasSessions) rootsWithSessions++;
+    add(
+      hasSessions ? 'ok' : 'warn',
+      'home',
+      `${root.home}: session-state ${hasSessions ? 'found' : 'missing'}, logs ${hasLogs ? 'found' : 'missing'}`,
+    );
+  }
+  if (rootsWithSessions === 0) {
+    add('error', 'home', roots.length === 0 ? 'No Copilot home directory selected' : 'No home has a session-state directory');
+    return checks;
+  }
+
+  const sessionDirs = await listSessionDirs();
+  if (sessionDirs.length === 0) {
+    add('error', 'sessions', 'No session directory with an events.jsonl');
+    return checks;
+  }
+  add('ok', 'sessions', `${sessionDirs.length} sessions`);
+
+  const inputs = await loadParseInputs();
+  const logSessionIds = new Set<string>();
+  const logFiles = await listProcessLogs();
+  for (const logFile of logFiles) {
+    try {
+      const data = parseProcessLogData(await fs.readFile(logFile.path, 'utf-8'));
+      if (data.sessionId) logSessionIds.add(data.sessionId);
+    } catch {
+      // Removed since it was listed — skip
+    }
+  }
+  add(logFiles.length > 0 ? 'ok' : 'warn', 'process logs', logFiles.length > 0
+    ? `${logFiles.length} process logs, default model ${inputs.defaultModel}`
+    : 'No process logs — messages without a model fall back to "unknown"');
+
+  const missingWorkspace: string[] = [];
+  const unreadable: string[] = [];
+  const withoutLogs: string[] = [];
+  const schemaIssues = new Map<string, number>();
+  const rows: SessionUsageData[] = [];
+
+  for (const dir of sessionDirs) {
+    if (!(await fileExists(path.join(dir.dirPath, 'workspace.yaml')))) missingWorkspace.push(dir.sessionId);
+    if (!logSessionIds.has(dir.sessionId)) withoutLogs.push(dir.sessionId);
+
+    const { rows: sessionRows, state } = await loadSessionWithState(dir, inputs);
+    if (!state) {
+      unreadable.push(dir.sessionId);
+      continue;
+    }
+    rows.push(...sessionRows);
+    for (const issue of state.schema.issues.values()) {
+      schemaIssues.set(issue.kind, (schemaIssues.get(issue.kind) ?? 0) + issue.count);
+    }
+  }
+
+  const listIds = (ids: ReadonlyArray<string>): string =>
+    ids.slice(0, 3).join(', ') + (ids.length > 3 ? `, and ${ids.length - 3} more` : '');
+
+  add(missingWorkspace.length === 0 ? 'ok' : 'warn', 'workspace.yaml', missingWorkspace.length === 0
+    ? 'Every session has a workspace.yaml'
+    : `${missingWorkspace.length} sessions without workspace.yaml: ${listIds(missingWorkspace)}`);
+  if (unreadable.length > 0) {
+    add('warn', 'events.jsonl', `${unreadable.length} sessions with an unreadable events.jsonl: ${listIds(unreadable)}`);
+  }
+  add(schemaIssues.size === 0 ? 'ok' : 'warn', 'schema', schemaIssues.size === 0
+    ? 'No schema drift'
+    : Array.from(schemaIssues, ([kind, count]) => `${count} ${kind}`).join(', '));
+
+  const sessionIds = new Set(sessionDirs.map((dir) => dir.sessionId));
+  const orphanLogs = Array.from(logSessionIds).filter((sessionId) => !sessionIds.has(sessionId));
+  add(orphanLogs.length === 0 ? 'ok' : 'warn', 'orphan logs', orphanLogs.length === 0
+    ? 'Every process log belongs to a known session'
+    : `${orphanLogs.length} sessions have process logs but no session directory: ${listIds(orphanLogs)}`);
+  add(withoutLogs.length === 0 ? 'ok' : 'warn', 'sessions without logs', withoutLogs.length === 0
+    ? 'Every session has a process log'
+    : `${withoutLogs.length} sessions have no process log: ${listIds(withoutLogs)}`);
+
+  const estimated = rows.filter((row) => row.metadata?.isEstimated === true).length;
+  add(estimated * 2 > rows.length ? 'warn' : 'ok', 'token estimates',
+    `${formatCount(estimated)} of ${formatCount(rows.length)} messages (${formatPercent(estimated, rows.length)}) have estimated tokens`);
+
+  const unknownModel = rows.filter((row) => row.modelId === 'unknown').length;
+  add(unknownModel === 0 ? 'ok' : 'warn', 'models', unknownModel === 0
+    ? 'Every message has a model'
+    : `${formatCount(unknownModel)} messages have no known model`);
+
+  const { unpricedRows } = summarizeCost(rows);
+  const unpricedModels = Array.from(new Set(rows.filter((row) => row.cost === undefined).map((row) => row.modelId)));
+  add(unpricedRows === 0 ? 'ok' : 'warn', 'pricing', unpricedRows === 0
+    ? 'Every message is priced'
+    : `${formatCount(unpricedRows)} messages without a pricing entry: ${unpricedModels.join(', ')}`);
+
+  return checks;
+}
+
+async function runDoctor(options: CliOptions, io: CliIO): Promise<number> {
+  const checks = await collectDoctorChecks();
+  const failed = checks.some((check) => check.status === 'error');
+
+  if (options.json) {
+    io.stdout(renderJson({ ok: !failed, checks }));
+  } else {
+    const checkWidth = Math.max(...checks.map((check) => check.check.length));
+    io.stdout(checks
+      .map((check) => `${`[${check.status}]`.padEnd(7)} ${check.check.padEnd(checkWidth)}  ${check.detail}`)
+      .join('\n') + '\n');
+  }
+  return failed ? EXIT_FAILURE : EXIT_OK;
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Run the standalone CLI and return its exit code. Reads only the selected
+ * Copilot homes and never touches the network or the plugin's on-disk cache.
+ */
+export async function runCli(argv: ReadonlyArray<string>, io: CliIO = defaultIO): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: [...argv],
+      allowPositionals: true,
+      options: {
+        home: { type: 'string', short: 'H', multiple: true },
+        limit: { type: 'string', short: 'n' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    io.stderr(`${(err as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, ...args] = positionals;
+  if (values.help || !command) {
+    (values.help ? io.stdout : io.stderr)(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const limit = values.limit === undefined ? DEFAULT_LIST_LIMIT : Number(values.limit);
+  if (!Number.isInteger(limit) || limit < 0) {
+    io.stderr('--limit must be a non-negative integer\n');
+    return EXIT_USAGE;
+  }
+  const options: CliOptions = { json: values.json === true, limit };
+
+  // A one-shot read of the chosen homes — nothing to persist
+  configurePersistentCache({ persistentCache: false });
+  if (values.home && values.home.length > 0) {
+    configureCopilotHomes({ copilotHomes: values.home }, true);
+  } else {
+    configureCopilotHomes(undefined);
+  }
+  invalidateCompactionIndex();
+
+  try {
+    switch (command) {
+      case 'list': return await runList(options, io);
+      case 'show': return await runShow(args[0], options, io);
+      case 'timeline': return await runTimeline(args[0], options, io);
+      case 'models': return await runModels(options, io);
+      case 'logs': return await runLogs(options, io);
+      case 'doctor': return await runDoctor(options, io);
+      default:
+        io.stderr(`Unknown command: ${command}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+  } catch (err) {
+    io.stderr(`${(err as Error).message}\n`);
+    return EXIT_FAILURE;
+  }
+}
@@ -0,0 +1,106 @@
+import { buildCompactionIndex } from './parser.ts';
+import type {
+  CompactionEntry,
+  ContextCompactionEvent,
+  ContextUsageSummary,
+  ContextUtilizationPoint,
+} from './types.ts';
+
+/** A drop of at least this fraction of the context counts as a compaction. */
+export const COMPACTION_DROP_RATIO = 0.3;
+
+/** Drops smaller than this are normal churn (e.g. a tool result trimmed). */
+const MIN_COMPACTION_DROP_TOKENS = 1000;
+
+export function getContextUtilization(entry: CompactionEntry): number {
+  if (entry.contextWindow <= 0) return 0;
+  return Math.round((entry.tokens / entry.contextWindow) * 10_000) / 10_000;
+}
+
+/**
+ * Whether the context shrank enough between two consecutive requests of the
+ * same process to be a compaction or summarisation. A resume starts a new
+ * context, so drops across processes never count.
+ */
+export function isCompactionDrop(previous: CompactionEntry, entry: CompactionEntry): boolean {
+  if (previous.processStartedAt !== entry.processStartedAt) return false;
+
+  const drop = previous.tokens - entry.tokens;
+  return drop >= MIN_COMPACTION_DROP_TOKENS && drop >= previous.tokens * COMPACTION_DROP_RATIO;
+}
+
+/**
+ * Build the utilisation series, peak and compaction events for one session's
+ * compaction timeline.
+ */
+export function summarizeContextUsage(sessionId: string, timeline: ReadonlyArray<CompactionEntry>): ContextUsageSummary {
+  const series: ContextUtilizationPoint[] = [];
+  const compactionEvents: ContextCompactionEvent[] = [];
+  let peak: ContextUtilizationPoint | null = null;
+  let utilizationTotal = 0;
+
+  for (let i = 0; i < timeline.length; i++) {
+    const entry = timeline[i]!;
+    const point: ContextUtilizationPoint = {
+      timestamp: entry.timestamp,
+      tokens: entry.tokens,
+      contextWindow: entry.contextWindow,
+      utilization: getContextUtilization(entry),
+    };
+    series.push(point);
+    utilizationTotal += point.utilization;
+
+    if (!peak || point.utilization > peak.utilization) {
+      peak = point;
+    }
+
+    const previous = timeline[i - 1];
+    if (previous && isCompactionDrop(previous, entry)) {
+      compactionEvents.push({
+        timestamp: entry.timestamp,
+        tokensBefore: previous.tokens,
+        tokensAfter: entry.tokens,
+        contextWindow: previous.contextWindow,
+        utilizationBefore: getContextUtilization(previous),
+      });
+    }
+  }
+
+  return {
+    sessionId,
+    series,
+    peak,
+    averageUtilization: series.length > 0 ? Math.round((utilizationTotal / series.length) * 10_000) / 10_000 : 0,
+    compactionEvents,
+  };
+}
+
+/**
+ * Context utilisation for one session, from its process logs. Returns null
+ * when no process log has CompactionProcessor entries for the session.
+ */
+export async function getSessionContextUsage(sessionId: string): Promise<ContextUsageSummary | null> {
+  const timeline = (await buildCompactionIndex()).get(sessionId);
+  if (!timeline) return null;
+
+  return summarizeContextUsage(sessionId, timeline);
+}
+
+/**
+ * Context utilisation for every session with process log data, highest peak
+ * first. `minPeakUtilization` (0–1) keeps only sessions that came at least
+ * that close to the context limit.
+ */
+export async function listContextUsage(options?: { minPeakUtilization?: number }): Promise<ContextUsageSummary[]> {
+  const minPeak = options?.minPeakUtilization ?? 0;
+  const summaries: ContextUsageSummary[] = [];
+
+  for (const [sessionId, timeline] of await buildCompactionIndex()) {
+    const summary = summarizeContextUsage(sessionId, timeline);
+    if ((summary.peak?.utilization ?? 0) >= minPeak) {
+      summaries.push(summary);
+    }
+  }
+
+  return summaries.sort((a, b) => (b.peak?.utilization ?? 0) - (a.peak?.utilization ?? 0));
+}
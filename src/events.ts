@@ -0,0 +1,184 @@
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import { sessionAggregateCache } from './cache.ts';
+import type {
+  CopilotCliEventBase,
+  EventBranchKind,
+  EventNodeRecord,
+  EventTreeNode,
+  SessionParseState,
+  TokenTotals,
+} from './types.ts';
+import { getReasoningTokens, toTimestamp } from './utils.ts';
+
+const TOOL_EXECUTION_START = 'tool.execution_start';
+const TOOL_EXECUTION_COMPLETE = 'tool.execution_complete';
+
+/**
+ * Add an event's node to the session's event tree.
+ *
+ * `agentDepth` counts the tool-call scopes the event runs in: anything other
+ * than a tool event whose parent is a tool.execution_start is one level deeper
+ * (a sub-agent or a request the tool made), and a tool.execution_complete
+ * closes the scope by taking the depth of its start event. Call before the
+ * event's tool call record is updated.
+ */
+export function recordEventNode(state: SessionParseState, event: CopilotCliEventBase): void {
+  if (typeof event.id !== 'string' || event.id.length === 0 || typeof event.type !== 'string') return;
+
+  const parentId = typeof event.parentId === 'string' && event.parentId.length > 0 ? event.parentId : null;
+  const parent = parentId ? state.events.get(parentId) : undefined;
+  const isToolEvent = event.type === TOOL_EXECUTION_START || event.type === TOOL_EXECUTION_COMPLETE;
+
+  const node: EventNodeRecord = {
+    id: event.id,
+    parentId,
+    type: event.type,
+    timestamp: typeof event.timestamp === 'string' ? event.timestamp : '',
+    agentDepth: parent ? parent.agentDepth + (parent.type === TOOL_EXECUTION_START && !isToolEvent ? 1 : 0) : 0,
+  };
+
+  const data = event.data as Record<string, unknown> | undefined;
+  if (data && typeof data === 'object') {
+    if (event.type === 'assistant.message' && typeof data.messageId === 'string') {
+      node.messageId = data.messageId;
+    }
+    if (typeof data.toolCallId === 'string' && data.toolCallId.length > 0) {
+      node.toolCallId = data.toolCallId;
+    }
+  }
+
+  if (event.type === TOOL_EXECUTION_COMPLETE && node.toolCallId) {
+    const startEventId = state.toolCalls.get(node.toolCallId)?.startEventId;
+    const start = startEventId ? state.events.get(startEventId) : undefined;
+    if (start) {
+      node.agentDepth = start.agentDepth;
+    }
+  }
+
+  state.events.set(node.id, node);
+}
+
+/**
+ * Classify every assistant.message node: `subagent` when it runs inside a
+ * tool call, `retry` when an earlier assistant.message has the same parent,
+ * otherwise `main`. Keyed by event id.
+ */
+export function classifyAssistantEvents(state: SessionParseState): Map<string, EventBranchKind> {
+  const branches = new Map<string, EventBranchKind>();
+  const answeredParents = new Set<string>();
+
+  for (const node of state.events.values()) {
+    if (node.type !== 'assistant.message') continue;
+
+    let kind: EventBranchKind = 'main';
+    if (node.agentDepth > 0) {
+      kind = 'subagent';
+    } else if (node.parentId && answeredParents.has(node.parentId)) {
+      kind = 'retry';
+    }
+    if (node.parentId) {
+      answeredParents.add(node.parentId);
+    }
+    branches.set(node.id, kind);
+  }
+
+  return branches;
+}
+
+function createTokenTotals(): TokenTotals {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0, total: 0 };
+}
+
+function addTokenTotals(target: TokenTotals, source: TokenTotals): void {
+  target.input += source.input;
+  target.output += source.output;
+  target.cacheRead += source.cacheRead;
+  target.cacheWrite += source.cacheWrite;
+  target.reasoning += source.reasoning;
+  target.total += source.total;
+}
+
+/**
+ * Rebuild the parentId tree with each node's own tokens (from the row built
+ * for its message) and the subtotal of its subtree. Events whose parent was
+ * never seen become roots. Iterative, so long linear chains are safe.
+ */
+export function buildEventTree(state: SessionParseState, rows: ReadonlyArray<SessionUsageData>): EventTreeNode[] {
+  const rowTokens = new Map<string, TokenTotals>();
+  for (const row of rows) {
+    const eventId = row.metadata?.eventId;
+    if (typeof eventId !== 'string') continue;
+
+    const tokens = rowTokens.get(eventId) ?? createTokenTotals();
+    const reasoning = getReasoningTokens(row);
+    addTokenTotals(tokens, {
+      input: row.tokens.input,
+      output: row.tokens.output,
+      cacheRead: row.tokens.cacheRead ?? 0,
+      cacheWrite: row.tokens.cacheWrite ?? 0,
+      reasoning,
+      total: row.tokens.input + row.tokens.output + (row.tokens.cacheRead ?? 0) + (row.tokens.cacheWrite ?? 0),
+    });
+    rowTokens.set(eventId, tokens);
+  }
+
+  const branches = classifyAssistantEvents(state);
+  const nodes = new Map<string, EventTreeNode>();
+  for (const record of state.events.values()) {
+    const tokens = rowTokens.get(record.id) ?? createTokenTotals();
+    const node: EventTreeNode = {
+      id: record.id,
+      parentId: record.parentId,
+      type: record.type,
+      timestamp: toTimestamp(record.timestamp, 0),
+      agentDepth: record.agentDepth,
+      tokens,
+      subtotal: { ...tokens },
+      children: [],
+    };
+    if (record.messageId) node.messageId = record.messageId;
+    if (record.toolCallId) node.toolCallId = record.toolCallId;
+    const branch = branches.get(record.id);
+    if (branch) node.branch = branch;
+    nodes.set(record.id, node);
+  }
+
+  const roots: EventTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  // Post-order walk: children are summed into their parent after their own subtotals are final
+  const stack: Array<{ node: EventTreeNode; visited: boolean }> = roots.map((node) => ({ node, visited: false }));
+  while (stack.length > 0) {
+    const frame = stack.pop()!;
+    if (frame.visited) {
+      for (const child of frame.node.children) {
+        addTokenTotals(frame.node.subtotal, child.subtotal);
+      }
+      continue;
+    }
+    stack.push({ node: frame.node, visited: true });
+    for (const child of frame.node.children) {
+      stack.push({ node: child, visited: false });
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * A session's event tree with per-node token subtotals, from the most recent
+ * parse. Returns null when the session has not been parsed yet.
+ */
+export function getSessionEventTree(sessionId: string): EventTreeNode[] | null {
+  const entry = sessionAggregateCache.get(sessionId);
+  if (!entry?.parseState) return null;
+
+  return buildEventTree(entry.parseState, entry.usageRows);
+}
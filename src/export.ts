@@ -0,0 +1,609 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { Writable } from 'stream';
+import type { AgentFetchContext, SessionUsageData } from '@tokentop/plugin-sdk';
+import { sessionAggregateCache } from './cache.ts';
+import { buildCompactionIndex, buildModelIndex, getDefaultModel, parseSessionDirIncremental } from './parser.ts';
+import { getSessionDirs } from './paths.ts';
+import { getSessionSummary, summarizeSession } from './summary.ts';
+import type {
+  CompactionEntry,
+  ExportOptions,
+  ExportStats,
+  ModelTimelineEntry,
+  SessionParseState,
+  SessionSummary,
+  TurnMetrics,
+} from './types.ts';
+import { getReasoningTokens, readWorkspaceYaml } from './utils.ts';
+
+/** Instrumentation scope and GenAI agent name on exported telemetry. */
+const OTEL_SCOPE_NAME = '@tokentop/agent-copilot-cli';
+const OTEL_AGENT_NAME = 'copilot-cli';
+const OTEL_PROVIDER_NAME = 'github_copilot';
+
+/** Bucket boundaries the GenAI semantic conventions recommend for `gen_ai.client.token.usage`. */
+const TOKEN_USAGE_BUCKETS = [1, 4, 16, 64, 256, 1024, 4096, 16384, 65536, 262144, 1048576, 4194304, 16777216, 67108864];
+
+const SPAN_KIND_INTERNAL = 1;
+const SPAN_KIND_CLIENT = 3;
+const AGGREGATION_TEMPORALITY_DELTA = 1;
+
+const MESSAGE_COLUMNS = [
+  'timestamp', 'session_id', 'session_name', 'project_path', 'repository', 'branch', 'provider', 'model',
+  'input_tokens', 'output_tokens', 'cache_read_tokens', 'cache_write_tokens', 'reasoning_tokens', 'cost',
+  'is_estimated', 'token_source', 'interaction_id', 'turn', 'turn_duration_ms',
+] as const;
+
+const SESSION_COLUMNS = [
+  'session_id', 'started_at', 'ended_at', 'duration_ms', 'project_path', 'repository', 'branch', 'summary',
+  'summary_count', 'messages', 'turns', 'interactions', 'input_tokens', 'output_tokens', 'cache_read_tokens',
+  'cache_write_tokens', 'reasoning_tokens', 'total_tokens', 'cost', 'real_messages', 'estimated_messages', 'models',
+] as const;
+
+type CsvValue = string | number | boolean | null | undefined;
+
+function toCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvLine(values: ReadonlyArray<CsvValue>): string {
+  return values.map(toCsvField).join(',') + '\r\n';
+}
+
+function toIsoString(timestamp: number | null): string | null {
+  return timestamp === null ? null : new Date(timestamp).toISOString();
+}
+
+function getStringMetadata(row: SessionUsageData, key: string): string | undefined {
+  const value = row.metadata?.[key];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/** The turn a row was emitted in, from `metadata.turn`. */
+function getTurn(row: SessionUsageData): TurnMetrics | undefined {
+  const turn = row.metadata?.turn as TurnMetrics | undefined;
+  return turn && typeof turn.turnId === 'string' ? turn : undefined;
+}
+
+/**
+ * A project filter matches a project directory and anything below it, or a
+ * repository by its `owner/name`.
+ */
+function matchesProject(project: string, projectPath: string | undefined, repository: string | undefined): boolean {
+  if (repository === project) return true;
+  if (!projectPath) return false;
+
+  const normalizedProject = path.resolve(project);
+  const normalizedPath = path.resolve(projectPath);
+  return normalizedPath === normalizedProject || normalizedPath.startsWith(normalizedProject + path.sep);
+}
+
+function includesRow(row: SessionUsageData, options: ExportOptions): boolean {
+  if (options.since !== undefined && row.timestamp < options.since) return false;
+  if (options.until !== undefined && row.timestamp >= options.until) return false;
+  return !options.project || matchesProject(options.project, row.projectPath, getStringMetadata(row, 'repository'));
+}
+
+function includesSession(summary: SessionSummary, options: ExportOptions): boolean {
+  if (options.since !== undefined && (summary.endedAt ?? 0) < options.since) return false;
+  if (options.until !== undefined && (summary.startedAt ?? 0) >= options.until) return false;
+  return !options.project || matchesProject(options.project, summary.projectPath, summary.repository);
+}
+
+// ---------------------------------------------------------------------------
+// CSV and JSONL
+// ---------------------------------------------------------------------------
+
+function toMessageCsvLine(row: SessionUsageData): string {
+  const turn = getTurn(row);
+  return toCsvLine([
+    toIsoString(row.timestamp),
+    row.sessionId,
+    row.sessionName,
+    row.projectPath,
+    getStringMetadata(row, 'repository'),
+    getStringMetadata(row, 'branch'),
+    row.providerId,
+    row.modelId,
+    row.tokens.input,
+    row.tokens.output,
+    row.tokens.cacheRead ?? 0,
+    row.tokens.cacheWrite ?? 0,
+    getReasoningTokens(row),
+    row.cost,
+    row.metadata?.isEstimated === true,
+    getStringMetadata(row, 'tokenSource'),
+    getStringMetadata(row, 'interactionId'),
+    turn?.turnId,
+    turn?.durationMs,
+  ]);
+}
+
+function toSessionCsvLine(summary: SessionSummary): string {
+  return toCsvLine([
+    summary.sessionId,
+    toIsoString(summary.startedAt),
+    toIsoString(summary.endedAt),
+    summary.durationMs,
+    summary.projectPath,
+    summary.repository,
+    summary.branch,
+    summary.summary,
+    summary.summaryCount,
+    summary.messageCount,
+    summary.turnCount,
+    summary.interactionCount,
+    summary.tokens.input,
+    summary.tokens.output,
+    summary.tokens.cacheRead,
+    summary.tokens.cacheWrite,
+    summary.tokens.reasoning,
+    summary.tokens.total,
+    summary.cost,
+    summary.tokenSplit.realMessages,
+    summary.tokenSplit.estimatedMessages,
+    summary.byModel.map((model) => model.modelId).join(';'),
+  ]);
+}
+
+/** One message row in a stable, flat shape — independent of the row metadata layout. */
+function toMessageRecord(row: SessionUsageData): Record<string, unknown> {
+  const reasoning = getReasoningTokens(row);
+  const cacheRead = row.tokens.cacheRead ?? 0;
+  const cacheWrite = row.tokens.cacheWrite ?? 0;
+  const turn = getTurn(row);
+
+  return {
+    type: 'message',
+    timestamp: toIsoString(row.timestamp),
+    sessionId: row.sessionId,
+    sessionName: row.sessionName ?? null,
+    projectPath: row.projectPath ?? null,
+    repository: getStringMetadata(row, 'repository') ?? null,
+    branch: getStringMetadata(row, 'branch') ?? null,
+    provider: row.providerId,
+    model: row.modelId,
+    tokens: {
+      input: row.tokens.input,
+      output: row.tokens.output,
+      cacheRead,
+      cacheWrite,
+      reasoning,
+      total: row.tokens.input + row.tokens.output + cacheRead + cacheWrite,
+    },
+    cost: row.cost ?? null,
+    isEstimated: row.metadata?.isEstimated === true,
+    tokenSource: getStringMetadata(row, 'tokenSource') ?? null,
+    interactionId: getStringMetadata(row, 'interactionId') ?? null,
+    turn: turn?.turnId ?? null,
+    turnDurationMs: turn?.durationMs ?? null,
+  };
+}
+
+function toSessionRecord(summary: SessionSummary): Record<string, unknown> {
+  return {
+    type: 'session',
+    ...summary,
+    startedAt: toIsoString(summary.startedAt),
+    endedAt: toIsoString(summary.endedAt),
+    updatedAt: toIsoString(summary.updatedAt),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// OTLP-JSON (GenAI semantic conventions)
+// ---------------------------------------------------------------------------
+
+interface OtlpAttribute {
+  key: string;
+  value: { stringValue: string } | { intValue: string } | { doubleValue: number } | { boolValue: boolean };
+}
+
+/** Marks a number that is always a double (e.g. a cost), even when it happens to be whole. */
+interface OtlpDouble {
+  double: number;
+}
+
+function toAttributes(values: Record<string, string | number | boolean | OtlpDouble | undefined>): OtlpAttribute[] {
+  const attributes: OtlpAttribute[] = [];
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) continue;
+    if (typeof value === 'object') {
+      attributes.push({ key, value: { doubleValue: value.double } });
+    } else if (typeof value === 'string') {
+      attributes.push({ key, value: { stringValue: value } });
+    } else if (typeof value === 'boolean') {
+      attributes.push({ key, value: { boolValue: value } });
+    } else if (Number.isInteger(value)) {
+      attributes.push({ key, value: { intValue: String(value) } });
+    } else {
+      attributes.push({ key, value: { doubleValue: value } });
+    }
+  }
+  return attributes;
+}
+
+/** OTLP-JSON encodes 64-bit times as decimal strings. */
+function toUnixNano(timestamp: number): string {
+  return (BigInt(Math.round(timestamp)) * 1_000_000n).toString();
+}
+
+function toHexId(seed: string, bytes: number): string {
+  return createHash('sha256').update(seed).digest('hex').slice(0, bytes * 2);
+}
+
+function getResource(sessionId: string): { attributes: OtlpAttribute[] } {
+  return { attributes: toAttributes({ 'service.name': OTEL_AGENT_NAME, 'gen_ai.conversation.id': sessionId }) };
+}
+
+function wrapSpans(sessionId: string, spans: ReadonlyArray<Record<string, unknown>>): string {
+  return JSON.stringify({
+    resourceSpans: [{ resource: getResource(sessionId), scopeSpans: [{ scope: { name: OTEL_SCOPE_NAME }, spans }] }],
+  });
+}
+
+function getSessionTraceIds(sessionId: string): { traceId: string; spanId: string } {
+  return { traceId: toHexId(`trace:${sessionId}`, 16), spanId: toHexId(`session:${sessionId}`, 8) };
+}
+
+/** Token totals, cost and message count reported on a session span. */
+type SessionSpanTotals = Pick<SessionSummary, 'tokens' | 'cost' | 'messageCount'>;
+
+function sumRowTotals(rows: ReadonlyArray<SessionUsageData>): SessionSpanTotals {
+  const totals: SessionSpanTotals = {
+    tokens: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0, total: 0 },
+    cost: 0,
+    messageCount: rows.length,
+  };
+  for (const row of rows) {
+    totals.tokens.input += row.tokens.input;
+    totals.tokens.output += row.tokens.output;
+    totals.tokens.cacheRead += row.tokens.cacheRead ?? 0;
+    totals.tokens.cacheWrite += row.tokens.cacheWrite ?? 0;
+    totals.tokens.reasoning += getReasoningTokens(row);
+    totals.cost += row.cost ?? 0;
+  }
+  totals.tokens.total = totals.tokens.input + totals.tokens.output + totals.tokens.cacheRead + totals.tokens.cacheWrite;
+  return totals;
+}
+
+/** The session's `invoke_agent` span, with the token totals and cost of `totals`. */
+function toSessionSpan(
+  sessionId: string,
+  session: { startedAt: number; endedAt: number; projectPath?: string; repository?: string; branch?: string },
+  totals: SessionSpanTotals,
+): Record<string, unknown> {
+  const { traceId, spanId } = getSessionTraceIds(sessionId);
+  return {
+    traceId,
+    spanId,
+    name: `invoke_agent ${OTEL_AGENT_NAME}`,
+    kind: SPAN_KIND_INTERNAL,
+    startTimeUnixNano: toUnixNano(session.startedAt),
+    endTimeUnixNano: toUnixNano(session.endedAt),
+    attributes: toAttributes({
+      'gen_ai.operation.name': 'invoke_agent',
+      'gen_ai.provider.name': OTEL_PROVIDER_NAME,
+      'gen_ai.agent.name': OTEL_AGENT_NAME,
+      'gen_ai.conversation.id': sessionId,
+      'gen_ai.usage.input_tokens': totals.tokens.input,
+      'gen_ai.usage.output_tokens': totals.tokens.output,
+      'gen_ai.usage.cache_read.input_tokens': totals.tokens.cacheRead,
+      'gen_ai.usage.cache_creation.input_tokens': totals.tokens.cacheWrite,
+      'tokentop.usage.reasoning_tokens': totals.tokens.reasoning,
+      'tokentop.cost_usd': { double: totals.cost },
+      'tokentop.messages': totals.messageCount,
+      'tokentop.project_path': session.projectPath,
+      'tokentop.repository': session.repository,
+      'tokentop.branch': session.branch,
+    }),
+  };
+}
+
+/**
+ * The session's `invoke_agent` span with a `chat` span per message under it,
+ * as one OTLP ExportTraceServiceRequest. The session span totals the
+ * exported messages only, so it agrees with its `chat` spans when the
+ * export is filtered.
+ */
+function toOtlpTraces(sessionId: string, rows: ReadonlyArray<SessionUsageData>, summary: SessionSummary | undefined): string {
+  const { traceId, spanId: sessionSpanId } = getSessionTraceIds(sessionId);
+  const first = rows[0]!;
+  const spans = [toSessionSpan(sessionId, {
+    startedAt: summary?.startedAt ?? first.timestamp,
+    endedAt: summary?.endedAt ?? rows[rows.length - 1]!.timestamp,
+    projectPath: first.projectPath,
+    repository: getStringMetadata(first, 'repository'),
+    branch: getStringMetadata(first, 'branch'),
+  }, sumRowTotals(rows))];
+
+  rows.forEach((row, index) => {
+    spans.push({
+      traceId,
+      spanId: toHexId(`message:${sessionId}:${getStringMetadata(row, 'eventId') ?? index}`, 8),
+      parentSpanId: sessionSpanId,
+      name: `chat ${row.modelId}`,
+      kind: SPAN_KIND_CLIENT,
+      startTimeUnixNano: toUnixNano(row.timestamp),
+      endTimeUnixNano: toUnixNano(row.timestamp),
+      attributes: toAttributes({
+        'gen_ai.operation.name': 'chat',
+        'gen_ai.provider.name': OTEL_PROVIDER_NAME,
+        'gen_ai.conversation.id': sessionId,
+        'gen_ai.request.model': row.modelId,
+        'gen_ai.response.model': row.modelId,
+        'gen_ai.usage.input_tokens': row.tokens.input,
+        'gen_ai.usage.output_tokens': row.tokens.output,
+        'gen_ai.usage.cache_read.input_tokens': row.tokens.cacheRead ?? 0,
+        'gen_ai.usage.cache_creation.input_tokens': row.tokens.cacheWrite ?? 0,
+        'tokentop.usage.reasoning_tokens': getReasoningTokens(row),
+        'tokentop.cost_usd': row.cost !== undefined ? { double: row.cost } : undefined,
+        'tokentop.is_estimated': row.metadata?.isEstimated === true,
+        'tokentop.token_source': getStringMetadata(row, 'tokenSource'),
+        'tokentop.interaction_id': getStringMetadata(row, 'interactionId'),
+      }),
+    });
+  });
+
+  return wrapSpans(sessionId, spans);
+}
+
+interface HistogramPoint {
+  attributes: Record<string, string>;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  bucketCounts: number[];
+}
+
+function recordHistogramValue(points: Map<string, HistogramPoint>, attributes: Record<string, string>, value: number): void {
+  const key = JSON.stringify(attributes);
+  let point = points.get(key);
+  if (!point) {
+    point = { attributes, count: 0, sum: 0, min: value, max: value, bucketCounts: new Array<number>(TOKEN_USAGE_BUCKETS.length + 1).fill(0) };
+    points.set(key, point);
+  }
+  point.count++;
+  point.sum += value;
+  point.min = Math.min(point.min, value);
+  point.max = Math.max(point.max, value);
+
+  const bucket = TOKEN_USAGE_BUCKETS.findIndex((bound) => value <= bound);
+  point.bucketCounts[bucket === -1 ? TOKEN_USAGE_BUCKETS.length : bucket]!++;
+}
+
+/**
+ * The session's `gen_ai.client.token.usage` histogram — one data point per
+ * model and token type over the exported messages — as one OTLP
+ * ExportMetricsServiceRequest.
+ */
+function toOtlpMetrics(sessionId: string, rows: ReadonlyArray<SessionUsageData>): string {
+  const points = new Map<string, HistogramPoint>();
+  for (const row of rows) {
+    const base = {
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.provider.name': OTEL_PROVIDER_NAME,
+      'gen_ai.request.model': row.modelId,
+      'gen_ai.response.model': row.modelId,
+    };
+    // Cache reads and writes are input the model processed
+    recordHistogramValue(
+      points,
+      { ...base, 'gen_ai.token.type': 'input' },
+      row.tokens.input + (row.tokens.cacheRead ?? 0) + (row.tokens.cacheWrite ?? 0),
+    );
+    // Reasoning is already part of the output
+    recordHistogramValue(points, { ...base, 'gen_ai.token.type': 'output' }, row.tokens.output);
+  }
+
+  const startTimeUnixNano = toUnixNano(rows[0]!.timestamp);
+  const timeUnixNano = toUnixNano(rows[rows.length - 1]!.timestamp);
+  const dataPoints = Array.from(points.values(), (point) => ({
+    attributes: toAttributes(point.attributes),
+    startTimeUnixNano,
+    timeUnixNano,
+    count: String(point.count),
+    sum: point.sum,
+    min: point.min,
+    max: point.max,
+    bucketCounts: point.bucketCounts.map(String),
+    explicitBounds: TOKEN_USAGE_BUCKETS,
+  }));
+
+  return JSON.stringify({
+    resourceMetrics: [{
+      resource: getResource(sessionId),
+      scopeMetrics: [{
+        scope: { name: OTEL_SCOPE_NAME },
+        metrics: [{
+          name: 'gen_ai.client.token.usage',
+          description: 'Number of input and output tokens used',
+          unit: '{token}',
+          histogram: { aggregationTemporality: AGGREGATION_TEMPORALITY_DELTA, dataPoints },
+        }],
+      }],
+    }],
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Streaming
+// ---------------------------------------------------------------------------
+
+interface ExportSessionDir {
+  sessionId: string;
+  dirPath: string;
+  mtimeMs: number;
+}
+
+/** Process log derived inputs every session parse needs. */
+interface ParseInputs {
+  defaultModel: string;
+  compactionIndex: Map<string, CompactionEntry[]>;
+  modelIndex: Map<string, ModelTimelineEntry[]>;
+}
+
+/**
+ * Session directories to read, most recently updated first: those updated at
+ * or after `since`, capped at `limit`. Only stats the files.
+ */
+async function listExportSessionDirs(options: ExportOptions): Promise<ExportSessionDir[]> {
+  const sessionDirs: ExportSessionDir[] = [];
+  for (const dirPath of await getSessionDirs()) {
+    try {
+      const stat = await fs.stat(path.join(dirPath, 'events.jsonl'));
+      if (options.since !== undefined && stat.mtimeMs < options.since) continue;
+      sessionDirs.push({ sessionId: path.basename(dirPath), dirPath, mtimeMs: stat.mtimeMs });
+    } catch {
+      // Removed since it was listed — skip
+    }
+  }
+
+  sessionDirs.sort((a, b) => b.mtimeMs - a.mtimeMs);
+  return options.limit ? sessionDirs.slice(0, options.limit) : sessionDirs;
+}
+
+/**
+ * One session's rows and parse state: the cached ones when the session has
+ * not changed since, else a fresh parse that is not added to the cache.
+ */
+function loadExportSession(
+  dir: ExportSessionDir,
+  inputs: ParseInputs,
+): Promise<{ rows: SessionUsageData[]; state: SessionParseState | null }> {
+  const cached = sessionAggregateCache.get(dir.sessionId);
+  if (cached && cached.updatedAt === dir.mtimeMs) {
+    return Promise.resolve({ rows: cached.usageRows, state: cached.parseState ?? null });
+  }
+  return parseSessionDirIncremental(
+    dir.dirPath,
+    dir.mtimeMs,
+    inputs.defaultModel,
+    inputs.compactionIndex.get(dir.sessionId),
+    undefined,
+    inputs.modelIndex.get(dir.sessionId),
+  );
+}
+
+async function getExportSessionSummary(
+  dir: ExportSessionDir,
+  rows: SessionUsageData[],
+  state: SessionParseState,
+): Promise<SessionSummary> {
+  const cached = getSessionSummary(dir.sessionId);
+  if (cached?.updatedAt === dir.mtimeMs) return cached;
+
+  const workspace = await readWorkspaceYaml(path.join(dir.dirPath, 'workspace.yaml'));
+  return summarizeSession(dir.sessionId, { updatedAt: dir.mtimeMs, usageRows: rows, parseState: state }, workspace);
+}
+
+function exportSessionMessages(
+  rows: ReadonlyArray<SessionUsageData>,
+  summary: SessionSummary | undefined,
+  options: ExportOptions,
+): string {
+  const sessionId = rows[0]!.sessionId;
+  if (options.format === 'otlp-json') {
+    return toOtlpTraces(sessionId, rows, summary) + '\n' + toOtlpMetrics(sessionId, rows) + '\n';
+  }
+
+  let chunk = '';
+  for (const row of rows) {
+    chunk += options.format === 'csv' ? toMessageCsvLine(row) : JSON.stringify(toMessageRecord(row)) + '\n';
+  }
+  return chunk;
+}
+
+function exportSessionSummary(summary: SessionSummary, options: ExportOptions): string | null {
+  if (options.format === 'csv') return toSessionCsvLine(summary);
+  if (options.format === 'jsonl') return JSON.stringify(toSessionRecord(summary)) + '\n';
+  if (summary.startedAt === null || summary.endedAt === null) return null;
+
+  const span = toSessionSpan(summary.sessionId, { ...summary, startedAt: summary.startedAt, endedAt: summary.endedAt }, summary);
+  return wrapSpans(summary.sessionId, [span]) + '\n';
+}
+
+/**
+ * Export usage as a stream of text chunks — one chunk per session (or per
+ * session summary), plus a header for CSV. Sessions are read one at a time,
+ * most recently updated first, and each is dropped once its chunk is
+ * yielded, so neither the rows nor the output of every session are held at
+ * once. Rows are built the way `parseSessions` builds them; sessions already
+ * parsed and unchanged are taken from the cache, others are not added to it.
+ * `stats` is filled in as chunks are produced.
+ */
+export async function* exportUsage(
+  options: ExportOptions,
+  ctx: AgentFetchContext,
+  stats: ExportStats = { sessions: 0, messages: 0 },
+): AsyncGenerator<string> {
+  const scope = options.scope ?? 'messages';
+  if (options.format === 'csv') {
+    yield toCsvLine(scope === 'sessions' ? SESSION_COLUMNS : MESSAGE_COLUMNS);
+  }
+
+  const sessionDirs = await listExportSessionDirs(options);
+  const inputs: ParseInputs = {
+    defaultModel: await getDefaultModel(),
+    compactionIndex: await buildCompactionIndex(),
+    modelIndex: await buildModelIndex(),
+  };
+
+  for (const dir of sessionDirs) {
+    const { rows, state } = await loadExportSession(dir, inputs);
+
+    if (scope === 'sessions') {
+      if (!state) continue;
+      const summary = await getExportSessionSummary(dir, rows, state);
+      if (!includesSession(summary, options)) continue;
+
+      stats.sessions++;
+      stats.messages += summary.messageCount;
+      const chunk = exportSessionSummary(summary, options);
+      if (chunk) yield chunk;
+      continue;
+    }
+
+    const sessionRows = rows.filter((row) => includesRow(row, options)).sort((a, b) => a.timestamp - b.timestamp);
+    if (sessionRows.length === 0) continue;
+
+    const summary = options.format === 'otlp-json' && state ? await getExportSessionSummary(dir, rows, state) : undefined;
+    stats.sessions++;
+    stats.messages += sessionRows.length;
+    yield exportSessionMessages(sessionRows, summary, options);
+  }
+
+  ctx.logger.debug('Copilot CLI: exported usage', { ...stats, sessionDirs: sessionDirs.length });
+}
+
+/**
+ * Write an export to a stream, waiting for it to drain whenever its buffer
+ * is full. Resolves with the number of sessions and messages written.
+ */
+export async function writeUsageExport(options: ExportOptions, ctx: AgentFetchContext, output: Writable): Promise<ExportStats> {
+  const stats: ExportStats = { sessions: 0, messages: 0 };
+
+  for await (const chunk of exportUsage(options, ctx, stats)) {
+    if (!output.write(chunk)) {
+      await new Promise<void>((resolve, reject) => {
+        const onDrain = (): void => {
+          output.off('error', onError);
+          resolve();
+        };
+        const onError = (error: Error): void => {
+          output.off('drain', onDrain);
+          reject(error);
+        };
+        output.once('drain', onDrain);
+        output.once('error', onError);
+      });
+    }
+  }
+
+  return stats;
+}
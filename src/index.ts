@@ -6,10 +6,75 @@ import {
   type SessionParseOptions,
   type SessionUsageData,
 } from '@tokentop/plugin-sdk';
-import { CACHE_TTL_MS, SESSION_AGGREGATE_CACHE_MAX, sessionAggregateCache, sessionCache, sessionMetadataIndex } from './cache.ts';
-import { parseSessionsFromDirs } from './parser.ts';
-import { COPILOT_CLI_HOME, COPILOT_CLI_SESSION_STATE_PATH } from './paths.ts';
-import { RECONCILIATION_INTERVAL_MS, startActivityWatch, stopActivityWatch } from './watcher.ts';
+import {
+  CACHE_TTL_MS,
+  invalidateSessionAggregateRows,
+  PARSER_VERSION,
+  SESSION_AGGREGATE_CACHE_MAX,
+  sessionAggregateCache,
+  sessionCache,
+  sessionMetadataIndex,
+  sessionSummaryCache,
+} from './cache.ts';
+import { getSessionContextUsage, listContextUsage } from './context.ts';
+import { getSessionEventTree } from './events.ts';
+import { exportUsage, writeUsageExport } from './export.ts';
+import { configureInteractions, getSessionInteractions, INCLUDE_PROMPT_TEXT_CONFIG_KEY } from './interactions.ts';
+import { getSessionLifecycle } from './lifecycle.ts';
+import { invalidateCompactionIndex, parseSessionsFromDirs } from './parser.ts';
+import {
+  configurePersistentCache,
+  flushPersistentCache,
+  loadPersistentCache,
+  PERSISTENT_CACHE_CONFIG_KEY,
+  purgePersistentCache,
+} from './persist.ts';
+import {
+  COPILOT_CLI_HOME,
+  COPILOT_CLI_HOME_ENV,
+  COPILOT_CLI_SESSION_STATE_PATH,
+  COPILOT_HOMES_CONFIG_KEY,
+  configureCopilotHomes,
+  getCopilotCliRoots,
+  getPermissionPaths,
+} from './paths.ts';
+import {
+  configurePricing,
+  DEFAULT_PREMIUM_REQUEST_PRICE_USD,
+  getSessionCostEstimate,
+  PREMIUM_REQUEST_PRICE_CONFIG_KEY,
+  PRICING_OVERRIDES_CONFIG_KEY,
+  summarizeCost,
+} from './pricing.ts';
+import { getSchemaDiagnostics, getSessionSchemaDiagnostics } from './schema.ts';
+import { getSessionSummary, listSessionSummaries } from './summary.ts';
+import { getTokenizerAccuracy, registerTokenizer } from './tokenizer.ts';
+import { getSessionToolUsage } from './tools.ts';
+import {
+  onSessionLifecycleChange,
+  RECONCILIATION_INTERVAL_MS,
+  refreshWatchedRoots,
+  startActivityWatch,
+  stopActivityWatch,
+} from './watcher.ts';
+
+/**
+ * Apply plugin config to every module that reads it. Called from each entry
+ * point because core may hand a fresh config to any of them.
+ */
+function applyPluginConfig(config: Record<string, unknown>): void {
+  if (configureCopilotHomes(config)) {
+    // Other roots mean other process logs and session dirs
+    invalidateCompactionIndex();
+    refreshWatchedRoots();
+    sessionCache.lastCheck = 0;
+  }
+  configurePersistentCache(config);
+  configureInteractions(config);
+  if (configurePricing(config)) {
+    invalidateSessionAggregateRows();
+  }
+}
 
 const copilotCliAgentPlugin = createAgentPlugin({
   id: 'copilot-cli',
@@ -25,15 +90,79 @@ const copilotCliAgentPlugin = createAgentPlugin({
   permissions: {
     filesystem: {
       read: true,
-      paths: ['~/.copilot'],
+      write: true,
+      // Resolved on each read: configured homes, COPILOT_CLI_HOME, XDG and default roots, and the cache root
+      get paths(): string[] {
+        return ['~/.copilot', '~/.cache/tokentop', ...getPermissionPaths()];
+      },
+    },
+    env: {
+      read: true,
+      vars: [COPILOT_CLI_HOME_ENV, 'XDG_CONFIG_HOME', 'XDG_CACHE_HOME'],
     },
   },
 
+  configSchema: {
+    [COPILOT_HOMES_CONFIG_KEY]: {
+      type: 'string',
+      label: 'Additional Copilot home directories',
+      description: 'Extra Copilot CLI home directories to scan (separated by the path delimiter or commas). ~/.copilot is always included.',
+      default: '',
+    },
+    [PERSISTENT_CACHE_CONFIG_KEY]: {
+      type: 'boolean',
+      label: 'Persistent session cache',
+      description: 'Keep parsed sessions on disk so restarts do not re-parse every session and process log.',
+      default: true,
+    },
+    [PREMIUM_REQUEST_PRICE_CONFIG_KEY]: {
+      type: 'number',
+      label: 'Premium request price (USD)',
+      description: 'Price of one Copilot premium request, used for cost estimates.',
+      default: DEFAULT_PREMIUM_REQUEST_PRICE_USD,
+      min: 0,
+    },
+    [PRICING_OVERRIDES_CONFIG_KEY]: {
+      type: 'string',
+      label: 'Model pricing overrides',
+      description: 'JSON object keyed by model ID or prefix, e.g. {"claude-opus": {"multiplier": 10, "outputPerMillion": 75}}.',
+      default: '',
+    },
+    [INCLUDE_PROMPT_TEXT_CONFIG_KEY]: {
+      type: 'boolean',
+      label: 'Include prompt text',
+      description: 'Return the text of user prompts with interaction summaries. Prompts are read on request and never cached.',
+      default: false,
+    },
+  },
+
+  defaultConfig: {
+    [COPILOT_HOMES_CONFIG_KEY]: '',
+    [PERSISTENT_CACHE_CONFIG_KEY]: true,
+    [PREMIUM_REQUEST_PRICE_CONFIG_KEY]: DEFAULT_PREMIUM_REQUEST_PRICE_USD,
+    [PRICING_OVERRIDES_CONFIG_KEY]: '',
+    [INCLUDE_PROMPT_TEXT_CONFIG_KEY]: false,
+  },
+
+  async initialize(ctx): Promise<void> {
+    applyPluginConfig(ctx.config);
+    await loadPersistentCache();
+  },
+
+  async stop(): Promise<void> {
+    await flushPersistentCache();
+  },
+
   agent: {
     name: 'Copilot CLI',
     command: 'gh copilot',
-    configPath: COPILOT_CLI_HOME,
-    sessionPath: COPILOT_CLI_SESSION_STATE_PATH,
+    // The highest-priority root, resolved on each read so config changes show up
+    get configPath(): string {
+      return getCopilotCliRoots()[0]?.home ?? COPILOT_CLI_HOME;
+    },
+    get sessionPath(): string {
+      return getCopilotCliRoots()[0]?.sessionStatePath ?? COPILOT_CLI_SESSION_STATE_PATH;
+    },
   },
 
   capabilities: {
@@ -43,7 +172,13 @@ const copilotCliAgentPlugin = createAgentPlugin({
     multiProvider: false,
   },
 
-  startActivityWatch(_ctx: PluginContext, callback): void {
+  onConfigChange(config): void {
+    applyPluginConfig(config);
+    sessionCache.lastCheck = 0;
+  },
+
+  startActivityWatch(ctx: PluginContext, callback): void {
+    applyPluginConfig(ctx.config);
     startActivityWatch(callback);
   },
 
@@ -51,11 +186,13 @@ const copilotCliAgentPlugin = createAgentPlugin({
     stopActivityWatch();
   },
 
-  async isInstalled(_ctx: PluginContext): Promise<boolean> {
-    return fs.existsSync(COPILOT_CLI_SESSION_STATE_PATH) || fs.existsSync(COPILOT_CLI_HOME);
+  async isInstalled(ctx: PluginContext): Promise<boolean> {
+    applyPluginConfig(ctx.config);
+    return getCopilotCliRoots().some((root) => fs.existsSync(root.sessionStatePath) || fs.existsSync(root.home));
   },
 
   async parseSessions(options: SessionParseOptions, ctx: AgentFetchContext): Promise<SessionUsageData[]> {
+    applyPluginConfig(ctx.config);
     return parseSessionsFromDirs(options, ctx);
   },
 });
@@ -64,11 +201,32 @@ export {
   CACHE_TTL_MS,
   COPILOT_CLI_HOME,
   COPILOT_CLI_SESSION_STATE_PATH,
+  exportUsage,
+  getCopilotCliRoots,
+  getSchemaDiagnostics,
+  getSessionContextUsage,
+  getSessionCostEstimate,
+  getSessionEventTree,
+  getSessionInteractions,
+  getSessionLifecycle,
+  getSessionSchemaDiagnostics,
+  getSessionSummary,
+  getSessionToolUsage,
+  getTokenizerAccuracy,
+  listContextUsage,
+  listSessionSummaries,
+  onSessionLifecycleChange,
+  PARSER_VERSION,
+  purgePersistentCache,
   RECONCILIATION_INTERVAL_MS,
+  registerTokenizer,
   SESSION_AGGREGATE_CACHE_MAX,
   sessionAggregateCache,
   sessionCache,
   sessionMetadataIndex,
+  sessionSummaryCache,
+  summarizeCost,
+  writeUsageExport,
 };
 
 export default copilotCliAgentPlugin;
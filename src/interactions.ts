@@ -0,0 +1,137 @@
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import { getSessionEventsPath, sessionAggregateCache } from './cache.ts';
+import { isUserMessage } from './parser.ts';
+import type { InteractionSummary, RowPricing, SessionParseState } from './types.ts';
+import { getReasoningTokens, streamJsonlFile, toTimestamp } from './utils.ts';
+
+/** Plugin config key that opts in to returning prompt text with interactions. */
+export const INCLUDE_PROMPT_TEXT_CONFIG_KEY = 'includePromptText';
+
+let includePromptText = false;
+
+/**
+ * Apply the `includePromptText` plugin config value. Off by default — prompt
+ * text is read from events.jsonl on request and never cached.
+ */
+export function configureInteractions(config: Record<string, unknown> | undefined): void {
+  includePromptText = config?.[INCLUDE_PROMPT_TEXT_CONFIG_KEY] === true;
+}
+
+function getOrCreateInteraction(
+  interactions: Map<string, InteractionSummary>,
+  interactionId: string,
+  timestamp: number,
+): InteractionSummary {
+  let interaction = interactions.get(interactionId);
+  if (!interaction) {
+    interaction = {
+      interactionId,
+      startedAt: timestamp,
+      promptTokens: 0,
+      transformedPromptTokens: 0,
+      attachmentCount: 0,
+      assistantMessageIds: [],
+      turnIds: [],
+      toolCalls: 0,
+      tokens: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0, total: 0 },
+      premiumRequests: 0,
+      cost: 0,
+    };
+    interactions.set(interactionId, interaction);
+  } else if (timestamp < interaction.startedAt) {
+    interaction.startedAt = timestamp;
+  }
+  return interaction;
+}
+
+/**
+ * Group a session's user prompts, assistant messages, turns and row usage by
+ * interactionId. Token totals and cost come from the rows, so they reflect
+ * compaction-based estimates and pricing. Ordered by start time.
+ */
+export function summarizeInteractions(state: SessionParseState, rows: ReadonlyArray<SessionUsageData>): InteractionSummary[] {
+  const interactions = new Map<string, InteractionSummary>();
+
+  for (const userMessage of state.userMessages.values()) {
+    const interaction = getOrCreateInteraction(interactions, userMessage.interactionId, toTimestamp(userMessage.timestamp, 0));
+    interaction.userMessageId = userMessage.messageId;
+    interaction.promptTokens = userMessage.contentTokens;
+    interaction.transformedPromptTokens = userMessage.transformedContentTokens;
+    interaction.attachmentCount = userMessage.attachmentCount;
+  }
+
+  for (const message of state.messages.values()) {
+    if (!message.interactionId) continue;
+
+    const interaction = getOrCreateInteraction(interactions, message.interactionId, toTimestamp(message.timestamp, 0));
+    interaction.assistantMessageIds.push(message.messageId);
+    interaction.toolCalls += message.toolCallIds?.length ?? 0;
+  }
+
+  for (const turn of state.turnTracker.turns.values()) {
+    const interaction = getOrCreateInteraction(interactions, turn.interactionId, turn.startedAt);
+    interaction.turnIds.push(turn.turnId);
+  }
+
+  for (const row of rows) {
+    const interactionId = row.metadata?.interactionId;
+    if (typeof interactionId !== 'string') continue;
+
+    const interaction = interactions.get(interactionId);
+    if (!interaction) continue;
+
+    const { tokens } = interaction;
+    tokens.input += row.tokens.input;
+    tokens.output += row.tokens.output;
+    tokens.cacheRead += row.tokens.cacheRead ?? 0;
+    tokens.cacheWrite += row.tokens.cacheWrite ?? 0;
+    tokens.reasoning += getReasoningTokens(row);
+    tokens.total = tokens.input + tokens.output + tokens.cacheRead + tokens.cacheWrite;
+
+    interaction.premiumRequests += (row.metadata?.pricing as RowPricing | undefined)?.premiumRequests ?? 0;
+    interaction.cost += row.cost ?? 0;
+  }
+
+  return Array.from(interactions.values()).sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * Read the first prompt of each interaction from events.jsonl.
+ */
+async function readPromptTexts(eventsPath: string): Promise<Map<string, string>> {
+  const prompts = new Map<string, string>();
+
+  await streamJsonlFile<unknown>(eventsPath, 0, (event) => {
+    if (isUserMessage(event) && !prompts.has(event.data.interactionId)) {
+      prompts.set(event.data.interactionId, event.data.content);
+    }
+  });
+
+  return prompts;
+}
+
+/**
+ * Interactions for a whole session, from the most recent parse. Includes the
+ * prompt text when `includePromptText` is enabled. Sort by `tokens.total` or
+ * `cost` to find the prompts that cost the most. Returns null when the session
+ * has not been parsed yet.
+ */
+export async function getSessionInteractions(sessionId: string): Promise<InteractionSummary[] | null> {
+  const entry = sessionAggregateCache.get(sessionId);
+  if (!entry?.parseState) return null;
+
+  const interactions = summarizeInteractions(entry.parseState, entry.usageRows);
+
+  const eventsPath = includePromptText ? getSessionEventsPath(sessionId) : null;
+  if (eventsPath) {
+    const prompts = await readPromptTexts(eventsPath);
+    for (const interaction of interactions) {
+      const prompt = prompts.get(interaction.interactionId);
+      if (prompt !== undefined) {
+        interaction.prompt = prompt;
+      }
+    }
+  }
+
+  return interactions;
+}
@@ -0,0 +1,124 @@
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import { processLogCache, sessionAggregateCache } from './cache.ts';
+import type {
+  ProcessLogIndexEntry,
+  SessionLifecycle,
+  SessionLifecycleState,
+  SessionParseState,
+  SessionProcessSummary,
+} from './types.ts';
+
+/** Activity within this window keeps a session `active`. */
+export const SESSION_ACTIVE_WINDOW_MS = 2 * 60 * 1000;
+
+/**
+ * Inactivity after which a session is `ended` — or `abandoned` when a turn
+ * was left open. A resume stays `resumed` for this long.
+ */
+export const SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Group the process log index by the session each log names.
+ */
+export function summarizeSessionProcesses(
+  index: ReadonlyMap<string, ProcessLogIndexEntry> = processLogCache,
+): Map<string, SessionProcessSummary> {
+  const summaries = new Map<string, SessionProcessSummary>();
+
+  for (const { mtimeMs, data } of index.values()) {
+    if (!data.sessionId) continue;
+
+    let summary = summaries.get(data.sessionId);
+    if (!summary) {
+      summary = { processes: 0, lastLoggedAt: 0, latestStartedAt: null };
+      summaries.set(data.sessionId, summary);
+    }
+    summary.processes++;
+    summary.lastLoggedAt = Math.max(summary.lastLoggedAt, mtimeMs);
+    if (data.startedAt !== null && (summary.latestStartedAt === null || data.startedAt > summary.latestStartedAt)) {
+      summary.latestStartedAt = data.startedAt;
+    }
+  }
+
+  return summaries;
+}
+
+/**
+ * Work out a session's state at `now` from its parse state, the events.jsonl
+ * mtime and its process logs:
+ *
+ * - a session.shutdown as the last event means `ended`;
+ * - an open turn is `active` until the idle timeout, then `abandoned`;
+ * - otherwise activity within the active window is `active`, within the
+ *   idle timeout `idle`, and anything older `ended`.
+ *
+ * An `active` session resumed within the idle timeout — by a later
+ * session.start, or by a new CLI process when several logged the session —
+ * is reported as `resumed`.
+ */
+export function resolveSessionLifecycle(
+  state: SessionParseState,
+  updatedAt: number,
+  processes: SessionProcessSummary | undefined,
+  now: number = Date.now(),
+): SessionLifecycle {
+  const lastActivityAt = Math.max(updatedAt, state.lastEvent?.timestamp ?? 0, processes?.lastLoggedAt ?? 0);
+  const openTurn = state.turnTracker.openTurnKey !== null;
+  const processLive = processes !== undefined && now - processes.lastLoggedAt < SESSION_IDLE_TIMEOUT_MS;
+  const inactiveFor = now - lastActivityAt;
+
+  let resumedAt = state.resumedAt;
+  if (processes && processes.processes > 1 && processes.latestStartedAt !== null) {
+    resumedAt = Math.max(resumedAt ?? 0, processes.latestStartedAt);
+  }
+
+  let lifecycleState: SessionLifecycleState;
+  if (state.lastEvent?.type === 'session.shutdown') {
+    lifecycleState = 'ended';
+  } else if (openTurn) {
+    lifecycleState = inactiveFor < SESSION_IDLE_TIMEOUT_MS ? 'active' : 'abandoned';
+  } else if (inactiveFor < SESSION_ACTIVE_WINDOW_MS) {
+    lifecycleState = 'active';
+  } else {
+    lifecycleState = inactiveFor < SESSION_IDLE_TIMEOUT_MS ? 'idle' : 'ended';
+  }
+
+  if (lifecycleState === 'active' && resumedAt !== null && now - resumedAt < SESSION_IDLE_TIMEOUT_MS) {
+    lifecycleState = 'resumed';
+  }
+
+  const lifecycle: SessionLifecycle = {
+    state: lifecycleState,
+    lastActivityAt,
+    lastEventType: state.lastEvent?.type ?? null,
+    openTurn,
+    processLive,
+  };
+  if (resumedAt !== null) {
+    lifecycle.resumedAt = resumedAt;
+  }
+  return lifecycle;
+}
+
+/**
+ * Record the state on each row as `metadata.sessionState`. Rows already
+ * carrying it are left alone, so cached rows are only copied on a change.
+ */
+export function applySessionLifecycle(rows: SessionUsageData[], lifecycle: SessionLifecycle): void {
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i]!;
+    if (row.metadata?.sessionState === lifecycle.state) continue;
+    rows[i] = { ...row, metadata: { ...row.metadata, sessionState: lifecycle.state } };
+  }
+}
+
+/**
+ * A session's current lifecycle, from its most recent parse and the process
+ * log index. Returns null when the session has not been parsed yet.
+ */
+export function getSessionLifecycle(sessionId: string, now: number = Date.now()): SessionLifecycle | null {
+  const entry = sessionAggregateCache.get(sessionId);
+  if (!entry?.parseState) return null;
+
+  return resolveSessionLifecycle(entry.parseState, entry.updatedAt, summarizeSessionProcesses().get(sessionId), now);
+}
@@ -0,0 +1,147 @@
+import { processLogCache } from './cache.ts';
+import { listProcessLogs, type ProcessLogFile } from './paths.ts';
+import { markPersistentCacheDirty } from './persist.ts';
+import type { ProcessLogIndexEntry } from './types.ts';
+import { applyProcessLogLine, createProcessLogData, streamTextLines } from './utils.ts';
+
+/** How long a listing of the logs directories is reused before it is refreshed. */
+export const PROCESS_LOG_INDEX_TTL_MS = 60_000;
+
+interface ProcessLogIndexState {
+  /** When the logs directories were last listed; 0 forces the next refresh to list them. */
+  listedAt: number;
+  /** Refresh in progress, shared by concurrent callers. */
+  refreshing: Promise<void> | null;
+  /** Bumped whenever an entry is added, extended or removed. */
+  generation: number;
+  /** Per-file update queue, so the tailer and a refresh never read the same bytes twice. */
+  updates: Map<string, Promise<number | null>>;
+}
+
+const processLogIndex: ProcessLogIndexState = {
+  listedAt: 0,
+  refreshing: null,
+  generation: 0,
+  updates: new Map(),
+};
+
+/**
+ * Bring one file's index entry up to date. An unchanged file is not read; a
+ * grown file is read from the last parsed offset; a new, replaced (inode
+ * changed) or truncated file is read from the start. A partial trailing line
+ * is left for the next update. Returns the number of CompactionProcessor
+ * entries added, or null when the file cannot be read — its entry is then
+ * dropped, and a later listing re-reads it from the start if it is back.
+ */
+async function updateProcessLogEntry(logFile: ProcessLogFile): Promise<number | null> {
+  const cached = processLogCache.get(logFile.path);
+  if (cached && cached.ino === logFile.ino && cached.mtimeMs === logFile.mtimeMs && cached.size === logFile.size) {
+    return 0;
+  }
+
+  const canResume = cached !== undefined && cached.ino === logFile.ino && logFile.size >= cached.offset;
+  const entry: ProcessLogIndexEntry = canResume
+    ? cached
+    : { ino: logFile.ino, mtimeMs: 0, size: 0, offset: 0, data: createProcessLogData() };
+
+  const previousEntries = entry.data.compactionTimeline.length;
+  const offset = await streamTextLines(logFile.path, entry.offset, (line) => {
+    applyProcessLogLine(entry.data, line);
+  });
+  if (offset === null) {
+    removeProcessLog(logFile.path);
+    return null;
+  }
+
+  entry.offset = offset;
+  entry.mtimeMs = logFile.mtimeMs;
+  entry.size = logFile.size;
+  processLogCache.set(logFile.path, entry);
+  processLogIndex.generation++;
+  markPersistentCacheDirty();
+
+  return entry.data.compactionTimeline.length - previousEntries;
+}
+
+/**
+ * Queue an update of one process log's index entry behind any update already
+ * running for the same file. A failed update drops the entry and resolves
+ * null, so the queue and the index refresh waiting on it carry on.
+ */
+export function updateProcessLog(logFile: ProcessLogFile): Promise<number | null> {
+  const previous = processLogIndex.updates.get(logFile.path) ?? Promise.resolve(0);
+  const next = previous.then(() => updateProcessLogEntry(logFile)).catch(() => {
+    removeProcessLog(logFile.path);
+    return null;
+  });
+  processLogIndex.updates.set(logFile.path, next);
+  void next.then(() => {
+    if (processLogIndex.updates.get(logFile.path) === next) {
+      processLogIndex.updates.delete(logFile.path);
+    }
+  });
+  return next;
+}
+
+/** Drop a process log that no longer exists from the index. */
+export function removeProcessLog(logPath: string): void {
+  if (processLogCache.delete(logPath)) {
+    processLogIndex.generation++;
+    markPersistentCacheDirty();
+  }
+}
+
+async function listAndUpdateProcessLogs(): Promise<void> {
+  const logFiles = await listProcessLogs();
+  const seenLogPaths = new Set<string>();
+
+  // One file at a time — a first run over months of logs should not open them all at once
+  for (const logFile of logFiles) {
+    seenLogPaths.add(logFile.path);
+    await updateProcessLog(logFile);
+  }
+
+  for (const cachedPath of Array.from(processLogCache.keys())) {
+    if (!seenLogPaths.has(cachedPath)) {
+      removeProcessLog(cachedPath);
+    }
+  }
+
+  processLogIndex.listedAt = Date.now();
+}
+
+/**
+ * The shared process log index, keyed by file path. The logs directories are
+ * listed at most once per `PROCESS_LOG_INDEX_TTL_MS`; concurrent callers
+ * share one refresh. Between refreshes the live tailer keeps entries current.
+ */
+export async function getProcessLogIndex(): Promise<ReadonlyMap<string, ProcessLogIndexEntry>> {
+  if (Date.now() - processLogIndex.listedAt >= PROCESS_LOG_INDEX_TTL_MS) {
+    processLogIndex.refreshing ??= listAndUpdateProcessLogs().finally(() => {
+      processLogIndex.refreshing = null;
+    });
+    await processLogIndex.refreshing;
+  }
+  return processLogCache;
+}
+
+/** Counter that changes whenever the index does — for caches derived from it. */
+export function getProcessLogIndexGeneration(): number {
+  return processLogIndex.generation;
+}
+
+/** Make the next `getProcessLogIndex` call list the logs directories again. */
+export function invalidateProcessLogIndex(): void {
+  processLogIndex.listedAt = 0;
+}
+
+/**
+ * Empty the index, e.g. when the cache is purged. The next call lists the
+ * logs directories again, and caches derived from the old entries are
+ * rebuilt since the generation moves on.
+ */
+export function resetProcessLogIndex(): void {
+  processLogCache.clear();
+  processLogIndex.generation++;
+  invalidateProcessLogIndex();
+}
@@ -1,12 +1,65 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import type { AgentFetchContext, SessionParseOptions, SessionUsageData } from '@tokentop/plugin-sdk';
-import { CACHE_TTL_MS, evictSessionAggregateCache, sessionAggregateCache, sessionCache, sessionMetadataIndex } from './cache.ts';
-import { COPILOT_CLI_LOGS_PATH, COPILOT_CLI_SESSION_STATE_PATH, getSessionDirs } from './paths.ts';
-import type { CompactionEntry, CopilotCliAssistantMessageEvent, CopilotCliEventBase, CopilotCliSessionModelChangeEvent, CopilotCliSessionStartEvent } from './types.ts';
-import { estimateTokens, extractModelFromProcessLog, parseProcessLogData, readJsonlFile, readWorkspaceYaml, toTimestamp } from './utils.ts';
+import {
+  CACHE_TTL_MS,
+  evictSessionAggregateCache,
+  sessionAggregateCache,
+  sessionCache,
+  sessionMetadataIndex,
+  sessionSummaryCache,
+} from './cache.ts';
+import { loadPersistentCache, markPersistentCacheDirty } from './persist.ts';
+import { getExistingSessionStatePaths, getSessionDirs } from './paths.ts';
+import { getProcessLogIndex, getProcessLogIndexGeneration, invalidateProcessLogIndex } from './logs.ts';
+import type {
+  AssistantMessageRecord,
+  CompactionEntry,
+  CopilotCliAssistantMessageEvent,
+  CopilotCliAssistantUsageEvent,
+  CopilotCliEventBase,
+  CopilotCliSessionModelChangeEvent,
+  CopilotCliSessionStartData,
+  CopilotCliSessionStartEvent,
+  CopilotCliToolExecutionCompleteEvent,
+  CopilotCliToolExecutionStartEvent,
+  CopilotCliToolRequest,
+  CopilotCliTurnEndEvent,
+  CopilotCliTurnStartEvent,
+  CopilotCliUserMessageEvent,
+  MessageRow,
+  ModelSource,
+  ModelTimelineEntry,
+  ProcessLogData,
+  ProcessLogIndexEntry,
+  SessionAggregateCacheEntry,
+  SessionParseState,
+  TokenSource,
+  ToolCallRecord,
+  TurnMetrics,
+} from './types.ts';
+import { applyPricing } from './pricing.ts';
+import { getOrCreateToolCall, summarizeToolCalls } from './tools.ts';
+import { classifyAssistantEvents, recordEventNode } from './events.ts';
+import { getContextUtilization, isCompactionDrop } from './context.ts';
+import { applySessionLifecycle, resolveSessionLifecycle, summarizeSessionProcesses } from './lifecycle.ts';
+import { createSessionSchemaState, reportSchemaDrift, validateEvent } from './schema.ts';
+import { refreshSessionSummary } from './summary.ts';
+import { countTokensByFamily, getTokenCount } from './tokenizer.ts';
+import { normalizeUsage } from './usage.ts';
+import { createTurnTracker, getTurnMetrics, recordTurnEnd, recordTurnMessage, recordTurnStart } from './turns.ts';
+import {
+  estimateOpaqueTokens,
+  estimateTokens,
+  getReasoningTokens,
+  readWorkspaceYaml,
+  resolveGitContext,
+  streamJsonlFile,
+  toTimestamp,
+} from './utils.ts';
 import {
   consumeForceFullReconciliation,
+  requestFullReconciliation,
   sessionWatcher,
   startSessionWatcher,
   watchSessionDir,
@@ -18,112 +71,143 @@ interface ParsedSessionDir {
   mtimeMs: number;
 }
 
-/** Cached model name from the most recent process log. */
-let cachedModel: string | null = null;
-let modelCacheTime = 0;
-const MODEL_CACHE_TTL_MS = 60_000;
-
-/** Cached compaction index: sessionId → CompactionEntry[]. */
+/** Cached compaction index: sessionId → CompactionEntry[], valid for one process log index generation. */
 let compactionIndexCache: Map<string, CompactionEntry[]> | null = null;
-let compactionIndexTime = 0;
+let compactionIndexGeneration = -1;
+
+/** Cached model index: sessionId → ModelTimelineEntry[], valid for one process log index generation. */
+let modelIndexCache: Map<string, ModelTimelineEntry[]> | null = null;
+let modelIndexGeneration = -1;
 
 /**
- * Get the default model from process logs, with 60s caching.
+ * Get the default model: the last `Using default model:` line of the most
+ * recently modified process log that has one, from the shared process log index.
  */
-async function getDefaultModel(): Promise<string> {
-  const now = Date.now();
-  if (cachedModel && now - modelCacheTime < MODEL_CACHE_TTL_MS) {
-    return cachedModel;
-  }
+export async function getDefaultModel(): Promise<string> {
+  const logIndex = await getProcessLogIndex();
 
-  try {
-    const entries = await fs.readdir(COPILOT_CLI_LOGS_PATH, { withFileTypes: true });
-    const logFiles: Array<{ name: string; mtimeMs: number }> = [];
-
-    for (const entry of entries) {
-      if (!entry.isFile() || !entry.name.startsWith('process-') || !entry.name.endsWith('.log')) continue;
-      try {
-        const stat = await fs.stat(path.join(COPILOT_CLI_LOGS_PATH, entry.name));
-        logFiles.push({ name: entry.name, mtimeMs: stat.mtimeMs });
-      } catch {
-        // Skip unreadable files
-      }
+  let latest: ProcessLogIndexEntry | null = null;
+  for (const entry of logIndex.values()) {
+    if (entry.data.model && (!latest || entry.mtimeMs > latest.mtimeMs)) {
+      latest = entry;
     }
+  }
 
-    if (logFiles.length > 0) {
-      logFiles.sort((a, b) => b.mtimeMs - a.mtimeMs);
-      const latestLog = path.join(COPILOT_CLI_LOGS_PATH, logFiles[0]!.name);
-      const model = await extractModelFromProcessLog(latestLog);
-      if (model) {
-        cachedModel = model;
-        modelCacheTime = now;
-        return model;
-      }
+  return latest?.data.model ?? 'unknown';
+}
+
+/**
+ * Merge the timelines of every process log that belongs to one session.
+ * Entries are tagged with their process start, ordered by timestamp, and
+ * exact duplicates (the same log mirrored under two roots) are dropped.
+ */
+function mergeCompactionTimelines(logs: ReadonlyArray<ProcessLogData>): CompactionEntry[] {
+  const seen = new Set<string>();
+  const merged: CompactionEntry[] = [];
+
+  for (const logData of logs) {
+    const processStartedAt = logData.startedAt ?? logData.compactionTimeline[0]!.timestamp;
+    for (const entry of logData.compactionTimeline) {
+      const key = `${entry.timestamp}:${entry.tokens}:${entry.contextWindow}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push({ ...entry, processStartedAt });
     }
-  } catch {
-    // Fall through to default
   }
 
-  return cachedModel ?? 'unknown';
+  return merged.sort((a, b) => a.timestamp - b.timestamp);
 }
 
 /**
- * Build an index mapping sessionId → CompactionProcessor timeline.
- * Scans all process logs in ~/.copilot/logs/ and caches for 60s.
+ * Build an index mapping sessionId → CompactionProcessor timeline from the
+ * shared process log index, rebuilt only when the log index changed.
+ * A session resumed in several CLI processes gets one merged timeline.
  */
-async function buildCompactionIndex(): Promise<Map<string, CompactionEntry[]>> {
-  const now = Date.now();
-  if (compactionIndexCache && now - compactionIndexTime < MODEL_CACHE_TTL_MS) {
+export async function buildCompactionIndex(): Promise<Map<string, CompactionEntry[]>> {
+  const logIndex = await getProcessLogIndex();
+  const generation = getProcessLogIndexGeneration();
+  if (compactionIndexCache && compactionIndexGeneration === generation) {
     return compactionIndexCache;
   }
 
-  const index = new Map<string, CompactionEntry[]>();
-
-  try {
-    const entries = await fs.readdir(COPILOT_CLI_LOGS_PATH, { withFileTypes: true });
-
-    for (const entry of entries) {
-      if (!entry.isFile() || !entry.name.startsWith('process-') || !entry.name.endsWith('.log')) continue;
-      try {
-        const content = await fs.readFile(path.join(COPILOT_CLI_LOGS_PATH, entry.name), 'utf-8');
-        const logData = parseProcessLogData(content);
-        if (logData.sessionId && logData.compactionTimeline.length > 0) {
-          index.set(logData.sessionId, logData.compactionTimeline);
-        }
-      } catch {
-        // Skip unreadable files
+  const logsBySession = new Map<string, ProcessLogData[]>();
+  for (const { data: logData } of logIndex.values()) {
+    if (logData.sessionId && logData.compactionTimeline.length > 0) {
+      const sessionLogs = logsBySession.get(logData.sessionId);
+      if (sessionLogs) {
+        sessionLogs.push(logData);
+      } else {
+        logsBySession.set(logData.sessionId, [logData]);
       }
     }
-  } catch {
-    // No logs directory
+  }
+
+  const index = new Map<string, CompactionEntry[]>();
+  for (const [sessionId, sessionLogs] of logsBySession) {
+    index.set(sessionId, mergeCompactionTimelines(sessionLogs));
   }
 
   compactionIndexCache = index;
-  compactionIndexTime = now;
+  compactionIndexGeneration = generation;
   return index;
 }
 
 /**
- * Resolve which model was active at a given timestamp.
- * Walks the model change timeline backwards — the most recent change before
- * (or at) the timestamp wins. Falls back to defaultModel if the message
- * predates all model changes.
+ * Build an index mapping sessionId → `Using default model:` timeline, merged
+ * across every process log of the session, from the shared process log index.
+ * This is the session's own fallback model, resolved at message timestamps.
  */
-function resolveModelAtTime(
-  timestamp: number,
-  defaultModel: string,
-  modelChanges: ReadonlyArray<{ timestamp: number; model: string }>,
-): string {
-  if (modelChanges.length === 0) return defaultModel;
+export async function buildModelIndex(): Promise<Map<string, ModelTimelineEntry[]>> {
+  const logIndex = await getProcessLogIndex();
+  const generation = getProcessLogIndexGeneration();
+  if (modelIndexCache && modelIndexGeneration === generation) {
+    return modelIndexCache;
+  }
+
+  const index = new Map<string, ModelTimelineEntry[]>();
+  for (const { data: logData } of logIndex.values()) {
+    if (!logData.sessionId || logData.modelTimeline.length === 0) continue;
+
+    const timeline = index.get(logData.sessionId);
+    if (timeline) {
+      timeline.push(...logData.modelTimeline);
+    } else {
+      index.set(logData.sessionId, [...logData.modelTimeline]);
+    }
+  }
+  for (const timeline of index.values()) {
+    timeline.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  modelIndexCache = index;
+  modelIndexGeneration = generation;
+  return index;
+}
 
+/**
+ * Drop the cached compaction index and make the next build list the logs
+ * directories again, e.g. after the configured Copilot homes changed.
+ */
+export function invalidateCompactionIndex(): void {
+  compactionIndexCache = null;
+  modelIndexCache = null;
+  invalidateProcessLogIndex();
+}
+
+/**
+ * Resolve which model was active at a given timestamp.
+ * Walks the (sorted) timeline backwards — the most recent entry before
+ * (or at) the timestamp wins. Returns null if the timestamp predates it.
+ */
+function resolveModelAtTime(timestamp: number, timeline: ReadonlyArray<ModelTimelineEntry>): string | null {
   // Walk backwards to find the last change at or before this timestamp
-  for (let i = modelChanges.length - 1; i >= 0; i--) {
-    if (modelChanges[i]!.timestamp <= timestamp) {
-      return modelChanges[i]!.model;
+  for (let i = timeline.length - 1; i >= 0; i--) {
+    if (timeline[i]!.timestamp <= timestamp) {
+      return timeline[i]!.model;
     }
   }
 
-  return defaultModel;
+  return null;
 }
 
 /**
@@ -159,6 +243,37 @@ export function isSessionStart(event: unknown): event is CopilotCliSessionStartE
   return true;
 }
 
+/**
+ * Type guard: check if an event is a user.message tied to an interaction.
+ */
+export function isUserMessage(event: unknown): event is CopilotCliUserMessageEvent {
+  if (!event || typeof event !== 'object') return false;
+
+  const candidate = event as Partial<CopilotCliEventBase>;
+  if (candidate.type !== 'user.message') return false;
+
+  const data = candidate.data as Partial<CopilotCliUserMessageEvent['data']> | undefined;
+  if (!data || typeof data !== 'object') return false;
+  if (typeof data.content !== 'string') return false;
+  if (typeof data.interactionId !== 'string' || data.interactionId.length === 0) return false;
+
+  return true;
+}
+
+/**
+ * The string-valued fields of a session.start context, or null when absent.
+ */
+export function getSessionStartContext(event: CopilotCliSessionStartEvent): CopilotCliSessionStartData['context'] | null {
+  const context = event.data.context as Partial<CopilotCliSessionStartData['context']> | undefined;
+  if (!context || typeof context !== 'object') return null;
+
+  const result: CopilotCliSessionStartData['context'] = { cwd: typeof context.cwd === 'string' ? context.cwd : '' };
+  if (typeof context.gitRoot === 'string' && context.gitRoot) result.gitRoot = context.gitRoot;
+  if (typeof context.branch === 'string' && context.branch) result.branch = context.branch;
+  if (typeof context.repository === 'string' && context.repository) result.repository = context.repository;
+  return result;
+}
+
 /**
  * Type guard: check if an event is a session.model_change.
  */
@@ -176,87 +291,436 @@ export function isModelChange(event: unknown): event is CopilotCliSessionModelCh
 }
 
 /**
- * Parse a single session directory's events.jsonl + workspace.yaml into SessionUsageData rows.
+ * Type guard: check if an event is a tool.execution_start.
  */
-export async function parseSessionDirRows(
-  dirPath: string,
-  mtimeMs: number,
-  defaultModel: string,
-  compactionTimeline?: ReadonlyArray<CompactionEntry>,
-): Promise<SessionUsageData[]> {
-  const eventsPath = path.join(dirPath, 'events.jsonl');
-  const workspacePath = path.join(dirPath, 'workspace.yaml');
+export function isToolExecutionStart(event: unknown): event is CopilotCliToolExecutionStartEvent {
+  if (!event || typeof event !== 'object') return false;
 
-  const events = await readJsonlFile<CopilotCliEventBase>(eventsPath);
-  if (events.length === 0) return [];
+  const candidate = event as Partial<CopilotCliEventBase>;
+  if (candidate.type !== 'tool.execution_start') return false;
 
-  const workspace = await readWorkspaceYaml(workspacePath);
-  const sessionId = workspace?.id ?? path.basename(dirPath);
-  const projectPath = workspace?.cwd || undefined;
-  const sessionName = workspace?.summary?.trim() || undefined;
+  const data = candidate.data as Partial<CopilotCliToolExecutionStartEvent['data']> | undefined;
+  if (!data || typeof data !== 'object') return false;
+  if (typeof data.toolCallId !== 'string' || data.toolCallId.length === 0) return false;
 
-  const deduped = new Map<string, SessionUsageData>();
+  return true;
+}
+
+/**
+ * Type guard: check if an event is a tool.execution_complete.
+ */
+export function isToolExecutionComplete(event: unknown): event is CopilotCliToolExecutionCompleteEvent {
+  if (!event || typeof event !== 'object') return false;
+
+  const candidate = event as Partial<CopilotCliEventBase>;
+  if (candidate.type !== 'tool.execution_complete') return false;
+
+  const data = candidate.data as Partial<CopilotCliToolExecutionCompleteEvent['data']> | undefined;
+  if (!data || typeof data !== 'object') return false;
+  if (typeof data.toolCallId !== 'string' || data.toolCallId.length === 0) return false;
+
+  return true;
+}
+
+/**
+ * Type guard: check if an event is an assistant.turn_start.
+ */
+export function isTurnStart(event: unknown): event is CopilotCliTurnStartEvent {
+  if (!event || typeof event !== 'object') return false;
+
+  const candidate = event as Partial<CopilotCliEventBase>;
+  if (candidate.type !== 'assistant.turn_start') return false;
+
+  const data = candidate.data as Partial<CopilotCliTurnStartEvent['data']> | undefined;
+  if (!data || typeof data !== 'object') return false;
+  if (typeof data.turnId !== 'string' || typeof data.interactionId !== 'string') return false;
+
+  return true;
+}
+
+/**
+ * Type guard: check if an event is an assistant.turn_end.
+ */
+export function isTurnEnd(event: unknown): event is CopilotCliTurnEndEvent {
+  if (!event || typeof event !== 'object') return false;
+
+  const candidate = event as Partial<CopilotCliEventBase>;
+  if (candidate.type !== 'assistant.turn_end') return false;
+
+  const data = candidate.data as Partial<CopilotCliTurnEndEvent['data']> | undefined;
+  if (!data || typeof data !== 'object') return false;
+  if (typeof data.turnId !== 'string') return false;
+
+  return true;
+}
+
+function isToolRequest(value: unknown): value is CopilotCliToolRequest {
+  if (!value || typeof value !== 'object') return false;
+
+  const candidate = value as Partial<CopilotCliToolRequest>;
+  return typeof candidate.toolCallId === 'string' && candidate.toolCallId.length > 0
+    && typeof candidate.name === 'string' && candidate.name.length > 0;
+}
+
+/**
+ * The model in effect at the current point of the file — the latest
+ * model_change, else the last model any event named — used to pick a tokenizer.
+ */
+function getCurrentModel(state: SessionParseState): string | undefined {
+  return state.modelChanges[state.modelChanges.length - 1]?.model ?? state.eventDerivedModel ?? undefined;
+}
+
+/**
+ * Type guard: check if an event is an assistant.usage.
+ */
+export function isAssistantUsage(event: unknown): event is CopilotCliAssistantUsageEvent {
+  if (!event || typeof event !== 'object') return false;
+
+  const candidate = event as Partial<CopilotCliEventBase>;
+  if (candidate.type !== 'assistant.usage') return false;
+
+  return !!candidate.data && typeof candidate.data === 'object';
+}
+
+/** How many parent links to follow from an assistant.usage to find its message. */
+const USAGE_PARENT_SEARCH_DEPTH = 16;
+
+/**
+ * The message an assistant.usage belongs to: `data.messageId` when present,
+ * otherwise the nearest assistant.message up its parentId chain (stopping at
+ * the user.message that began the interaction).
+ */
+function findUsageMessageId(state: SessionParseState, event: CopilotCliAssistantUsageEvent): string | null {
+  if (typeof event.data.messageId === 'string' && event.data.messageId.length > 0) {
+    return event.data.messageId;
+  }
+
+  let node = event.parentId ? state.events.get(event.parentId) : undefined;
+  for (let hops = 0; node && hops < USAGE_PARENT_SEARCH_DEPTH; hops++) {
+    if (node.messageId) return node.messageId;
+    if (node.type === 'user.message') return null;
+    node = node.parentId ? state.events.get(node.parentId) : undefined;
+  }
+  return null;
+}
+
+/**
+ * Attach a standalone assistant.usage to its message. It takes precedence
+ * over usage embedded in the message; usage that names a message not seen
+ * yet is held until the message arrives.
+ */
+function applyAssistantUsage(state: SessionParseState, event: CopilotCliAssistantUsageEvent): void {
+  const usage = normalizeUsage(event.data);
+  if (!usage) return;
+
+  const messageId = findUsageMessageId(state, event);
+  if (!messageId) return;
+
+  const message = state.messages.get(messageId);
+  if (message) {
+    message.usage = usage;
+    message.usageSource = 'assistant.usage';
+  } else {
+    state.pendingUsage.set(messageId, usage);
+  }
+}
+
+/**
+ * Create an empty parse state positioned at the start of the file.
+ */
+export function createSessionParseState(fileIno = 0): SessionParseState {
+  return {
+    byteOffset: 0,
+    fileIno,
+    fileSize: 0,
+    messages: new Map(),
+    modelChanges: [],
+    eventDerivedModel: null,
+    toolCalls: new Map(),
+    turnTracker: createTurnTracker(),
+    userMessages: new Map(),
+    sessionContext: null,
+    events: new Map(),
+    schema: createSessionSchemaState(),
+    pendingUsage: new Map(),
+    lastEvent: null,
+    resumedAt: null,
+  };
+}
+
+/**
+ * Fold a single event into the parse state.
+ */
+export function applyEventToParseState(state: SessionParseState, event: CopilotCliEventBase): void {
+  validateEvent(state.schema, event);
+  recordEventNode(state, event);
 
   // Build model timeline from session.model_change events so each message
   // gets the model that was active at its timestamp (like OpenCode's per-message modelId).
-  const modelChanges: Array<{ timestamp: number; model: string }> = [];
-  for (const event of events) {
-    if (isModelChange(event)) {
-      modelChanges.push({
-        timestamp: toTimestamp(event.timestamp, 0),
-        model: event.data.newModel,
-      });
+  if (isModelChange(event)) {
+    state.modelChanges.push({
+      timestamp: toTimestamp(event.timestamp, 0),
+      model: event.data.newModel,
+    });
+  }
+
+  // A resumed session writes another session.start; the latest context wins.
+  if (isSessionStart(event)) {
+    state.sessionContext = getSessionStartContext(event) ?? state.sessionContext;
+    if (state.lastEvent) {
+      state.resumedAt = toTimestamp(event.timestamp, 0);
     }
   }
-  // Sort ascending by time so binary-style lookup works
-  modelChanges.sort((a, b) => a.timestamp - b.timestamp);
 
   // Extract model from ANY event that carries a data.model field (e.g. tool.execution_complete).
   // This is model-name-agnostic — any future model string is picked up automatically.
-  let eventDerivedModel: string | null = null;
-  for (const event of events) {
-    const data = event.data as Record<string, unknown> | undefined;
-    if (data && typeof data === 'object' && typeof data.model === 'string' && data.model.length > 0) {
-      eventDerivedModel = data.model;
+  const data = event.data as Record<string, unknown> | undefined;
+  if (data && typeof data === 'object' && typeof data.model === 'string' && data.model.length > 0) {
+    state.eventDerivedModel = data.model;
+  }
+
+  if (isUserMessage(event) && !state.userMessages.has(event.data.interactionId)) {
+    const { data } = event;
+    const model = getCurrentModel(state);
+    state.userMessages.set(data.interactionId, {
+      messageId: event.id,
+      interactionId: data.interactionId,
+      timestamp: event.timestamp,
+      contentTokens: estimateTokens(data.content, model),
+      transformedContentTokens: typeof data.transformedContent === 'string' ? estimateTokens(data.transformedContent, model) : 0,
+      attachmentCount: Array.isArray(data.attachments) ? data.attachments.length : 0,
+    });
+  }
+
+  if (isAssistantMessage(event)) {
+    // Counted by every tokenizer: the model is only settled when rows are built
+    const record: AssistantMessageRecord = {
+      messageId: event.data.messageId,
+      timestamp: event.timestamp,
+      contentTokens: countTokensByFamily(event.data.content),
+      contentChars: event.data.content.length,
+      eventId: event.id,
+    };
+    if (typeof event.data.reasoningText === 'string' && event.data.reasoningText.length > 0) {
+      record.reasoningTokens = countTokensByFamily(event.data.reasoningText);
+    } else if (typeof event.data.reasoningOpaque === 'string') {
+      const opaqueTokens = estimateOpaqueTokens(event.data.reasoningOpaque);
+      if (opaqueTokens > 0) {
+        record.reasoningTokens = { default: opaqueTokens };
+      }
+    }
+    const usage = normalizeUsage(event.data.usage);
+    if (usage) {
+      record.usage = usage;
+      record.usageSource = 'message.usage';
+    }
+    const pendingUsage = state.pendingUsage.get(record.messageId);
+    if (pendingUsage) {
+      record.usage = pendingUsage;
+      record.usageSource = 'assistant.usage';
+      state.pendingUsage.delete(record.messageId);
     }
+    if (event.data.model) {
+      record.model = event.data.model;
+    }
+    if (typeof event.data.interactionId === 'string' && event.data.interactionId.length > 0) {
+      record.interactionId = event.data.interactionId;
+    }
+
+    const toolRequests = Array.isArray(event.data.toolRequests) ? event.data.toolRequests : [];
+    for (const request of toolRequests) {
+      if (!isToolRequest(request)) continue;
+
+      const toolCall = getOrCreateToolCall(state.toolCalls, request.toolCallId);
+      toolCall.toolName = request.name;
+      toolCall.messageId = record.messageId;
+      toolCall.requestedAt = toTimestamp(event.timestamp, 0);
+      (record.toolCallIds ??= []).push(request.toolCallId);
+    }
+
+    const turnKey = recordTurnMessage(
+      state.turnTracker,
+      record.messageId,
+      event.data.interactionId,
+      toTimestamp(event.timestamp, 0),
+      record.toolCallIds ?? [],
+    ) ?? state.messages.get(record.messageId)?.turnKey;
+    if (turnKey) {
+      record.turnKey = turnKey;
+    }
+
+    // Later copies of the same message replace earlier ones, but keep usage a
+    // standalone assistant.usage event already attached
+    const previous = state.messages.get(record.messageId);
+    if (previous?.usageSource === 'assistant.usage') {
+      record.usage = previous.usage;
+      record.usageSource = previous.usageSource;
+    }
+    state.messages.set(record.messageId, record);
+  } else if (isAssistantUsage(event)) {
+    applyAssistantUsage(state, event);
+  } else if (isTurnStart(event)) {
+    recordTurnStart(state.turnTracker, event.data.turnId, event.data.interactionId, toTimestamp(event.timestamp, 0));
+  } else if (isTurnEnd(event)) {
+    recordTurnEnd(state.turnTracker, event.data.turnId, toTimestamp(event.timestamp, 0));
+  } else if (isToolExecutionStart(event)) {
+    const toolCall = getOrCreateToolCall(state.toolCalls, event.data.toolCallId);
+    if (typeof event.data.toolName === 'string' && event.data.toolName.length > 0) {
+      toolCall.toolName = event.data.toolName;
+    }
+    if (typeof event.data.mcpServerName === 'string' && event.data.mcpServerName.length > 0) {
+      toolCall.mcpServerName = event.data.mcpServerName;
+    }
+    toolCall.startedAt = toTimestamp(event.timestamp, 0);
+    toolCall.startEventId = event.id;
+  } else if (isToolExecutionComplete(event)) {
+    const toolCall = getOrCreateToolCall(state.toolCalls, event.data.toolCallId);
+    toolCall.completedAt = toTimestamp(event.timestamp, 0);
+    // Older CLI versions omit `success` — treat a completion without an error as success
+    toolCall.success = typeof event.data.success === 'boolean' ? event.data.success : event.data.error === undefined;
+  }
+
+  if (typeof event.type === 'string' && event.type.length > 0) {
+    state.lastEvent = { type: event.type, timestamp: toTimestamp(event.timestamp, 0) };
+  }
+}
+
+/**
+ * Bring a session's parse state up to date with its events.jsonl.
+ *
+ * Only bytes appended since `previous.byteOffset` are read. The state is
+ * rebuilt from scratch when the file shrank (truncated) or its inode changed
+ * (rotated or replaced). Returns null when the file cannot be read, leaving
+ * `previous` as it was.
+ */
+export async function updateSessionParseState(
+  eventsPath: string,
+  previous?: SessionParseState,
+): Promise<SessionParseState | null> {
+  let stat: Awaited<ReturnType<typeof fs.stat>>;
+  try {
+    stat = await fs.stat(eventsPath);
+  } catch {
+    return null;
   }
 
-  // Priority: assistant.message data.model > model_change timeline > event-derived model > process log default
-  const effectiveDefaultModel = eventDerivedModel ?? defaultModel;
+  const canResume = previous !== undefined
+    && previous.fileIno === stat.ino
+    && previous.byteOffset <= stat.size;
 
-  // Process assistant messages
-  for (const event of events) {
-    if (!isAssistantMessage(event)) continue;
+  const state = canResume ? previous : createSessionParseState(stat.ino);
+  if (state.byteOffset === stat.size) {
+    state.fileSize = stat.size;
+    return state;
+  }
 
-    const { data } = event;
+  // A resumed state is the caller's: fold the new events in only once the
+  // read succeeds, so a failed read cannot apply them twice
+  const appended: CopilotCliEventBase[] = [];
+  const byteOffset = await streamJsonlFile<CopilotCliEventBase>(eventsPath, state.byteOffset, (event) => {
+    if (canResume) {
+      appended.push(event);
+    } else {
+      applyEventToParseState(state, event);
+    }
+  });
+  if (byteOffset === null) return null;
+
+  for (const event of appended) {
+    try {
+      applyEventToParseState(state, event);
+    } catch {
+      // Skip events the reducer cannot fold, as streamJsonlFile does
+    }
+  }
+  state.byteOffset = byteOffset;
+  state.fileSize = stat.size;
+  return state;
+}
+
+/**
+ * Turn a parse state into one SessionUsageData row per assistant message,
+ * ordered by timestamp. Shared by session parsing and live activity updates
+ * so both agree on model, token counts and `isEstimated`. `modelTimeline` is
+ * the session's own process log models; `defaultModel` is used only when
+ * nothing about the session names a model.
+ */
+export async function buildMessageRows(
+  state: SessionParseState,
+  dirPath: string,
+  mtimeMs: number,
+  defaultModel: string,
+  compactionTimeline?: ReadonlyArray<CompactionEntry>,
+  modelTimeline?: ReadonlyArray<ModelTimelineEntry>,
+): Promise<MessageRow[]> {
+  if (state.messages.size === 0) return [];
+
+  const workspacePath = path.join(dirPath, 'workspace.yaml');
+  const workspace = await readWorkspaceYaml(workspacePath);
+  const sessionId = workspace?.id ?? path.basename(dirPath);
+  const projectPath = workspace?.cwd || state.sessionContext?.cwd || undefined;
+  const sessionName = workspace?.summary?.trim() || undefined;
+  const git = resolveGitContext(workspace, state.sessionContext);
+  const copilotVersion = state.schema.producer?.copilotVersion;
+
+  // Sort ascending by time so binary-style lookup works
+  const modelChanges = [...state.modelChanges].sort((a, b) => a.timestamp - b.timestamp);
+
+  // Priority: assistant.message data.model > model_change timeline > event-derived model
+  // > the session's process logs > the newest process log's default
+  const resolveModel = (message: AssistantMessageRecord, timestamp: number): { modelId: string; modelSource: ModelSource } => {
+    if (message.model) return { modelId: message.model, modelSource: 'message' };
+
+    const changedModel = resolveModelAtTime(timestamp, modelChanges);
+    if (changedModel) return { modelId: changedModel, modelSource: 'model_change' };
+    if (state.eventDerivedModel) return { modelId: state.eventDerivedModel, modelSource: 'event' };
+
+    // A message logged before the first model line still ran under the process's first model
+    const logged = modelTimeline && modelTimeline.length > 0
+      ? resolveModelAtTime(timestamp, modelTimeline) ?? modelTimeline[0]!.model
+      : null;
+    return logged ? { modelId: logged, modelSource: 'process_log' } : { modelId: defaultModel, modelSource: 'default' };
+  };
+
+  const branches = classifyAssistantEvents(state);
+  const messageRows: MessageRow[] = [];
 
-    // Prefer real token data if present (future-proofing for when assistant.usage events are persisted)
+  for (const message of state.messages.values()) {
+    // Prefer real token data if present (assistant.usage events or usage embedded in the message)
     let inputTokens: number;
     let outputTokens: number;
     let cacheRead: number | undefined;
     let cacheWrite: number | undefined;
+    const timestamp = toTimestamp(message.timestamp, mtimeMs);
+    const { modelId, modelSource } = resolveModel(message, timestamp);
+    let reasoningTokens = message.reasoningTokens ? getTokenCount(message.reasoningTokens, modelId) : 0;
     let isEstimated = true;
-
-    if (data.usage && typeof data.usage.prompt_tokens === 'number' && data.usage.prompt_tokens > 0) {
-      inputTokens = data.usage.prompt_tokens;
-      outputTokens = data.usage.completion_tokens ?? 0;
+    let tokenSource: TokenSource = 'estimate';
+
+    const messageUsage = message.usage;
+    if (messageUsage) {
+      inputTokens = messageUsage.input;
+      outputTokens = messageUsage.output;
+      // Real usage without a reasoning count may still have some inside the output
+      reasoningTokens = messageUsage.reasoning;
       isEstimated = false;
-      if (data.usage.cache_read_input_tokens && data.usage.cache_read_input_tokens > 0) {
-        cacheRead = data.usage.cache_read_input_tokens;
+      tokenSource = message.usageSource ?? 'message.usage';
+      if (messageUsage.cacheRead > 0) {
+        cacheRead = messageUsage.cacheRead;
       }
-      if (data.usage.cache_creation_input_tokens && data.usage.cache_creation_input_tokens > 0) {
-        cacheWrite = data.usage.cache_creation_input_tokens;
+      if (messageUsage.cacheWrite > 0) {
+        cacheWrite = messageUsage.cacheWrite;
       }
     } else {
-      // Estimate tokens from content length (~4 chars per token)
-      outputTokens = estimateTokens(data.content);
+      // Estimate from the content, counted by the resolved model's tokenizer
+      const contentTokens = getTokenCount(message.contentTokens, modelId);
       // Estimate input as a fraction of output — assistant messages don't carry input context,
       // but each turn typically has comparable input/output. Use a conservative estimate.
-      inputTokens = Math.ceil(outputTokens * 0.5);
+      inputTokens = Math.ceil(contentTokens * 0.5);
+      // Reasoning is output too; metadata.reasoningTokens says how much of it
+      outputTokens = contentTokens + reasoningTokens;
     }
 
-    const modelId = data.model ?? resolveModelAtTime(toTimestamp(event.timestamp, mtimeMs), effectiveDefaultModel, modelChanges);
-
     const usage: SessionUsageData = {
       sessionId,
       providerId: 'github-copilot',
@@ -265,11 +729,14 @@ export async function parseSessionDirRows(
         input: inputTokens,
         output: outputTokens,
       },
-      timestamp: toTimestamp(event.timestamp, mtimeMs),
+      timestamp,
       sessionUpdatedAt: mtimeMs,
-      metadata: { isEstimated },
+      metadata: { isEstimated, tokenSource, modelSource, ...git },
     };
 
+    if (copilotVersion) {
+      usage.metadata!.copilotVersion = copilotVersion;
+    }
     if (sessionName) {
       usage.sessionName = sessionName;
     }
@@ -279,44 +746,156 @@ export async function parseSessionDirRows(
     if (cacheWrite) {
       usage.tokens.cacheWrite = cacheWrite;
     }
+    if (reasoningTokens > 0) {
+      usage.metadata!.reasoningTokens = reasoningTokens;
+    }
     if (projectPath) {
       usage.projectPath = projectPath;
     }
+    if (message.interactionId) {
+      usage.metadata!.interactionId = message.interactionId;
+    }
+    if (message.toolCallIds && message.toolCallIds.length > 0) {
+      const toolCalls = message.toolCallIds
+        .map((toolCallId) => state.toolCalls.get(toolCallId))
+        .filter((toolCall): toolCall is ToolCallRecord => toolCall !== undefined);
+      usage.metadata!.toolCalls = summarizeToolCalls(toolCalls);
+    }
+    const turn = message.turnKey ? state.turnTracker.turns.get(message.turnKey) : undefined;
+    if (turn) {
+      usage.metadata!.turn = getTurnMetrics(turn);
+    }
+    const eventNode = message.eventId ? state.events.get(message.eventId) : undefined;
+    if (eventNode) {
+      usage.metadata!.eventId = eventNode.id;
+      usage.metadata!.eventBranch = branches.get(eventNode.id) ?? 'main';
+      if (eventNode.agentDepth > 0) {
+        usage.metadata!.agentDepth = eventNode.agentDepth;
+      }
+    }
 
-    deduped.set(data.messageId, usage);
+    messageRows.push({ messageId: message.messageId, row: usage });
   }
 
-  const rows = Array.from(deduped.values());
+  messageRows.sort((a, b) => a.row.timestamp - b.row.timestamp);
 
-  // Enhance token estimates using CompactionProcessor data from process logs.
-  // CP entries fire 1:1 with model requests — matched by chronological order.
-  // This replaces the content-length heuristic (~4 chars/token) with real token
-  // counts from the CLI's internal tokenizer.
-  if (compactionTimeline && compactionTimeline.length > 0 && rows.length > 0) {
-    rows.sort((a, b) => a.timestamp - b.timestamp);
+  if (compactionTimeline && compactionTimeline.length > 0) {
+    overlayCompactionTimeline(messageRows.map(({ row }) => row), compactionTimeline);
+  }
 
-    for (let i = 0; i < rows.length && i < compactionTimeline.length; i++) {
-      const row = rows[i]!;
-      const cp = compactionTimeline[i]!;
+  applyPricing(messageRows.map(({ row }) => row));
 
-      // Only override estimated data — never clobber real usage from assistant.usage events
-      if (!row.metadata?.isEstimated) continue;
+  return messageRows;
+}
 
-      row.tokens.input = cp.tokens;
+/**
+ * How far before a message a CompactionProcessor entry may be when the
+ * message has no turn to bound the search.
+ */
+const COMPACTION_ALIGNMENT_WINDOW_MS = 5 * 60_000;
+/** Slack for an entry logged just after the message it belongs to. */
+const COMPACTION_CLOCK_SKEW_MS = 250;
+/** Confidence factor for matches made without a turn window. */
+const NO_TURN_CONFIDENCE = 0.75;
 
-      if (i + 1 < compactionTimeline.length) {
-        const delta = compactionTimeline[i + 1]!.tokens - cp.tokens;
-        row.tokens.output = Math.max(0, delta);
-      }
-      // For the last message: keep content-based output estimate (no next CP entry)
+/**
+ * Enhance token estimates using CompactionProcessor data from process logs.
+ * A CP entry is logged just before each model request, so every message is
+ * matched to the latest unused entry logged before it, within the message's
+ * turn (or a fixed window when it has none). Entries that fall in no window —
+ * retries, sub-agent and summarisation calls — are skipped instead of
+ * shifting every later match. This replaces the content-length heuristic
+ * (~4 chars/token) with real token counts from the CLI's internal tokenizer.
+ *
+ * Each overlaid row gets `metadata.compactionConfidence` in 0–1: lower when
+ * the entry is far from the message, when several entries competed for it,
+ * or when no turn bounded the search. Rows left with no entry get 0. Matched
+ * rows also carry the context window and utilisation at the request, and
+ * `afterCompaction` when the CLI compacted just before it.
+ */
+function overlayCompactionTimeline(rows: ReadonlyArray<SessionUsageData>, timeline: ReadonlyArray<CompactionEntry>): void {
+  let nextEntry = 0;
+
+  for (const row of rows) {
+    // Only override estimated data — never clobber real usage from assistant.usage events
+    if (!row.metadata?.isEstimated) continue;
+
+    const turn = row.metadata.turn as TurnMetrics | undefined;
+    const windowStart = turn ? turn.startedAt - COMPACTION_CLOCK_SKEW_MS : row.timestamp - COMPACTION_ALIGNMENT_WINDOW_MS;
+    const windowEnd = row.timestamp + COMPACTION_CLOCK_SKEW_MS;
+
+    while (nextEntry < timeline.length && timeline[nextEntry]!.timestamp < windowStart) nextEntry++;
+    let candidates = 0;
+    while (nextEntry + candidates < timeline.length && timeline[nextEntry + candidates]!.timestamp <= windowEnd) candidates++;
+
+    if (candidates === 0) {
+      row.metadata.compactionConfidence = 0;
+      continue;
+    }
+
+    const matched = nextEntry + candidates - 1;
+    const cp = timeline[matched]!;
+    nextEntry = matched + 1;
+
+    row.tokens.input = cp.tokens;
+    row.metadata.tokenSource = 'compaction';
+    row.metadata.contextWindow = cp.contextWindow;
+    row.metadata.contextUtilization = getContextUtilization(cp);
+    const previous = timeline[matched - 1];
+    if (previous && isCompactionDrop(previous, cp)) {
+      row.metadata.afterCompaction = true;
     }
+
+    // Output is the context growth until the next request of the same process,
+    // plus the reasoning, which is not kept in the context.
+    // For the last request of a process, keep the content-based estimate.
+    const next = timeline[matched + 1];
+    if (next && next.processStartedAt === cp.processStartedAt) {
+      row.tokens.output = Math.max(0, next.tokens - cp.tokens) + getReasoningTokens(row);
+    }
+
+    const gapMs = Math.max(0, row.timestamp - cp.timestamp);
+    const confidence = Math.exp(-gapMs / COMPACTION_ALIGNMENT_WINDOW_MS) * (turn ? 1 : NO_TURN_CONFIDENCE) / candidates;
+    row.metadata.compactionConfidence = Math.round(confidence * 100) / 100;
   }
+}
+
+/**
+ * Incrementally parse a session directory, resuming from `previousState` when
+ * the file has only grown since. Returns the rows along with the updated state
+ * so the caller can keep it for the next parse.
+ */
+export async function parseSessionDirIncremental(
+  dirPath: string,
+  mtimeMs: number,
+  defaultModel: string,
+  compactionTimeline?: ReadonlyArray<CompactionEntry>,
+  previousState?: SessionParseState,
+  modelTimeline?: ReadonlyArray<ModelTimelineEntry>,
+): Promise<{ rows: SessionUsageData[]; state: SessionParseState | null }> {
+  const state = await updateSessionParseState(path.join(dirPath, 'events.jsonl'), previousState);
+  if (!state) return { rows: [], state: null };
+
+  const messageRows = await buildMessageRows(state, dirPath, mtimeMs, defaultModel, compactionTimeline, modelTimeline);
+  return { rows: messageRows.map(({ row }) => row), state };
+}
 
+/**
+ * Parse a single session directory's events.jsonl + workspace.yaml into SessionUsageData rows.
+ */
+export async function parseSessionDirRows(
+  dirPath: string,
+  mtimeMs: number,
+  defaultModel: string,
+  compactionTimeline?: ReadonlyArray<CompactionEntry>,
+  modelTimeline?: ReadonlyArray<ModelTimelineEntry>,
+): Promise<SessionUsageData[]> {
+  const { rows } = await parseSessionDirIncremental(dirPath, mtimeMs, defaultModel, compactionTimeline, undefined, modelTimeline);
   return rows;
 }
 
 /**
- * Main entry point: parse all Copilot CLI sessions from `~/.copilot/session-state/`.
+ * Main entry point: parse all Copilot CLI sessions from every configured root's `session-state/`.
  */
 export async function parseSessionsFromDirs(
   options: SessionParseOptions,
@@ -325,13 +904,17 @@ export async function parseSessionsFromDirs(
   const limit = options.limit ?? 100;
   const since = options.since;
 
-  try {
-    await fs.access(COPILOT_CLI_SESSION_STATE_PATH);
-  } catch {
+  const sessionStatePaths = await getExistingSessionStatePaths();
+  if (sessionStatePaths.length === 0) {
     ctx.logger.debug('No Copilot CLI session-state directory found');
     return [];
   }
 
+  if (await loadPersistentCache()) {
+    // The restored metadata index predates this process — re-stat everything once.
+    requestFullReconciliation();
+  }
+
   startSessionWatcher();
 
   const now = Date.now();
@@ -364,6 +947,8 @@ export async function parseSessionsFromDirs(
   const discoveredDirs = await getSessionDirs();
   const defaultModel = await getDefaultModel();
   const compactionIndex = await buildCompactionIndex();
+  const modelIndex = await buildModelIndex();
+  const processSummaries = summarizeSessionProcesses();
 
   for (const sessionDirPath of discoveredDirs) {
     watchSessionDir(sessionDirPath);
@@ -434,15 +1019,27 @@ export async function parseSessionsFromDirs(
 
   sessionDirs.sort((a, b) => b.mtimeMs - a.mtimeMs);
 
+  // Only the N most recently updated sessions are parsed — everything past the
+  // window is never opened.
+  const selectedDirs = limit > 0 ? sessionDirs.slice(0, limit) : sessionDirs;
+
   const sessions: SessionUsageData[] = [];
   let aggregateCacheHits = 0;
   let aggregateCacheMisses = 0;
+  let incrementalParseCount = 0;
 
-  for (const dir of sessionDirs) {
+  for (const dir of selectedDirs) {
     const cached = sessionAggregateCache.get(dir.sessionId);
     if (cached && cached.updatedAt === dir.mtimeMs) {
       cached.lastAccessed = now;
       aggregateCacheHits++;
+      if (cached.parseState) {
+        applySessionLifecycle(
+          cached.usageRows,
+          resolveSessionLifecycle(cached.parseState, dir.mtimeMs, processSummaries.get(dir.sessionId), now),
+        );
+      }
+      await refreshSessionSummary(dir.sessionId, dir.dirPath, cached);
       sessions.push(...cached.usageRows);
       continue;
     }
@@ -450,19 +1047,42 @@ export async function parseSessionsFromDirs(
     aggregateCacheMisses++;
 
     const timeline = compactionIndex.get(dir.sessionId);
-    const usageRows = await parseSessionDirRows(dir.dirPath, dir.mtimeMs, defaultModel, timeline);
+    const { rows: usageRows, state } = await parseSessionDirIncremental(
+      dir.dirPath,
+      dir.mtimeMs,
+      defaultModel,
+      timeline,
+      cached?.parseState,
+      modelIndex.get(dir.sessionId),
+    );
+    if (cached?.parseState && state === cached.parseState) incrementalParseCount++;
+    if (state) {
+      reportSchemaDrift(ctx.logger, dir.sessionId, state.schema);
+      applySessionLifecycle(usageRows, resolveSessionLifecycle(state, dir.mtimeMs, processSummaries.get(dir.sessionId), now));
+    }
 
-    sessionAggregateCache.set(dir.sessionId, {
+    const entry: SessionAggregateCacheEntry = {
       updatedAt: dir.mtimeMs,
       usageRows,
       lastAccessed: now,
-    });
+    };
+    if (state) {
+      entry.parseState = state;
+    }
+    sessionAggregateCache.set(dir.sessionId, entry);
+    // Rows were rebuilt, possibly for the same mtime (e.g. after a pricing change)
+    sessionSummaryCache.delete(dir.sessionId);
+    await refreshSessionSummary(dir.sessionId, dir.dirPath, entry);
 
     sessions.push(...usageRows);
   }
 
   evictSessionAggregateCache();
 
+  if (aggregateCacheMisses > 0) {
+    markPersistentCacheDirty();
+  }
+
   if (!options.sessionId) {
     sessionCache.lastCheck = Date.now();
     sessionCache.lastResult = sessions;
@@ -473,13 +1093,17 @@ export async function parseSessionsFromDirs(
   ctx.logger.debug('Copilot CLI: parsed sessions', {
     count: sessions.length,
     sessionDirs: sessionDirs.length,
+    selectedDirs: selectedDirs.length,
+    limit,
     statChecks: statCount,
     statSkips: statSkipCount,
     dirtyHits: dirtyHitCount,
     aggregateCacheHits,
     aggregateCacheMisses,
+    incrementalParses: incrementalParseCount,
     metadataIndexSize: sessionMetadataIndex.size,
     aggregateCacheSize: sessionAggregateCache.size,
+    sessionStatePaths,
     defaultModel,
   });
 
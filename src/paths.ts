@@ -1,63 +1,227 @@
+import type { Dirent } from 'fs';
 import * as fs from 'fs/promises';
 import * as os from 'os';
 import * as path from 'path';
 
+/**
+ * The default home as resolved when the module loaded. Kept for callers that
+ * display it; discovery goes through `getCopilotCliRoots()`, which resolves
+ * every root — this one included — on each call.
+ */
 export const COPILOT_CLI_HOME = path.join(os.homedir(), '.copilot');
 export const COPILOT_CLI_SESSION_STATE_PATH = path.join(COPILOT_CLI_HOME, 'session-state');
 export const COPILOT_CLI_LOGS_PATH = path.join(COPILOT_CLI_HOME, 'logs');
 
+/** Plugin-owned cache directory name under the tokentop cache root. */
+const PLUGIN_CACHE_DIR_NAME = 'copilot-cli';
+
+/** Environment variable holding extra Copilot home directories (path-delimiter separated). */
+export const COPILOT_CLI_HOME_ENV = 'COPILOT_CLI_HOME';
+
+/** Plugin config key holding extra Copilot home directories (path-delimiter or comma separated). */
+export const COPILOT_HOMES_CONFIG_KEY = 'copilotHomes';
+
+export interface CopilotCliRoot {
+  home: string;
+  sessionStatePath: string;
+  logsPath: string;
+}
+
+export interface ProcessLogFile {
+  path: string;
+  ino: number;
+  mtimeMs: number;
+  size: number;
+}
+
+/** Homes supplied through plugin config — set by the plugin entry points. */
+let configuredHomes: string[] = [];
+
+/** Scan only the configured homes, skipping `COPILOT_CLI_HOME` and the default homes. */
+let onlyConfiguredHomes = false;
+
+function splitHomeList(value: string): string[] {
+  return value
+    .split(path.delimiter)
+    .flatMap((entry) => entry.split(','))
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0);
+}
+
+function expandHome(value: string): string {
+  if (value === '~') return os.homedir();
+  if (value.startsWith('~/')) return path.join(os.homedir(), value.slice(2));
+  return path.resolve(value);
+}
+
+/**
+ * Apply the `copilotHomes` plugin config value. Accepts a delimited string
+ * or an array of strings; anything else clears the configured homes. With
+ * `exclusive`, no other home is scanned (e.g. the standalone CLI's `--home`).
+ * Returns true when the set of homes changed.
+ */
+export function configureCopilotHomes(config: Record<string, unknown> | undefined, exclusive = false): boolean {
+  const value = config?.[COPILOT_HOMES_CONFIG_KEY];
+  let homes: string[] = [];
+
+  if (typeof value === 'string') {
+    homes = splitHomeList(value).map(expandHome);
+  } else if (Array.isArray(value)) {
+    homes = value
+      .filter((entry): entry is string => typeof entry === 'string' && entry.trim().length > 0)
+      .map((entry) => expandHome(entry.trim()));
+  }
+
+  const changed = exclusive !== onlyConfiguredHomes
+    || homes.length !== configuredHomes.length
+    || homes.some((home, i) => home !== configuredHomes[i]);
+  configuredHomes = homes;
+  onlyConfiguredHomes = exclusive;
+  return changed;
+}
+
+/**
+ * Resolve every Copilot home directory to scan, in priority order:
+ * plugin config, `COPILOT_CLI_HOME`, `$XDG_CONFIG_HOME/.copilot`, then `~/.copilot`.
+ * Duplicate paths are collapsed; existence is not checked here.
+ */
+export function getCopilotCliRoots(env: NodeJS.ProcessEnv = process.env): CopilotCliRoot[] {
+  const homes: string[] = [...configuredHomes];
+
+  if (!onlyConfiguredHomes) {
+    const envHomes = env[COPILOT_CLI_HOME_ENV];
+    if (envHomes) {
+      homes.push(...splitHomeList(envHomes).map(expandHome));
+    }
+
+    const xdgConfigHome = env['XDG_CONFIG_HOME'];
+    if (xdgConfigHome && path.isAbsolute(xdgConfigHome)) {
+      homes.push(path.join(xdgConfigHome, '.copilot'));
+    }
+
+    homes.push(path.join(os.homedir(), '.copilot'));
+  }
+
+  const seen = new Set<string>();
+  const roots: CopilotCliRoot[] = [];
+
+  for (const home of homes) {
+    const normalized = path.normalize(home);
+    if (seen.has(normalized)) continue;
+    seen.add(normalized);
+
+    roots.push({
+      home: normalized,
+      sessionStatePath: path.join(normalized, 'session-state'),
+      logsPath: path.join(normalized, 'logs'),
+    });
+  }
+
+  return roots;
+}
+
+/**
+ * Return the session-state directories of all roots that currently exist.
+ */
+export async function getExistingSessionStatePaths(): Promise<string[]> {
+  const existing: string[] = [];
+
+  for (const root of getCopilotCliRoots()) {
+    try {
+      await fs.access(root.sessionStatePath);
+      existing.push(root.sessionStatePath);
+    } catch {
+      // Root without session-state — skip
+    }
+  }
+
+  return existing;
+}
+
 /**
- * Discover all session directories under `~/.copilot/session-state/`.
+ * Discover all session directories under every root's `session-state/`.
  * Each session is a directory named by UUID containing `events.jsonl` and `workspace.yaml`.
+ * When the same session ID appears under several roots, the copy with the
+ * most recently modified `events.jsonl` wins.
  */
 export async function getSessionDirs(): Promise<string[]> {
-  try {
-    const entries = await fs.readdir(COPILOT_CLI_SESSION_STATE_PATH, { withFileTypes: true });
-    const dirs: string[] = [];
+  const bySessionId = new Map<string, { dirPath: string; mtimeMs: number }>();
+
+  for (const root of getCopilotCliRoots()) {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(root.sessionStatePath, { withFileTypes: true });
+    } catch {
+      continue;
+    }
 
     for (const entry of entries) {
       if (!entry.isDirectory()) continue;
 
-      const eventsPath = path.join(COPILOT_CLI_SESSION_STATE_PATH, entry.name, 'events.jsonl');
+      const dirPath = path.join(root.sessionStatePath, entry.name);
       try {
-        await fs.access(eventsPath);
-        dirs.push(path.join(COPILOT_CLI_SESSION_STATE_PATH, entry.name));
+        const stat = await fs.stat(path.join(dirPath, 'events.jsonl'));
+        const existing = bySessionId.get(entry.name);
+        if (!existing || stat.mtimeMs > existing.mtimeMs) {
+          bySessionId.set(entry.name, { dirPath, mtimeMs: stat.mtimeMs });
+        }
       } catch {
         // Session dir without events.jsonl — skip
       }
     }
-
-    return dirs;
-  } catch {
-    return [];
   }
+
+  return Array.from(bySessionId.values(), (entry) => entry.dirPath);
 }
 
 /**
- * Find the most recent process log file in `~/.copilot/logs/`.
- * Process logs contain model information and utilization data.
+ * List every `process-*.log` file across all roots' `logs/` directories.
  */
-export async function getLatestProcessLog(): Promise<string | null> {
-  try {
-    const entries = await fs.readdir(COPILOT_CLI_LOGS_PATH, { withFileTypes: true });
-    const logFiles: Array<{ name: string; mtimeMs: number }> = [];
+export async function listProcessLogs(): Promise<ProcessLogFile[]> {
+  const logFiles: ProcessLogFile[] = [];
+
+  for (const root of getCopilotCliRoots()) {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(root.logsPath, { withFileTypes: true });
+    } catch {
+      continue;
+    }
 
     for (const entry of entries) {
       if (!entry.isFile() || !entry.name.startsWith('process-') || !entry.name.endsWith('.log')) continue;
 
+      const logPath = path.join(root.logsPath, entry.name);
       try {
-        const stat = await fs.stat(path.join(COPILOT_CLI_LOGS_PATH, entry.name));
-        logFiles.push({ name: entry.name, mtimeMs: stat.mtimeMs });
+        const stat = await fs.stat(logPath);
+        logFiles.push({ path: logPath, ino: stat.ino, mtimeMs: stat.mtimeMs, size: stat.size });
       } catch {
         // Skip files we can't stat
       }
     }
+  }
 
-    if (logFiles.length === 0) return null;
+  return logFiles;
+}
 
-    logFiles.sort((a, b) => b.mtimeMs - a.mtimeMs);
-    return path.join(COPILOT_CLI_LOGS_PATH, logFiles[0]!.name);
-  } catch {
-    return null;
-  }
+/**
+ * Directory owned by this plugin for on-disk caches:
+ * `$XDG_CACHE_HOME/tokentop/copilot-cli`, falling back to `~/.cache/tokentop/copilot-cli`.
+ */
+export function getPluginCacheDir(env: NodeJS.ProcessEnv = process.env): string {
+  const xdgCacheHome = env['XDG_CACHE_HOME'];
+  const cacheRoot = xdgCacheHome && path.isAbsolute(xdgCacheHome)
+    ? xdgCacheHome
+    : path.join(os.homedir(), '.cache');
+  return path.join(cacheRoot, 'tokentop', PLUGIN_CACHE_DIR_NAME);
+}
+
+/**
+ * Filesystem paths the plugin reads or writes right now: every Copilot root
+ * (configured, `COPILOT_CLI_HOME`, XDG and default) and the tokentop cache root.
+ */
+export function getPermissionPaths(env: NodeJS.ProcessEnv = process.env): string[] {
+  const paths = getCopilotCliRoots(env).map((root) => root.home);
+  paths.push(path.dirname(getPluginCacheDir(env)));
+  return Array.from(new Set(paths));
 }
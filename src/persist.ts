@@ -0,0 +1,430 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import {
+  PARSER_VERSION,
+  processLogCache,
+  sessionAggregateCache,
+  sessionCache,
+  sessionMetadataIndex,
+  sessionSummaryCache,
+} from './cache.ts';
+import { resetProcessLogIndex } from './logs.ts';
+import { getPluginCacheDir } from './paths.ts';
+import { getPricingFingerprint } from './pricing.ts';
+import type {
+  AssistantMessageRecord,
+  CopilotCliSessionStartData,
+  EventNodeRecord,
+  NormalizedUsage,
+  ProcessLogIndexEntry,
+  SchemaIssue,
+  SessionParseState,
+  SessionProducerInfo,
+  ToolCallRecord,
+  TurnRecord,
+  UserMessageRecord,
+} from './types.ts';
+
+/** Version of the on-disk file layout. Bump when the persisted shape changes. */
+export const PERSISTENT_CACHE_FORMAT_VERSION = 16;
+
+/** Plugin config key that enables or disables the on-disk cache. */
+export const PERSISTENT_CACHE_CONFIG_KEY = 'persistentCache';
+
+const CACHE_FILE_NAME = 'sessions-cache.json';
+/** One file per session, so a save only rewrites the sessions that changed. */
+const SESSIONS_DIR_NAME = 'sessions';
+const SAVE_DEBOUNCE_MS = 5_000;
+
+interface PersistedParseState {
+  byteOffset: number;
+  fileIno: number;
+  fileSize: number;
+  messages: AssistantMessageRecord[];
+  modelChanges: Array<{ timestamp: number; model: string }>;
+  eventDerivedModel: string | null;
+  toolCalls: ToolCallRecord[];
+  turns: Array<[string, TurnRecord]>;
+  openTurnKey: string | null;
+  userMessages: UserMessageRecord[];
+  sessionContext: CopilotCliSessionStartData['context'] | null;
+  events: EventNodeRecord[];
+  schema: { producer: SessionProducerInfo | null; issues: Array<[string, SchemaIssue]> };
+  pendingUsage: Array<[string, NormalizedUsage]>;
+  lastEvent: { type: string; timestamp: number } | null;
+  resumedAt: number | null;
+}
+
+interface PersistedSessionFile {
+  formatVersion: number;
+  parserVersion: number;
+  /** Rows carry cost, so they are only reused under the same pricing. */
+  pricingFingerprint: string;
+  sessionId: string;
+  dirPath: string;
+  eventsMtimeMs: number;
+  eventsSize: number;
+  usageRows: SessionUsageData[];
+  parseState: PersistedParseState;
+}
+
+interface PersistedCacheFile {
+  formatVersion: number;
+  parserVersion: number;
+  savedAt: number;
+  metadataIndex: Record<string, { mtimeMs: number; sessionId: string }>;
+  processLogs: Record<string, ProcessLogIndexEntry>;
+}
+
+interface PersistentCacheState {
+  enabled: boolean;
+  loaded: boolean;
+  saveTimer: ReturnType<typeof setTimeout> | null;
+  pendingSave: Promise<void> | null;
+  /** Session file path → rows it holds, so unchanged sessions are not rewritten. */
+  writtenSessions: Map<string, SessionUsageData[]>;
+}
+
+const persistentCache: PersistentCacheState = {
+  enabled: true,
+  loaded: false,
+  saveTimer: null,
+  pendingSave: null,
+  writtenSessions: new Map(),
+};
+
+export function getPersistentCachePath(): string {
+  return path.join(getPluginCacheDir(), CACHE_FILE_NAME);
+}
+
+function getPersistentSessionsDir(): string {
+  return path.join(getPluginCacheDir(), SESSIONS_DIR_NAME);
+}
+
+/** Path of one session's cache file, keyed by its session dir. */
+export function getPersistentSessionPath(dirPath: string): string {
+  const key = createHash('sha256').update(dirPath).digest('hex').slice(0, 32);
+  return path.join(getPersistentSessionsDir(), `${key}.json`);
+}
+
+/**
+ * Apply the `persistentCache` plugin config value. Disabling stops any pending save.
+ */
+export function configurePersistentCache(config: Record<string, unknown> | undefined): void {
+  persistentCache.enabled = config?.[PERSISTENT_CACHE_CONFIG_KEY] !== false;
+  if (!persistentCache.enabled) {
+    cancelScheduledSave();
+  }
+}
+
+function serializeParseState(state: SessionParseState): PersistedParseState {
+  return {
+    byteOffset: state.byteOffset,
+    fileIno: state.fileIno,
+    fileSize: state.fileSize,
+    messages: Array.from(state.messages.values()),
+    modelChanges: state.modelChanges,
+    eventDerivedModel: state.eventDerivedModel,
+    toolCalls: Array.from(state.toolCalls.values()),
+    turns: Array.from(state.turnTracker.turns),
+    openTurnKey: state.turnTracker.openTurnKey,
+    userMessages: Array.from(state.userMessages.values()),
+    sessionContext: state.sessionContext,
+    events: Array.from(state.events.values()),
+    schema: { producer: state.schema.producer, issues: Array.from(state.schema.issues) },
+    pendingUsage: Array.from(state.pendingUsage),
+    lastEvent: state.lastEvent,
+    resumedAt: state.resumedAt,
+  };
+}
+
+function deserializeParseState(persisted: PersistedParseState): SessionParseState {
+  return {
+    byteOffset: persisted.byteOffset,
+    fileIno: persisted.fileIno,
+    fileSize: persisted.fileSize,
+    messages: new Map(persisted.messages.map((record) => [record.messageId, record])),
+    modelChanges: persisted.modelChanges,
+    eventDerivedModel: persisted.eventDerivedModel,
+    toolCalls: new Map(persisted.toolCalls.map((record) => [record.toolCallId, record])),
+    turnTracker: {
+      turns: new Map(persisted.turns),
+      openTurnKey: persisted.openTurnKey,
+    },
+    userMessages: new Map(persisted.userMessages.map((record) => [record.interactionId, record])),
+    sessionContext: persisted.sessionContext,
+    events: new Map(persisted.events.map((node) => [node.id, node])),
+    schema: { producer: persisted.schema.producer, issues: new Map(persisted.schema.issues) },
+    pendingUsage: new Map(persisted.pendingUsage),
+    lastEvent: persisted.lastEvent,
+    resumedAt: persisted.resumedAt,
+  };
+}
+
+function isPersistedCacheFile(value: unknown): value is PersistedCacheFile {
+  if (!value || typeof value !== 'object') return false;
+
+  const candidate = value as Partial<PersistedCacheFile>;
+  return candidate.formatVersion === PERSISTENT_CACHE_FORMAT_VERSION
+    && typeof candidate.parserVersion === 'number'
+    && !!candidate.metadataIndex && typeof candidate.metadataIndex === 'object'
+    && !!candidate.processLogs && typeof candidate.processLogs === 'object';
+}
+
+function isPersistedSessionFile(value: unknown): value is PersistedSessionFile {
+  if (!value || typeof value !== 'object') return false;
+
+  const candidate = value as Partial<PersistedSessionFile>;
+  return candidate.formatVersion === PERSISTENT_CACHE_FORMAT_VERSION
+    && candidate.parserVersion === PARSER_VERSION
+    && typeof candidate.pricingFingerprint === 'string'
+    && typeof candidate.sessionId === 'string'
+    && typeof candidate.dirPath === 'string'
+    && Array.isArray(candidate.usageRows)
+    && !!candidate.parseState && typeof candidate.parseState === 'object';
+}
+
+async function readJsonFile(filePath: string): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Restore every session file whose events.jsonl still has the recorded
+ * inode, mtime and size. Returns true when any session was restored.
+ */
+async function loadPersistedSessions(): Promise<boolean> {
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(getPersistentSessionsDir());
+  } catch {
+    return false;
+  }
+
+  let restored = false;
+  const now = Date.now();
+  const pricingFingerprint = getPricingFingerprint();
+
+  for (const fileName of fileNames) {
+    if (!fileName.endsWith('.json')) continue;
+
+    const filePath = path.join(getPersistentSessionsDir(), fileName);
+    const file = await readJsonFile(filePath);
+    if (!isPersistedSessionFile(file) || sessionAggregateCache.has(file.sessionId)) continue;
+
+    try {
+      const stat = await fs.stat(path.join(file.dirPath, 'events.jsonl'));
+      if (
+        stat.ino !== file.parseState.fileIno
+        || stat.mtimeMs !== file.eventsMtimeMs
+        || stat.size !== file.eventsSize
+      ) {
+        continue;
+      }
+    } catch {
+      continue;
+    }
+
+    sessionAggregateCache.set(file.sessionId, {
+      // Under different pricing keep only the parse state so rows are rebuilt
+      updatedAt: file.pricingFingerprint === pricingFingerprint ? file.eventsMtimeMs : -1,
+      usageRows: file.usageRows,
+      lastAccessed: now,
+      parseState: deserializeParseState(file.parseState),
+    });
+    persistentCache.writtenSessions.set(filePath, file.usageRows);
+    restored = true;
+  }
+
+  return restored;
+}
+
+/**
+ * Warm the in-memory caches from disk. Runs at most once per process.
+ *
+ * Session entries are only restored while their events.jsonl still has the
+ * recorded inode, mtime and size; process logs are restored by path and
+ * re-checked on use. A different format or parser version discards the cache.
+ * Returns true when anything was restored.
+ */
+export async function loadPersistentCache(): Promise<boolean> {
+  if (persistentCache.loaded || !persistentCache.enabled) return false;
+  persistentCache.loaded = true;
+
+  const parsed = await readJsonFile(getPersistentCachePath());
+  if (!isPersistedCacheFile(parsed) || parsed.parserVersion !== PARSER_VERSION) {
+    return false;
+  }
+
+  let restored = await loadPersistedSessions();
+
+  for (const [eventsPath, metadata] of Object.entries(parsed.metadataIndex)) {
+    if (!sessionMetadataIndex.has(eventsPath)) {
+      sessionMetadataIndex.set(eventsPath, metadata);
+      restored = true;
+    }
+  }
+
+  for (const [logPath, logEntry] of Object.entries(parsed.processLogs)) {
+    if (!processLogCache.has(logPath)) {
+      processLogCache.set(logPath, logEntry);
+      restored = true;
+    }
+  }
+
+  return restored;
+}
+
+/** Session file path → the file to write, for every cached session that is current. */
+function buildPersistedSessionFiles(): Map<string, PersistedSessionFile> {
+  const files = new Map<string, PersistedSessionFile>();
+  const pricingFingerprint = getPricingFingerprint();
+
+  for (const [eventsPath, metadata] of sessionMetadataIndex) {
+    const entry = sessionAggregateCache.get(metadata.sessionId);
+    if (!entry?.parseState || entry.updatedAt !== metadata.mtimeMs) continue;
+
+    const dirPath = path.dirname(eventsPath);
+    files.set(getPersistentSessionPath(dirPath), {
+      formatVersion: PERSISTENT_CACHE_FORMAT_VERSION,
+      parserVersion: PARSER_VERSION,
+      pricingFingerprint,
+      sessionId: metadata.sessionId,
+      dirPath,
+      eventsMtimeMs: entry.updatedAt,
+      eventsSize: entry.parseState.fileSize,
+      usageRows: entry.usageRows,
+      parseState: serializeParseState(entry.parseState),
+    });
+  }
+
+  return files;
+}
+
+function buildPersistedCacheFile(): PersistedCacheFile {
+  return {
+    formatVersion: PERSISTENT_CACHE_FORMAT_VERSION,
+    parserVersion: PARSER_VERSION,
+    savedAt: Date.now(),
+    metadataIndex: Object.fromEntries(sessionMetadataIndex),
+    processLogs: Object.fromEntries(processLogCache),
+  };
+}
+
+/**
+ * Write `data` to a temporary path and rename it into place, so readers
+ * never see a partial file. Returns false when the write failed.
+ */
+async function writeFileAtomic(filePath: string, data: string): Promise<boolean> {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    await fs.writeFile(tmpPath, data);
+    await fs.rename(tmpPath, filePath);
+    return true;
+  } catch {
+    await fs.rm(tmpPath, { force: true }).catch(() => {});
+    return false;
+  }
+}
+
+/**
+ * Write the in-memory caches to disk: one file per session, rewritten only
+ * when its rows changed since the last save, and an index of the session
+ * metadata and process logs. Files of sessions no longer cached are removed.
+ */
+export async function savePersistentCache(): Promise<void> {
+  if (!persistentCache.enabled) return;
+
+  const sessionsDir = getPersistentSessionsDir();
+  try {
+    await fs.mkdir(sessionsDir, { recursive: true });
+  } catch {
+    return;
+  }
+
+  const sessionFiles = buildPersistedSessionFiles();
+  for (const [filePath, file] of sessionFiles) {
+    if (persistentCache.writtenSessions.get(filePath) === file.usageRows) continue;
+
+    if (await writeFileAtomic(filePath, JSON.stringify(file))) {
+      persistentCache.writtenSessions.set(filePath, file.usageRows);
+    }
+  }
+
+  try {
+    for (const fileName of await fs.readdir(sessionsDir)) {
+      const filePath = path.join(sessionsDir, fileName);
+      if (!fileName.endsWith('.json') || sessionFiles.has(filePath)) continue;
+
+      await fs.rm(filePath, { force: true });
+      persistentCache.writtenSessions.delete(filePath);
+    }
+  } catch {
+    // Stale session files are only skipped on load — removal can wait for the next save
+  }
+
+  await writeFileAtomic(getPersistentCachePath(), JSON.stringify(buildPersistedCacheFile()));
+}
+
+function cancelScheduledSave(): void {
+  if (persistentCache.saveTimer) {
+    clearTimeout(persistentCache.saveTimer);
+    persistentCache.saveTimer = null;
+  }
+}
+
+/**
+ * Schedule a debounced save after the in-memory caches changed.
+ */
+export function markPersistentCacheDirty(): void {
+  if (!persistentCache.enabled || persistentCache.saveTimer) return;
+
+  persistentCache.saveTimer = setTimeout(() => {
+    persistentCache.saveTimer = null;
+    persistentCache.pendingSave = savePersistentCache().finally(() => {
+      persistentCache.pendingSave = null;
+    });
+  }, SAVE_DEBOUNCE_MS);
+  persistentCache.saveTimer.unref?.();
+}
+
+/**
+ * Write any pending changes immediately (e.g. on plugin stop).
+ */
+export async function flushPersistentCache(): Promise<void> {
+  if (persistentCache.saveTimer) {
+    cancelScheduledSave();
+    await savePersistentCache();
+  }
+  if (persistentCache.pendingSave) {
+    await persistentCache.pendingSave;
+  }
+}
+
+/**
+ * Delete the on-disk cache and clear every in-memory cache it feeds, so the
+ * next parse starts from scratch.
+ */
+export async function purgePersistentCache(): Promise<void> {
+  cancelScheduledSave();
+  if (persistentCache.pendingSave) {
+    await persistentCache.pendingSave;
+  }
+
+  await fs.rm(getPersistentCachePath(), { force: true });
+  await fs.rm(getPersistentSessionsDir(), { recursive: true, force: true });
+  persistentCache.writtenSessions.clear();
+
+  sessionAggregateCache.clear();
+  sessionSummaryCache.clear();
+  sessionMetadataIndex.clear();
+  resetProcessLogIndex();
+  sessionCache.lastCheck = 0;
+  sessionCache.lastResult = [];
+  persistentCache.loaded = false;
+}
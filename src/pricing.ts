@@ -0,0 +1,232 @@
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import { sessionAggregateCache } from './cache.ts';
+import type { CostEstimate, ModelPricing, RowPricing } from './types.ts';
+import { getReasoningTokens } from './utils.ts';
+
+/** Plugin config key holding a JSON object of pricing overrides keyed by model ID or prefix. */
+export const PRICING_OVERRIDES_CONFIG_KEY = 'pricingOverrides';
+
+/** Plugin config key holding the USD price of one premium request. */
+export const PREMIUM_REQUEST_PRICE_CONFIG_KEY = 'premiumRequestPrice';
+
+/** Overage price of one Copilot premium request. */
+export const DEFAULT_PREMIUM_REQUEST_PRICE_USD = 0.04;
+
+/**
+ * Premium-request multipliers by model ID or family prefix. A key matches a
+ * model ID equal to it or continuing with `-`, `.` or `:`; the longest
+ * matching key wins, so `gpt-5-mini` beats `gpt-5`.
+ */
+export const DEFAULT_MODEL_PRICING: Readonly<Record<string, ModelPricing>> = {
+  'gpt-4.1': { multiplier: 0 },
+  'gpt-4o': { multiplier: 0 },
+  'gpt-5-mini': { multiplier: 0 },
+  'gpt-5': { multiplier: 1 },
+  'o3': { multiplier: 1 },
+  'o3-mini': { multiplier: 0.33 },
+  'o4-mini': { multiplier: 0.33 },
+  'claude-haiku': { multiplier: 0.33 },
+  'claude-sonnet': { multiplier: 1 },
+  'claude-opus': { multiplier: 3 },
+  'claude-opus-4.1': { multiplier: 10 },
+  'claude-opus-4.5': { multiplier: 3 },
+  'claude-opus-4.6': { multiplier: 3 },
+  'gemini': { multiplier: 1 },
+  'gemini-2.0-flash': { multiplier: 0.25 },
+  'grok-code-fast': { multiplier: 0.25 },
+};
+
+interface PricingState {
+  table: Record<string, ModelPricing>;
+  premiumRequestPrice: number;
+  /** Stable string of the effective pricing, used to detect changes. */
+  fingerprint: string;
+}
+
+function buildPricingState(overrides: Record<string, ModelPricing>, premiumRequestPrice: number): PricingState {
+  const table = { ...DEFAULT_MODEL_PRICING, ...overrides };
+  return {
+    table,
+    premiumRequestPrice,
+    fingerprint: JSON.stringify([premiumRequestPrice, Object.entries(table).sort(([a], [b]) => a.localeCompare(b))]),
+  };
+}
+
+let pricing: PricingState = buildPricingState({}, DEFAULT_PREMIUM_REQUEST_PRICE_USD);
+
+const PRICE_FIELDS = [
+  'inputPerMillion',
+  'outputPerMillion',
+  'cacheReadPerMillion',
+  'cacheWritePerMillion',
+  'reasoningPerMillion',
+] as const;
+
+function parseModelPricing(value: unknown): ModelPricing | null {
+  if (!value || typeof value !== 'object') return null;
+
+  const candidate = value as Record<string, unknown>;
+  if (typeof candidate.multiplier !== 'number' || !Number.isFinite(candidate.multiplier) || candidate.multiplier < 0) {
+    return null;
+  }
+
+  const parsed: ModelPricing = { multiplier: candidate.multiplier };
+  for (const field of PRICE_FIELDS) {
+    const price = candidate[field];
+    if (typeof price === 'number' && Number.isFinite(price) && price >= 0) {
+      parsed[field] = price;
+    }
+  }
+  return parsed;
+}
+
+/**
+ * Parse the `pricingOverrides` config value — a JSON string or object mapping
+ * model IDs or prefixes to `{ multiplier, inputPerMillion?, ... }`.
+ * Invalid entries are dropped; an unparseable string yields no overrides.
+ */
+export function parsePricingOverrides(value: unknown): Record<string, ModelPricing> {
+  let raw: unknown = value;
+  if (typeof value === 'string') {
+    if (!value.trim()) return {};
+    try {
+      raw = JSON.parse(value) as unknown;
+    } catch {
+      return {};
+    }
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+
+  const overrides: Record<string, ModelPricing> = {};
+  for (const [modelKey, entry] of Object.entries(raw as Record<string, unknown>)) {
+    const parsed = parseModelPricing(entry);
+    if (parsed) {
+      overrides[modelKey] = parsed;
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Apply pricing plugin config. Returns true when the effective pricing changed,
+ * so callers can rebuild rows priced with the previous table.
+ */
+export function configurePricing(config: Record<string, unknown> | undefined): boolean {
+  const overrides = parsePricingOverrides(config?.[PRICING_OVERRIDES_CONFIG_KEY]);
+  const configuredPrice = config?.[PREMIUM_REQUEST_PRICE_CONFIG_KEY];
+  const premiumRequestPrice = typeof configuredPrice === 'number' && Number.isFinite(configuredPrice) && configuredPrice >= 0
+    ? configuredPrice
+    : DEFAULT_PREMIUM_REQUEST_PRICE_USD;
+
+  const next = buildPricingState(overrides, premiumRequestPrice);
+  if (next.fingerprint === pricing.fingerprint) return false;
+
+  pricing = next;
+  return true;
+}
+
+export function getPricingFingerprint(): string {
+  return pricing.fingerprint;
+}
+
+/**
+ * Find the pricing entry for a model ID, matching the longest key that equals
+ * the ID or is followed by `-`, `.` or `:`. Matching is case-insensitive.
+ */
+export function resolveModelPricing(modelId: string): { key: string; pricing: ModelPricing } | null {
+  const normalized = modelId.toLowerCase();
+  let best: { key: string; pricing: ModelPricing } | null = null;
+
+  for (const [key, entry] of Object.entries(pricing.table)) {
+    const normalizedKey = key.toLowerCase();
+    const matches = normalized === normalizedKey
+      || (normalized.startsWith(normalizedKey) && '-.:'.includes(normalized.charAt(normalizedKey.length)));
+    if (matches && (!best || key.length > best.key.length)) {
+      best = { key, pricing: entry };
+    }
+  }
+
+  return best;
+}
+
+function perMillion(tokens: number | undefined, price: number | undefined): number {
+  if (!tokens || price === undefined) return 0;
+  return (tokens * price) / 1_000_000;
+}
+
+/**
+ * Price a session's rows in place. Copilot bills one premium request per user
+ * prompt, so only the first assistant message of each interaction
+ * (`metadata.interactionId`) is billed; rows without an interaction are each
+ * billed. Rows for models with no pricing entry are left without `cost`.
+ */
+export function applyPricing(rows: SessionUsageData[]): void {
+  const ordered = [...rows].sort((a, b) => a.timestamp - b.timestamp);
+  const billedInteractions = new Set<string>();
+
+  for (const row of ordered) {
+    const interactionId = typeof row.metadata?.interactionId === 'string' ? row.metadata.interactionId : undefined;
+
+    const billed = interactionId === undefined || !billedInteractions.has(interactionId);
+    if (interactionId !== undefined) {
+      billedInteractions.add(interactionId);
+    }
+
+    const resolved = resolveModelPricing(row.modelId);
+    if (!resolved) continue;
+
+    const premiumRequests = billed ? resolved.pricing.multiplier : 0;
+    // Reasoning is part of the output but has its own price
+    const reasoning = Math.min(getReasoningTokens(row), row.tokens.output);
+    const tokenCost = perMillion(row.tokens.input, resolved.pricing.inputPerMillion)
+      + perMillion(row.tokens.output - reasoning, resolved.pricing.outputPerMillion)
+      + perMillion(row.tokens.cacheRead, resolved.pricing.cacheReadPerMillion)
+      + perMillion(row.tokens.cacheWrite, resolved.pricing.cacheWritePerMillion)
+      + perMillion(reasoning, resolved.pricing.reasoningPerMillion ?? resolved.pricing.outputPerMillion);
+
+    row.cost = premiumRequests * pricing.premiumRequestPrice + tokenCost;
+    const rowPricing: RowPricing = {
+      premiumRequests,
+      multiplier: resolved.pricing.multiplier,
+      pricingKey: resolved.key,
+    };
+    row.metadata = { ...row.metadata, pricing: rowPricing };
+  }
+}
+
+/**
+ * Sum premium requests and cost across rows, overall and per model.
+ * Rows without pricing count toward `unpricedRows` only.
+ */
+export function summarizeCost(rows: Iterable<SessionUsageData>): CostEstimate {
+  const estimate: CostEstimate = { premiumRequests: 0, cost: 0, unpricedRows: 0, byModel: {} };
+
+  for (const row of rows) {
+    const premiumRequests = (row.metadata?.pricing as RowPricing | undefined)?.premiumRequests;
+    if (row.cost === undefined || typeof premiumRequests !== 'number') {
+      estimate.unpricedRows++;
+      continue;
+    }
+
+    estimate.premiumRequests += premiumRequests;
+    estimate.cost += row.cost;
+
+    const modelEstimate = estimate.byModel[row.modelId] ?? { premiumRequests: 0, cost: 0 };
+    modelEstimate.premiumRequests += premiumRequests;
+    modelEstimate.cost += row.cost;
+    estimate.byModel[row.modelId] = modelEstimate;
+  }
+
+  return estimate;
+}
+
+/**
+ * Estimated premium requests and cost for a whole session, from the most
+ * recent parse. Returns null when the session has not been parsed yet.
+ */
+export function getSessionCostEstimate(sessionId: string): CostEstimate | null {
+  const entry = sessionAggregateCache.get(sessionId);
+  if (!entry) return null;
+
+  return summarizeCost(entry.usageRows);
+}
@@ -0,0 +1,275 @@
+import type { PluginLogger } from '@tokentop/plugin-sdk';
+import { sessionAggregateCache } from './cache.ts';
+import type {
+  EventSchema,
+  SchemaDiagnosticsReport,
+  SchemaFieldSpec,
+  SchemaFieldType,
+  SchemaIssue,
+  SchemaIssueKind,
+  SessionProducerInfo,
+  SessionSchemaState,
+} from './types.ts';
+
+/** Schema versions (session.start `data.version`) the registry describes. */
+export const MIN_SCHEMA_VERSION = 1;
+export const MAX_SCHEMA_VERSION = 1;
+
+const OPTIONAL_STRING: SchemaFieldSpec = { types: ['string'] };
+const REQUIRED_STRING: SchemaFieldSpec = { types: ['string'], required: true };
+
+function v1(fields: Record<string, SchemaFieldSpec>): EventSchema {
+  return { minVersion: MIN_SCHEMA_VERSION, maxVersion: MAX_SCHEMA_VERSION, fields };
+}
+
+/**
+ * Expected `data` shape of every event type the plugin knows, per schema
+ * version. Types listed with no fields are known but not read. Only fields
+ * the parser relies on (or that flag a format change) are checked; extra
+ * fields are fine.
+ */
+export const EVENT_SCHEMAS: Readonly<Record<string, ReadonlyArray<EventSchema>>> = {
+  'session.start': [v1({
+    sessionId: REQUIRED_STRING,
+    version: { types: ['number'], required: true },
+    producer: OPTIONAL_STRING,
+    copilotVersion: OPTIONAL_STRING,
+    startTime: OPTIONAL_STRING,
+    context: { types: ['object'] },
+  })],
+  'session.model_change': [v1({
+    newModel: REQUIRED_STRING,
+    previousModel: OPTIONAL_STRING,
+  })],
+  'user.message': [v1({
+    content: REQUIRED_STRING,
+    interactionId: REQUIRED_STRING,
+    transformedContent: OPTIONAL_STRING,
+    attachments: { types: ['array'] },
+  })],
+  'assistant.turn_start': [v1({
+    turnId: REQUIRED_STRING,
+    interactionId: REQUIRED_STRING,
+  })],
+  'assistant.turn_end': [v1({
+    turnId: REQUIRED_STRING,
+  })],
+  'assistant.message': [v1({
+    messageId: REQUIRED_STRING,
+    content: REQUIRED_STRING,
+    interactionId: OPTIONAL_STRING,
+    toolRequests: { types: ['array'] },
+    usage: { types: ['object'] },
+    model: OPTIONAL_STRING,
+    reasoningText: OPTIONAL_STRING,
+    reasoningOpaque: OPTIONAL_STRING,
+  })],
+  'tool.execution_start': [v1({
+    toolCallId: REQUIRED_STRING,
+    toolName: OPTIONAL_STRING,
+    mcpServerName: OPTIONAL_STRING,
+  })],
+  'tool.execution_complete': [v1({
+    toolCallId: REQUIRED_STRING,
+    success: { types: ['boolean'] },
+    model: OPTIONAL_STRING,
+    interactionId: OPTIONAL_STRING,
+  })],
+  // Ephemeral in current CLI versions — read when persisted; usage fields vary by provider
+  'assistant.usage': [v1({
+    messageId: OPTIONAL_STRING,
+    model: OPTIONAL_STRING,
+  })],
+  'session.shutdown': [v1({})],
+};
+
+export function createSessionSchemaState(): SessionSchemaState {
+  return { producer: null, issues: new Map() };
+}
+
+export function getSchemaIssueKey(issue: Pick<SchemaIssue, 'kind' | 'eventType' | 'field' | 'actual'>): string {
+  return [issue.kind, issue.eventType, issue.field ?? '', issue.actual ?? ''].join('|');
+}
+
+function getValueType(value: unknown): SchemaFieldType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  if (type === 'string' || type === 'number' || type === 'boolean' || type === 'object') return type;
+  return 'undefined';
+}
+
+function recordIssue(
+  schema: SessionSchemaState,
+  timestamp: string,
+  kind: SchemaIssueKind,
+  eventType: string,
+  details?: { field?: string; expected?: string; actual?: string },
+): void {
+  const issue = { kind, eventType, ...details };
+  const key = getSchemaIssueKey(issue);
+  const existing = schema.issues.get(key);
+  if (existing) {
+    existing.count++;
+  } else {
+    schema.issues.set(key, { ...issue, count: 1, firstSeen: timestamp });
+  }
+}
+
+/**
+ * Pick the schema for an event type under the session's schema version.
+ * Sessions without a known version are checked against the newest schema.
+ */
+export function resolveEventSchema(eventType: string, version: number | undefined): EventSchema | null {
+  const schemas = EVENT_SCHEMAS[eventType];
+  if (!schemas || schemas.length === 0) return null;
+
+  if (version !== undefined) {
+    const match = schemas.find((schema) => version >= schema.minVersion && version <= schema.maxVersion);
+    if (match) return match;
+  }
+  return schemas.reduce((latest, schema) => (schema.maxVersion > latest.maxVersion ? schema : latest));
+}
+
+function readProducerInfo(data: Record<string, unknown>): SessionProducerInfo {
+  const producer: SessionProducerInfo = {};
+  if (typeof data.version === 'number') producer.version = data.version;
+  if (typeof data.producer === 'string' && data.producer) producer.producer = data.producer;
+  if (typeof data.copilotVersion === 'string' && data.copilotVersion) producer.copilotVersion = data.copilotVersion;
+  return producer;
+}
+
+/**
+ * Check one raw event against the registry and count what does not match:
+ * unknown event types, a malformed envelope, missing required fields and
+ * fields of an unexpected type. A session.start also records the producer,
+ * whose schema version selects the schemas for the events that follow.
+ */
+export function validateEvent(schema: SessionSchemaState, event: unknown): void {
+  if (!event || typeof event !== 'object' || Array.isArray(event)) {
+    recordIssue(schema, '', 'malformed_event', '(none)', { actual: getValueType(event) });
+    return;
+  }
+
+  const candidate = event as Record<string, unknown>;
+  const timestamp = typeof candidate.timestamp === 'string' ? candidate.timestamp : '';
+  if (typeof candidate.type !== 'string' || candidate.type.length === 0) {
+    recordIssue(schema, timestamp, 'malformed_event', '(none)', { field: 'type', expected: 'string', actual: getValueType(candidate.type) });
+    return;
+  }
+
+  const eventType = candidate.type;
+  for (const field of ['id', 'timestamp'] as const) {
+    if (typeof candidate[field] !== 'string') {
+      recordIssue(schema, timestamp, 'malformed_event', eventType, { field, expected: 'string', actual: getValueType(candidate[field]) });
+    }
+  }
+
+  const data = candidate.data;
+  const dataType = getValueType(data);
+  if (dataType !== 'object') {
+    recordIssue(schema, timestamp, 'malformed_event', eventType, { field: 'data', expected: 'object', actual: dataType });
+    return;
+  }
+  const fields = data as Record<string, unknown>;
+
+  if (eventType === 'session.start') {
+    schema.producer = readProducerInfo(fields);
+    const { version } = schema.producer;
+    if (version !== undefined && (version < MIN_SCHEMA_VERSION || version > MAX_SCHEMA_VERSION)) {
+      recordIssue(schema, timestamp, 'unsupported_version', eventType, { field: 'version', actual: String(version) });
+    }
+  }
+
+  const eventSchema = resolveEventSchema(eventType, schema.producer?.version);
+  if (!eventSchema) {
+    recordIssue(schema, timestamp, 'unknown_event_type', eventType);
+    return;
+  }
+
+  for (const [field, spec] of Object.entries(eventSchema.fields)) {
+    const actual = getValueType(fields[field]);
+    if (actual === 'undefined') {
+      if (spec.required) {
+        recordIssue(schema, timestamp, 'missing_field', eventType, { field, expected: spec.types.join('|') });
+      }
+    } else if (!spec.types.includes(actual)) {
+      recordIssue(schema, timestamp, 'unexpected_type', eventType, { field, expected: spec.types.join('|'), actual });
+    }
+  }
+}
+
+/** Issue keys already logged by this process — each is logged once. */
+const reportedIssueKeys = new Set<string>();
+
+/**
+ * Log schema issues not yet reported by this process through the plugin
+ * logger, so a Copilot CLI format change shows up on the first parse.
+ */
+export function reportSchemaDrift(logger: PluginLogger, sessionId: string, schema: SessionSchemaState): void {
+  for (const [key, issue] of schema.issues) {
+    if (reportedIssueKeys.has(key)) continue;
+    reportedIssueKeys.add(key);
+
+    logger.warn('Copilot CLI: event schema drift', {
+      sessionId,
+      ...issue,
+      ...(schema.producer?.copilotVersion ? { copilotVersion: schema.producer.copilotVersion } : {}),
+    });
+  }
+}
+
+/** Forget which issues were logged — the next parse reports them again. */
+export function resetSchemaDriftReports(): void {
+  reportedIssueKeys.clear();
+}
+
+/**
+ * Schema issues for one session, from the most recent parse. Returns null
+ * when the session has not been parsed yet.
+ */
+export function getSessionSchemaDiagnostics(
+  sessionId: string,
+): { producer: SessionProducerInfo | null; issues: SchemaIssue[] } | null {
+  const parseState = sessionAggregateCache.get(sessionId)?.parseState;
+  if (!parseState) return null;
+
+  return {
+    producer: parseState.schema.producer,
+    issues: Array.from(parseState.schema.issues.values(), (issue) => ({ ...issue })),
+  };
+}
+
+/**
+ * Schema drift across every parsed session: Copilot CLI versions seen and
+ * each issue's total count and number of affected sessions.
+ */
+export function getSchemaDiagnostics(): SchemaDiagnosticsReport {
+  const report: SchemaDiagnosticsReport = { sessionsChecked: 0, copilotVersions: {}, issues: [] };
+  const issues = new Map<string, SchemaIssue & { sessions: number }>();
+
+  for (const entry of sessionAggregateCache.values()) {
+    const schema = entry.parseState?.schema;
+    if (!schema) continue;
+
+    report.sessionsChecked++;
+    const copilotVersion = schema.producer?.copilotVersion ?? 'unknown';
+    report.copilotVersions[copilotVersion] = (report.copilotVersions[copilotVersion] ?? 0) + 1;
+
+    for (const [key, issue] of schema.issues) {
+      const total = issues.get(key);
+      if (total) {
+        total.count += issue.count;
+        total.sessions++;
+        if (issue.firstSeen && (!total.firstSeen || issue.firstSeen < total.firstSeen)) {
+          total.firstSeen = issue.firstSeen;
+        }
+      } else {
+        issues.set(key, { ...issue, sessions: 1 });
+      }
+    }
+  }
+
+  report.issues = Array.from(issues.values()).sort((a, b) => b.count - a.count);
+  return report;
+}
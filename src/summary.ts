@@ -0,0 +1,156 @@
+import * as path from 'path';
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import { sessionAggregateCache, sessionSummaryCache } from './cache.ts';
+import type {
+  CopilotCliWorkspaceInfo,
+  SessionAggregateCacheEntry,
+  SessionModelTotals,
+  SessionParseState,
+  SessionSummary,
+  TokenTotals,
+} from './types.ts';
+import { getReasoningTokens, readWorkspaceYaml, resolveGitContext, toTimestamp } from './utils.ts';
+
+function createTokenTotals(): TokenTotals {
+  return { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, reasoning: 0, total: 0 };
+}
+
+function addRowTokens(totals: TokenTotals, row: SessionUsageData): void {
+  totals.input += row.tokens.input;
+  totals.output += row.tokens.output;
+  totals.cacheRead += row.tokens.cacheRead ?? 0;
+  totals.cacheWrite += row.tokens.cacheWrite ?? 0;
+  totals.reasoning += getReasoningTokens(row);
+  totals.total = totals.input + totals.output + totals.cacheRead + totals.cacheWrite;
+}
+
+/**
+ * Earliest and latest timestamp over every event and row of the session.
+ */
+function getSessionTimeRange(
+  state: SessionParseState,
+  rows: ReadonlyArray<SessionUsageData>,
+): { startedAt: number | null; endedAt: number | null } {
+  let startedAt: number | null = null;
+  let endedAt: number | null = null;
+  const include = (timestamp: number): void => {
+    if (timestamp <= 0) return;
+    if (startedAt === null || timestamp < startedAt) startedAt = timestamp;
+    if (endedAt === null || timestamp > endedAt) endedAt = timestamp;
+  };
+
+  for (const node of state.events.values()) {
+    include(toTimestamp(node.timestamp, 0));
+  }
+  for (const row of rows) {
+    include(row.timestamp);
+  }
+
+  return { startedAt, endedAt };
+}
+
+/**
+ * Build a session's summary from its parse state, its rows and its
+ * workspace.yaml. Token totals and cost come from the rows, so they match
+ * what `parseSessions` reports.
+ */
+export function summarizeSession(
+  sessionId: string,
+  entry: Pick<SessionAggregateCacheEntry, 'updatedAt' | 'usageRows'> & { parseState: SessionParseState },
+  workspace: CopilotCliWorkspaceInfo | null,
+): SessionSummary {
+  const { parseState: state, usageRows: rows } = entry;
+  const { startedAt, endedAt } = getSessionTimeRange(state, rows);
+
+  const summary: SessionSummary = {
+    sessionId,
+    updatedAt: entry.updatedAt,
+    startedAt,
+    endedAt,
+    durationMs: startedAt !== null && endedAt !== null ? endedAt - startedAt : 0,
+    messageCount: rows.length,
+    turnCount: state.turnTracker.turns.size,
+    interactionCount: state.userMessages.size,
+    tokens: createTokenTotals(),
+    cost: 0,
+    byModel: [],
+    tokenSplit: { realMessages: 0, estimatedMessages: 0, real: createTokenTotals(), estimated: createTokenTotals() },
+    summaryCount: workspace?.summary_count ?? 0,
+  };
+
+  const byModel = new Map<string, SessionModelTotals>();
+  for (const row of rows) {
+    addRowTokens(summary.tokens, row);
+    summary.cost += row.cost ?? 0;
+
+    let model = byModel.get(row.modelId);
+    if (!model) {
+      model = { modelId: row.modelId, messages: 0, tokens: createTokenTotals(), cost: 0 };
+      byModel.set(row.modelId, model);
+    }
+    model.messages++;
+    addRowTokens(model.tokens, row);
+    model.cost += row.cost ?? 0;
+
+    if (row.metadata?.isEstimated === true) {
+      summary.tokenSplit.estimatedMessages++;
+      addRowTokens(summary.tokenSplit.estimated, row);
+    } else {
+      summary.tokenSplit.realMessages++;
+      addRowTokens(summary.tokenSplit.real, row);
+    }
+  }
+  summary.byModel = Array.from(byModel.values())
+    .sort((a, b) => b.cost - a.cost || b.tokens.total - a.tokens.total);
+
+  const projectPath = workspace?.cwd || state.sessionContext?.cwd;
+  if (projectPath) summary.projectPath = projectPath;
+  const title = workspace?.summary?.trim();
+  if (title) summary.summary = title;
+  Object.assign(summary, resolveGitContext(workspace, state.sessionContext));
+
+  return summary;
+}
+
+/**
+ * Rebuild the cached summary of a just-parsed session unless it was already
+ * built from the same parse. Reads the session's workspace.yaml.
+ */
+export async function refreshSessionSummary(
+  sessionId: string,
+  dirPath: string,
+  entry: SessionAggregateCacheEntry,
+): Promise<void> {
+  const { parseState } = entry;
+  if (!parseState) {
+    sessionSummaryCache.delete(sessionId);
+    return;
+  }
+  if (sessionSummaryCache.get(sessionId)?.updatedAt === entry.updatedAt) return;
+
+  const workspace = await readWorkspaceYaml(path.join(dirPath, 'workspace.yaml'));
+  sessionSummaryCache.set(sessionId, summarizeSession(sessionId, { ...entry, parseState }, workspace));
+}
+
+function isCurrent(sessionId: string, summary: SessionSummary): boolean {
+  return sessionAggregateCache.get(sessionId)?.updatedAt === summary.updatedAt;
+}
+
+/**
+ * A session's summary from the most recent parse. Returns null when the
+ * session has not been parsed since it last changed.
+ */
+export function getSessionSummary(sessionId: string): SessionSummary | null {
+  const summary = sessionSummaryCache.get(sessionId);
+  return summary && isCurrent(sessionId, summary) ? summary : null;
+}
+
+/**
+ * Summaries of every parsed session, most recently active first.
+ */
+export function listSessionSummaries(): SessionSummary[] {
+  return Array.from(sessionSummaryCache)
+    .filter(([sessionId, summary]) => isCurrent(sessionId, summary))
+    .map(([, summary]) => summary)
+    .sort((a, b) => (b.endedAt ?? 0) - (a.endedAt ?? 0));
+}
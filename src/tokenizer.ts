@@ -0,0 +1,228 @@
+import { createRequire } from 'module';
+import { sessionAggregateCache } from './cache.ts';
+import type {
+  ModelFamily,
+  TokenCounts,
+  Tokenizer,
+  TokenizerAccuracy,
+  TokenizerAccuracyReport,
+} from './types.ts';
+
+/**
+ * The ~4 characters per token rule — used when a model's family is unknown,
+ * or its encoding cannot be loaded.
+ */
+export const HEURISTIC_TOKENIZER: Tokenizer = {
+  name: 'heuristic',
+  countTokens: (text) => (text ? Math.ceil(text.length / 4) : 0),
+};
+
+/**
+ * Bundled BPE encodings per model family:
+ *
+ * - GPT: OpenAI's `o200k_base` (GPT-4o, GPT-5, o-series and codex models)
+ * - Claude: the encoding Anthropic published for Claude models. Claude 3 and
+ *   later use an unpublished one, so counts for them are close but not exact
+ * - Gemini: the Gemma SentencePiece vocabulary Gemini models share
+ *
+ * Each is loaded on first use — the Gemini vocabulary alone takes seconds —
+ * hence `require` rather than imports.
+ */
+const require = createRequire(import.meta.url);
+
+const ENCODINGS: Readonly<Record<ModelFamily, { name: string; load(): (text: string) => number }>> = {
+  gpt: {
+    name: 'o200k_base',
+    load() {
+      const { Tiktoken } = require('js-tiktoken/lite') as typeof import('js-tiktoken/lite');
+      const encoder = new Tiktoken(require('js-tiktoken/ranks/o200k_base') as typeof import('js-tiktoken/ranks/o200k_base').default);
+      // Special-token markers in content are plain text to the API
+      return (text) => encoder.encode(text, [], []).length;
+    },
+  },
+  claude: {
+    name: 'claude',
+    load() {
+      const encoder = (require('@anthropic-ai/tokenizer') as typeof import('@anthropic-ai/tokenizer')).getTokenizer();
+      // As the package's own countTokens
+      return (text) => encoder.encode(text.normalize('NFKC'), 'all').length;
+    },
+  },
+  gemini: {
+    name: 'gemma',
+    load() {
+      const encoder = (require('@lenml/tokenizer-gemini') as typeof import('@lenml/tokenizer-gemini')).fromPreTrained();
+      return (text) => encoder.encode(text, { add_special_tokens: false }).length;
+    },
+  },
+};
+
+const tokenizers = new Map<ModelFamily, Tokenizer>();
+
+function createEncodingTokenizer(family: ModelFamily): Tokenizer {
+  const encoding = ENCODINGS[family];
+  let count: ((text: string) => number) | null = null;
+  return {
+    name: encoding.name,
+    countTokens(text) {
+      if (!text) return 0;
+      if (!count) {
+        try {
+          count = encoding.load();
+        } catch {
+          // Encoding package missing or broken: the family falls back to the heuristic
+          tokenizers.set(family, HEURISTIC_TOKENIZER);
+          count = HEURISTIC_TOKENIZER.countTokens;
+        }
+      }
+      return count(text);
+    },
+  };
+}
+
+const bundledTokenizers = new Map(
+  (Object.keys(ENCODINGS) as ModelFamily[]).map((family) => [family, createEncodingTokenizer(family)]),
+);
+
+/**
+ * Restore the bundled family encodings, dropping any registered tokenizers.
+ */
+export function resetTokenizers(): void {
+  tokenizers.clear();
+  for (const [family, tokenizer] of bundledTokenizers) {
+    tokenizers.set(family, tokenizer);
+  }
+}
+
+resetTokenizers();
+
+/**
+ * Use `tokenizer` for every model of `family` in place of its bundled
+ * encoding. Register before sessions are parsed: estimates already cached are
+ * not recounted.
+ */
+export function registerTokenizer(family: ModelFamily, tokenizer: Tokenizer): void {
+  tokenizers.set(family, tokenizer);
+}
+
+/**
+ * Model family from a model ID: `gpt-*`, `o1`/`o3`/`o4-*` and `codex` models
+ * are GPT; `claude-*` and `gemini-*` their own families. Null otherwise.
+ */
+export function getModelFamily(modelId: string): ModelFamily | null {
+  const normalized = modelId.toLowerCase();
+  if (normalized.startsWith('gpt') || /^o\d/.test(normalized) || normalized.includes('codex')) return 'gpt';
+  if (normalized.startsWith('claude')) return 'claude';
+  if (normalized.startsWith('gemini')) return 'gemini';
+  return null;
+}
+
+/**
+ * Tokenizer for a model: its family's tokenizer, or the 4-characters rule
+ * when the model is unknown or has no family.
+ */
+export function getTokenizer(modelId?: string): Tokenizer {
+  const family = modelId ? getModelFamily(modelId) : null;
+  return (family && tokenizers.get(family)) || HEURISTIC_TOKENIZER;
+}
+
+/**
+ * Count `text` with every family's tokenizer and the heuristic, so the
+ * tokenizer can be chosen once the message's model is resolved.
+ */
+export function countTokensByFamily(text: string): TokenCounts {
+  const counts: TokenCounts = { default: HEURISTIC_TOKENIZER.countTokens(text) };
+  for (const [family, tokenizer] of tokenizers) {
+    counts[family] = tokenizer.countTokens(text);
+  }
+  return counts;
+}
+
+/**
+ * The count from `modelId`'s tokenizer, or the heuristic's when the model has
+ * no family or its family was not counted.
+ */
+export function getTokenCount(counts: TokenCounts, modelId?: string): number {
+  const family = modelId ? getModelFamily(modelId) : null;
+  return (family ? counts[family] : undefined) ?? counts.default ?? 0;
+}
+
+interface AccuracyTotals {
+  samples: number;
+  realTokens: number;
+  estimatedTokens: number;
+  absolutePercentError: number;
+}
+
+function createAccuracyTotals(): AccuracyTotals {
+  return { samples: 0, realTokens: 0, estimatedTokens: 0, absolutePercentError: 0 };
+}
+
+function addAccuracySample(totals: AccuracyTotals, real: number, estimated: number): void {
+  totals.samples++;
+  totals.realTokens += real;
+  totals.estimatedTokens += estimated;
+  totals.absolutePercentError += Math.abs(estimated - real) / real;
+}
+
+function toAccuracy(tokenizer: string, totals: AccuracyTotals): TokenizerAccuracy {
+  return {
+    tokenizer,
+    samples: totals.samples,
+    realTokens: totals.realTokens,
+    estimatedTokens: totals.estimatedTokens,
+    meanAbsolutePercentError: Math.round((totals.absolutePercentError / totals.samples) * 10_000) / 10_000,
+    bias: Math.round((totals.estimatedTokens / totals.realTokens - 1) * 10_000) / 10_000,
+  };
+}
+
+/**
+ * Compare content estimates with the real output tokens of every parsed
+ * message that has real usage, less its reported reasoning. Each message is
+ * measured with the tokenizer of the model its row resolved to. Messages that
+ * requested tools, or that reasoned without usage saying how much, are left
+ * out — their output is more than the content that was counted.
+ */
+export function getTokenizerAccuracy(): TokenizerAccuracyReport {
+  const byTokenizer = new Map<string, AccuracyTotals>();
+  const heuristic = createAccuracyTotals();
+
+  for (const entry of sessionAggregateCache.values()) {
+    const state = entry.parseState;
+    if (!state) continue;
+
+    // The row built from a message holds its fully resolved model
+    const rowModels = new Map<string, string>();
+    for (const row of entry.usageRows) {
+      const eventId = row.metadata?.eventId;
+      if (typeof eventId === 'string') {
+        rowModels.set(eventId, row.modelId);
+      }
+    }
+
+    for (const message of state.messages.values()) {
+      const real = message.usage ? message.usage.output - message.usage.reasoning : 0;
+      if (real <= 0 || message.toolCallIds?.length) continue;
+      if (message.reasoningTokens && message.usage!.reasoning === 0) continue;
+
+      const modelId = message.eventId ? rowModels.get(message.eventId) : undefined;
+      if (!modelId) continue;
+
+      const tokenizer = getTokenizer(modelId).name;
+      let totals = byTokenizer.get(tokenizer);
+      if (!totals) {
+        totals = createAccuracyTotals();
+        byTokenizer.set(tokenizer, totals);
+      }
+      addAccuracySample(totals, real, getTokenCount(message.contentTokens, modelId));
+      addAccuracySample(heuristic, real, Math.ceil(message.contentChars / 4));
+    }
+  }
+
+  return {
+    samples: heuristic.samples,
+    byTokenizer: Array.from(byTokenizer, ([tokenizer, totals]) => toAccuracy(tokenizer, totals))
+      .sort((a, b) => b.samples - a.samples),
+    heuristic: heuristic.samples > 0 ? toAccuracy(HEURISTIC_TOKENIZER.name, heuristic) : null,
+  };
+}
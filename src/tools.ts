@@ -0,0 +1,72 @@
+import { sessionAggregateCache } from './cache.ts';
+import type { ToolCallRecord, ToolUsageStats, ToolUsageSummary } from './types.ts';
+
+/** Name used for calls whose request event was never seen. */
+export const UNKNOWN_TOOL_NAME = 'unknown';
+
+/**
+ * Look up a tool call by ID, creating an empty record on first sight.
+ * Events for one call can arrive in any order across a resumed session.
+ */
+export function getOrCreateToolCall(toolCalls: Map<string, ToolCallRecord>, toolCallId: string): ToolCallRecord {
+  let record = toolCalls.get(toolCallId);
+  if (!record) {
+    record = { toolCallId, toolName: UNKNOWN_TOOL_NAME };
+    toolCalls.set(toolCallId, record);
+  }
+  return record;
+}
+
+/**
+ * Wall-clock duration of a completed call: from execution start when known,
+ * otherwise from the requesting message. Null while the call is pending.
+ */
+export function getToolCallDurationMs(record: ToolCallRecord): number | null {
+  if (record.completedAt === undefined) return null;
+
+  const begin = record.startedAt ?? record.requestedAt;
+  if (begin === undefined) return null;
+
+  return Math.max(0, record.completedAt - begin);
+}
+
+function createToolUsageStats(): ToolUsageStats {
+  return { calls: 0, succeeded: 0, failed: 0, pending: 0, totalDurationMs: 0 };
+}
+
+function addToolCall(stats: ToolUsageStats, record: ToolCallRecord): void {
+  stats.calls++;
+  if (record.success === true) stats.succeeded++;
+  else if (record.success === false) stats.failed++;
+  else stats.pending++;
+
+  stats.totalDurationMs += getToolCallDurationMs(record) ?? 0;
+}
+
+/**
+ * Aggregate tool calls into overall and per-tool counts, outcomes and durations.
+ */
+export function summarizeToolCalls(records: Iterable<ToolCallRecord>): ToolUsageSummary {
+  const summary: ToolUsageSummary = { ...createToolUsageStats(), byTool: {} };
+
+  for (const record of records) {
+    addToolCall(summary, record);
+
+    const toolStats = summary.byTool[record.toolName] ?? createToolUsageStats();
+    addToolCall(toolStats, record);
+    summary.byTool[record.toolName] = toolStats;
+  }
+
+  return summary;
+}
+
+/**
+ * Tool usage for a whole session, from the most recent parse.
+ * Returns null when the session has not been parsed yet.
+ */
+export function getSessionToolUsage(sessionId: string): ToolUsageSummary | null {
+  const parseState = sessionAggregateCache.get(sessionId)?.parseState;
+  if (!parseState) return null;
+
+  return summarizeToolCalls(parseState.toolCalls.values());
+}
@@ -0,0 +1,114 @@
+import type { TurnMetrics, TurnRecord, TurnTracker } from './types.ts';
+
+export function createTurnTracker(): TurnTracker {
+  return { turns: new Map(), openTurnKey: null };
+}
+
+/**
+ * Turn IDs restart for every interaction, so a turn is identified by both.
+ */
+export function getTurnKey(interactionId: string, turnId: string): string {
+  return `${interactionId}:${turnId}`;
+}
+
+/**
+ * Open a turn. A previous turn left open (no turn_end) stays unended.
+ */
+export function recordTurnStart(
+  tracker: TurnTracker,
+  turnId: string,
+  interactionId: string,
+  timestamp: number,
+): TurnRecord {
+  const key = getTurnKey(interactionId, turnId);
+  let turn = tracker.turns.get(key);
+  if (!turn) {
+    turn = { turnId, interactionId, startedAt: timestamp, messageIds: [], toolCallIds: [] };
+    tracker.turns.set(key, turn);
+  }
+
+  tracker.openTurnKey = key;
+  return turn;
+}
+
+/**
+ * Close the open turn with this turnId. turn_end carries no interactionId, so
+ * a mismatch with the open turn falls back to the latest unended turn with
+ * the same turnId.
+ */
+export function recordTurnEnd(tracker: TurnTracker, turnId: string, timestamp: number): TurnRecord | null {
+  let key: string | null = null;
+
+  const openTurn = tracker.openTurnKey ? tracker.turns.get(tracker.openTurnKey) : undefined;
+  if (openTurn && openTurn.turnId === turnId) {
+    key = tracker.openTurnKey;
+  } else {
+    for (const [candidateKey, candidate] of tracker.turns) {
+      if (candidate.turnId === turnId && candidate.endedAt === undefined) {
+        key = candidateKey;
+      }
+    }
+  }
+
+  if (!key) return null;
+
+  const turn = tracker.turns.get(key)!;
+  turn.endedAt = timestamp;
+  if (tracker.openTurnKey === key) {
+    tracker.openTurnKey = null;
+  }
+  return turn;
+}
+
+/**
+ * Attribute an assistant message (and the tool calls it requested) to the
+ * open turn. Messages from a different interaction are not attributed.
+ * Returns the turn key, or null when no turn is open.
+ */
+export function recordTurnMessage(
+  tracker: TurnTracker,
+  messageId: string,
+  interactionId: string | undefined,
+  timestamp: number,
+  toolCallIds: ReadonlyArray<string>,
+): string | null {
+  const key = tracker.openTurnKey;
+  if (!key) return null;
+
+  const turn = tracker.turns.get(key)!;
+  if (interactionId && interactionId !== turn.interactionId) return null;
+
+  if (!turn.messageIds.includes(messageId)) {
+    turn.messageIds.push(messageId);
+  }
+  for (const toolCallId of toolCallIds) {
+    if (!turn.toolCallIds.includes(toolCallId)) {
+      turn.toolCallIds.push(toolCallId);
+    }
+  }
+  if (turn.firstMessageAt === undefined || timestamp < turn.firstMessageAt) {
+    turn.firstMessageAt = timestamp;
+  }
+
+  return key;
+}
+
+export function getTurnMetrics(turn: TurnRecord): TurnMetrics {
+  const metrics: TurnMetrics = {
+    turnId: turn.turnId,
+    interactionId: turn.interactionId,
+    startedAt: turn.startedAt,
+    assistantMessages: turn.messageIds.length,
+    toolCalls: turn.toolCallIds.length,
+  };
+
+  if (turn.endedAt !== undefined) {
+    metrics.endedAt = turn.endedAt;
+    metrics.durationMs = Math.max(0, turn.endedAt - turn.startedAt);
+  }
+  if (turn.firstMessageAt !== undefined) {
+    metrics.timeToFirstMessageMs = Math.max(0, turn.firstMessageAt - turn.startedAt);
+  }
+
+  return metrics;
+}
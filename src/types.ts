@@ -1,4 +1,4 @@
-import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import type { ActivityUpdate, SessionUsageData } from '@tokentop/plugin-sdk';
 
 // ---------------------------------------------------------------------------
 // Event envelope — every line in events.jsonl has this shape
@@ -74,6 +74,24 @@ export interface CopilotCliUserMessageEvent {
   parentId: string | null;
 }
 
+// ---------------------------------------------------------------------------
+// assistant.usage — per-request usage, ephemeral in current CLI versions
+// ---------------------------------------------------------------------------
+
+export interface CopilotCliAssistantUsageData extends CopilotCliUsageData {
+  /** Message the usage belongs to, when the CLI links it. */
+  messageId?: string;
+  model?: string;
+}
+
+export interface CopilotCliAssistantUsageEvent {
+  type: 'assistant.usage';
+  data: CopilotCliAssistantUsageData;
+  id: string;
+  timestamp: string;
+  parentId: string | null;
+}
+
 // ---------------------------------------------------------------------------
 // assistant.turn_start / assistant.turn_end
 // ---------------------------------------------------------------------------
@@ -107,22 +125,47 @@ export interface CopilotCliTurnEndEvent {
 // assistant.message — the primary event carrying content
 // ---------------------------------------------------------------------------
 
+export interface CopilotCliToolRequest {
+  toolCallId: string;
+  name: string;
+  arguments?: unknown;
+  type?: string;
+}
+
+/**
+ * Token usage as providers report it. OpenAI-style (`prompt_tokens`, nested
+ * `*_details`), Anthropic-style (`input_tokens`, `cache_*_input_tokens`) and
+ * the CLI's own camelCase fields all occur; `normalizeUsage` reads any mix.
+ */
+export interface CopilotCliUsageData {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  /** OpenAI: cached part of `prompt_tokens`. */
+  cached_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+  input_tokens?: number;
+  output_tokens?: number;
+  /** Anthropic: reported separately from `input_tokens`. */
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  reasoningTokens?: number;
+}
+
 export interface CopilotCliAssistantMessageData {
   messageId: string;
   content: string;
-  toolRequests?: unknown[];
+  toolRequests?: CopilotCliToolRequest[];
   interactionId: string;
   reasoningOpaque?: string;
   reasoningText?: string;
-  /** Token usage — present in newer Copilot CLI versions. */
-  usage?: {
-    prompt_tokens?: number;
-    completion_tokens?: number;
-    cache_creation_input_tokens?: number;
-    cache_read_input_tokens?: number;
-    cached_tokens?: number;
-    total_tokens?: number;
-  };
+  /** Token usage — present in newer Copilot CLI versions. Read through `normalizeUsage`. */
+  usage?: CopilotCliUsageData;
   /** Model used for this response — present in newer versions. */
   model?: string;
 }
@@ -135,6 +178,42 @@ export interface CopilotCliAssistantMessageEvent {
   parentId: string | null;
 }
 
+// ---------------------------------------------------------------------------
+// tool.execution_start / tool.execution_complete
+// ---------------------------------------------------------------------------
+
+export interface CopilotCliToolExecutionStartData {
+  toolCallId: string;
+  toolName: string;
+  arguments?: unknown;
+  mcpServerName?: string;
+}
+
+export interface CopilotCliToolExecutionStartEvent {
+  type: 'tool.execution_start';
+  data: CopilotCliToolExecutionStartData;
+  id: string;
+  timestamp: string;
+  parentId: string | null;
+}
+
+export interface CopilotCliToolExecutionCompleteData {
+  toolCallId: string;
+  success?: boolean;
+  result?: unknown;
+  error?: unknown;
+  interactionId?: string;
+  model?: string;
+}
+
+export interface CopilotCliToolExecutionCompleteEvent {
+  type: 'tool.execution_complete';
+  data: CopilotCliToolExecutionCompleteData;
+  id: string;
+  timestamp: string;
+  parentId: string | null;
+}
+
 // ---------------------------------------------------------------------------
 // Union of all known event types
 // ---------------------------------------------------------------------------
@@ -146,12 +225,27 @@ export type CopilotCliEvent =
   | CopilotCliTurnStartEvent
   | CopilotCliTurnEndEvent
   | CopilotCliAssistantMessageEvent
+  | CopilotCliToolExecutionStartEvent
+  | CopilotCliToolExecutionCompleteEvent
   | CopilotCliEventBase; // catch-all for unknown event types
 
 // ---------------------------------------------------------------------------
 // workspace.yaml shape (parsed to object)
 // ---------------------------------------------------------------------------
 
+export type YamlValue = string | number | boolean | null | YamlValue[] | YamlMap;
+
+export interface YamlMap {
+  [key: string]: YamlValue;
+}
+
+/** Repository details attached to rows and activity updates as metadata. */
+export interface SessionGitContext {
+  repository?: string;
+  branch?: string;
+  gitRoot?: string;
+}
+
 export interface CopilotCliWorkspaceInfo {
   id: string;
   cwd: string;
@@ -162,6 +256,51 @@ export interface CopilotCliWorkspaceInfo {
   summary_count?: number;
   created_at: string;
   updated_at: string;
+  /** Keys not listed above, with their parsed YAML values. */
+  extra: Record<string, YamlValue>;
+}
+
+// ---------------------------------------------------------------------------
+// Pricing
+// ---------------------------------------------------------------------------
+
+export interface ModelPricing {
+  /** Premium requests consumed per billed request. 0 means included in the plan. */
+  multiplier: number;
+  /** Optional USD prices per million tokens, added on top of premium-request cost. */
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+  cacheReadPerMillion?: number;
+  cacheWritePerMillion?: number;
+  /** Defaults to `outputPerMillion` — providers bill reasoning as output. */
+  reasoningPerMillion?: number;
+}
+
+/** `metadata.pricing` on a priced row. */
+export interface RowPricing {
+  /** Premium requests billed for this row — the multiplier, or 0 for follow-up messages. */
+  premiumRequests: number;
+  multiplier: number;
+  /** Pricing table key the model matched. */
+  pricingKey: string;
+}
+
+export interface CostEstimate {
+  premiumRequests: number;
+  /** Estimated USD. */
+  cost: number;
+  /** Rows whose model has no pricing entry. */
+  unpricedRows: number;
+  byModel: Record<string, { premiumRequests: number; cost: number }>;
+}
+
+// ---------------------------------------------------------------------------
+// Activity updates
+// ---------------------------------------------------------------------------
+
+/** ActivityUpdate plus plugin metadata, mirroring `SessionUsageData.metadata`. */
+export interface CopilotCliActivityUpdate extends ActivityUpdate {
+  metadata?: Record<string, unknown>;
 }
 
 // ---------------------------------------------------------------------------
@@ -172,6 +311,212 @@ export interface SessionAggregateCacheEntry {
   updatedAt: number;
   usageRows: SessionUsageData[];
   lastAccessed: number;
+  /** Incremental parse state — lets the next parse read only appended bytes. */
+  parseState?: SessionParseState;
+}
+
+// ---------------------------------------------------------------------------
+// Incremental parse state for a single events.jsonl
+// ---------------------------------------------------------------------------
+
+/** The token-relevant parts of an assistant.message, without its content. */
+export interface AssistantMessageRecord {
+  messageId: string;
+  timestamp: string;
+  /** `content` counted by every tokenizer; the row's resolved model picks one. */
+  contentTokens: TokenCounts;
+  /** Length of `content`, so estimates can be compared with the heuristic. */
+  contentChars: number;
+  /** Estimated from `reasoningText`, or from `reasoningOpaque` when only that is present. */
+  reasoningTokens?: TokenCounts;
+  /** Real usage, normalised; the source says which event supplied it. */
+  usage?: NormalizedUsage;
+  usageSource?: Extract<TokenSource, 'assistant.usage' | 'message.usage'>;
+  model?: string;
+  /** Tool calls this message requested, in request order. */
+  toolCallIds?: string[];
+  /** Key of the turn (see `getTurnKey`) this message was emitted in. */
+  turnKey?: string;
+  interactionId?: string;
+  /** `id` of the assistant.message event — its node in the event tree. */
+  eventId?: string;
+}
+
+/** One assistant turn, rebuilt from turn_start/turn_end and the messages in between. */
+export interface TurnRecord {
+  turnId: string;
+  interactionId: string;
+  startedAt: number;
+  endedAt?: number;
+  firstMessageAt?: number;
+  messageIds: string[];
+  toolCallIds: string[];
+}
+
+export interface TurnTracker {
+  turns: Map<string, TurnRecord>;
+  /** Turn that has started but not yet ended — messages are attributed to it. */
+  openTurnKey: string | null;
+}
+
+export interface TurnMetrics {
+  turnId: string;
+  interactionId: string;
+  startedAt: number;
+  endedAt?: number;
+  /** turn_end − turn_start; absent while the turn is open. */
+  durationMs?: number;
+  /** First assistant.message − turn_start. */
+  timeToFirstMessageMs?: number;
+  assistantMessages: number;
+  toolCalls: number;
+}
+
+/** One tool call, assembled from its request, start and completion events. */
+export interface ToolCallRecord {
+  toolCallId: string;
+  toolName: string;
+  /** assistant.message that requested the call, when known. */
+  messageId?: string;
+  mcpServerName?: string;
+  requestedAt?: number;
+  startedAt?: number;
+  completedAt?: number;
+  /** Undefined until a tool.execution_complete event is seen. */
+  success?: boolean;
+  /** `id` of the tool.execution_start event, which opens the call's scope in the event tree. */
+  startEventId?: string;
+}
+
+export interface ToolUsageStats {
+  calls: number;
+  succeeded: number;
+  failed: number;
+  /** Calls with no tool.execution_complete yet. */
+  pending: number;
+  totalDurationMs: number;
+}
+
+export interface ToolUsageSummary extends ToolUsageStats {
+  byTool: Record<string, ToolUsageStats>;
+}
+
+/** A usage row paired with the assistant message it was built from. */
+export interface MessageRow {
+  messageId: string;
+  row: SessionUsageData;
+}
+
+export interface UserMessageRecord {
+  /** Event ID of the user.message. */
+  messageId: string;
+  interactionId: string;
+  timestamp: string;
+  contentTokens: number;
+  transformedContentTokens: number;
+  attachmentCount: number;
+}
+
+/** Summed row tokens; `total` includes cache reads and writes. `reasoning` is part of `output`. */
+export interface TokenTotals {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  reasoning: number;
+  total: number;
+}
+
+export interface InteractionSummary {
+  interactionId: string;
+  /** Absent when assistant events were seen without their user.message. */
+  userMessageId?: string;
+  startedAt: number;
+  /** Estimated tokens of the prompt as typed. */
+  promptTokens: number;
+  /** Estimated tokens of the prompt after the CLI expanded it. */
+  transformedPromptTokens: number;
+  attachmentCount: number;
+  assistantMessageIds: string[];
+  turnIds: string[];
+  toolCalls: number;
+  tokens: TokenTotals;
+  premiumRequests: number;
+  cost: number;
+  /** Prompt text — only when the `includePromptText` setting is on. */
+  prompt?: string;
+}
+
+/** Row totals for one model within a session. */
+export interface SessionModelTotals {
+  modelId: string;
+  messages: number;
+  tokens: TokenTotals;
+  cost: number;
+}
+
+/** Rows with real usage versus rows whose tokens were estimated. */
+export interface SessionTokenSplit {
+  realMessages: number;
+  estimatedMessages: number;
+  real: TokenTotals;
+  estimated: TokenTotals;
+}
+
+/** One record per session, built from the same parse as its rows. */
+export interface SessionSummary {
+  sessionId: string;
+  /** events.jsonl mtime of the parse the summary was built from. */
+  updatedAt: number;
+  /** First and last event timestamps; null when no event had one. */
+  startedAt: number | null;
+  endedAt: number | null;
+  durationMs: number;
+  messageCount: number;
+  turnCount: number;
+  interactionCount: number;
+  tokens: TokenTotals;
+  cost: number;
+  /** Most expensive model first. */
+  byModel: SessionModelTotals[];
+  tokenSplit: SessionTokenSplit;
+  projectPath?: string;
+  /** workspace.yaml `summary` — the CLI's title for the session. */
+  summary?: string;
+  /** workspace.yaml `summary_count` — how often the CLI summarised the session; 0 when absent. */
+  summaryCount: number;
+  repository?: string;
+  branch?: string;
+  gitRoot?: string;
+}
+
+export interface SessionParseState {
+  /** Byte offset just past the last fully consumed line. */
+  byteOffset: number;
+  /** Inode of the file the offset refers to — a change means the file was replaced. */
+  fileIno: number;
+  /** File size observed at the last update. */
+  fileSize: number;
+  /** Deduplicated by messageId; insertion order is first-seen order. */
+  messages: Map<string, AssistantMessageRecord>;
+  modelChanges: Array<{ timestamp: number; model: string }>;
+  eventDerivedModel: string | null;
+  toolCalls: Map<string, ToolCallRecord>;
+  turnTracker: TurnTracker;
+  /** First user.message of each interaction, keyed by interactionId. */
+  userMessages: Map<string, UserMessageRecord>;
+  /** Context of the latest session.start — fallback when workspace.yaml is missing. */
+  sessionContext: CopilotCliSessionStartData['context'] | null;
+  /** Every event's node in the parentId tree, keyed by event id, in file order. */
+  events: Map<string, EventNodeRecord>;
+  /** Producer of the file and the schema drift seen while reading it. */
+  schema: SessionSchemaState;
+  /** assistant.usage seen before the message it names, keyed by messageId. */
+  pendingUsage: Map<string, NormalizedUsage>;
+  /** Type and time of the last event read. */
+  lastEvent: { type: string; timestamp: number } | null;
+  /** Time of the latest session.start that followed other events — a resume. */
+  resumedAt: number | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -182,10 +527,307 @@ export interface CompactionEntry {
   timestamp: number;
   tokens: number;
   contextWindow: number;
+  /**
+   * Start time of the CLI process that logged the entry. Set when timelines
+   * from several process logs are merged; marks where a session was resumed.
+   */
+  processStartedAt?: number;
+}
+
+/**
+ * Where a row's model came from, in priority order: the message itself, the
+ * session's model_change timeline, any other event naming a model, the
+ * session's own process logs, and the newest process log as a last resort.
+ */
+export type ModelSource = 'message' | 'model_change' | 'event' | 'process_log' | 'default';
+
+/** A model in effect from `timestamp` on. */
+export interface ModelTimelineEntry {
+  timestamp: number;
+  model: string;
 }
 
 export interface ProcessLogData {
   sessionId: string | null;
+  /** Last `Using default model:` line. */
   model: string | null;
+  /** Every `Using default model:` line, in log order. */
+  modelTimeline: ModelTimelineEntry[];
+  /** Timestamp of the first timestamped line — when the process started logging. */
+  startedAt: number | null;
   compactionTimeline: CompactionEntry[];
 }
+
+/** One process log in the shared index, kept current by reading appended bytes. */
+export interface ProcessLogIndexEntry {
+  ino: number;
+  /** mtime and size at the last update — an unchanged file is not read. */
+  mtimeMs: number;
+  size: number;
+  /** Byte offset just past the last complete line parsed into `data`. */
+  offset: number;
+  data: ProcessLogData;
+}
+
+// ---------------------------------------------------------------------------
+// Context-window utilisation
+// ---------------------------------------------------------------------------
+
+/** Context size before one model request, from a CompactionProcessor entry. */
+export interface ContextUtilizationPoint {
+  timestamp: number;
+  tokens: number;
+  contextWindow: number;
+  /** tokens / contextWindow, 0–1. */
+  utilization: number;
+}
+
+/** A large drop in context size within one process — the CLI compacted or summarised. */
+export interface ContextCompactionEvent {
+  timestamp: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  contextWindow: number;
+  /** Utilisation just before the drop, 0–1. */
+  utilizationBefore: number;
+}
+
+export interface ContextUsageSummary {
+  sessionId: string;
+  series: ContextUtilizationPoint[];
+  /** Highest-utilisation point; null for a session without entries. */
+  peak: ContextUtilizationPoint | null;
+  averageUtilization: number;
+  compactionEvents: ContextCompactionEvent[];
+}
+
+// ---------------------------------------------------------------------------
+// Event tree (parentId links)
+// ---------------------------------------------------------------------------
+
+/**
+ * Branch an assistant message belongs to: the main conversation, a run nested
+ * inside a tool call (sub-agent or tool-triggered request), or a repeat of a
+ * request whose parent already has an assistant.message.
+ */
+export type EventBranchKind = 'main' | 'subagent' | 'retry';
+
+/** One event's place in the parentId tree, without its payload. */
+export interface EventNodeRecord {
+  id: string;
+  parentId: string | null;
+  type: string;
+  timestamp: string;
+  /** Number of tool-call scopes the event runs inside; 0 on the main conversation. */
+  agentDepth: number;
+  messageId?: string;
+  toolCallId?: string;
+}
+
+export interface EventTreeNode {
+  id: string;
+  parentId: string | null;
+  type: string;
+  timestamp: number;
+  agentDepth: number;
+  messageId?: string;
+  toolCallId?: string;
+  /** Set on assistant.message nodes. */
+  branch?: EventBranchKind;
+  /** Tokens of the row for this event's message, if any. */
+  tokens: TokenTotals;
+  /** Tokens of this node and every descendant. */
+  subtotal: TokenTotals;
+  children: EventTreeNode[];
+}
+
+// ---------------------------------------------------------------------------
+// Event schema registry and drift diagnostics
+// ---------------------------------------------------------------------------
+
+export type SchemaFieldType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'null';
+
+export interface SchemaFieldSpec {
+  types: SchemaFieldType[];
+  required?: boolean;
+}
+
+/** Expected `data` fields of one event type for a range of schema versions. */
+export interface EventSchema {
+  minVersion: number;
+  maxVersion: number;
+  fields: Record<string, SchemaFieldSpec>;
+}
+
+/** Who wrote an events.jsonl, from its session.start. */
+export interface SessionProducerInfo {
+  /** Schema version of the events file. */
+  version?: number;
+  producer?: string;
+  copilotVersion?: string;
+}
+
+export type SchemaIssueKind =
+  | 'unknown_event_type'
+  | 'unsupported_version'
+  | 'malformed_event'
+  | 'missing_field'
+  | 'unexpected_type';
+
+export interface SchemaIssue {
+  kind: SchemaIssueKind;
+  eventType: string;
+  field?: string;
+  expected?: string;
+  actual?: string;
+  count: number;
+  /** Timestamp of the first event with the issue. */
+  firstSeen: string;
+}
+
+export interface SessionSchemaState {
+  producer: SessionProducerInfo | null;
+  /** Keyed by `getSchemaIssueKey`. */
+  issues: Map<string, SchemaIssue>;
+}
+
+export interface SchemaDiagnosticsReport {
+  sessionsChecked: number;
+  /** Sessions per Copilot CLI version; `unknown` when session.start lacks it. */
+  copilotVersions: Record<string, number>;
+  /** Issues across sessions, most frequent first. */
+  issues: Array<SchemaIssue & { sessions: number }>;
+}
+
+// ---------------------------------------------------------------------------
+// Normalised token usage
+// ---------------------------------------------------------------------------
+
+/** Where a row's token counts came from, most to least reliable. */
+export type TokenSource = 'assistant.usage' | 'message.usage' | 'compaction' | 'estimate';
+
+/** Real usage in one shape. `input` excludes cache reads and writes. */
+export interface NormalizedUsage {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  /** Reasoning tokens, already included in `output`. */
+  reasoning: number;
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizers
+// ---------------------------------------------------------------------------
+
+/** Model families with their own bundled tokenizer encoding. */
+export type ModelFamily = 'gpt' | 'claude' | 'gemini';
+
+/**
+ * One text counted by each family's tokenizer, and by the 4-characters
+ * heuristic under `default`. Counting happens while events are read, before
+ * a message's model is known; the count is picked once rows resolve it.
+ */
+export type TokenCounts = Partial<Record<ModelFamily | 'default', number>>;
+
+export interface Tokenizer {
+  /** Stable name, recorded on each estimate so accuracy can be grouped by it. */
+  name: string;
+  countTokens(text: string): number;
+}
+
+/** How far one tokenizer's estimates are from real `usage` output tokens. */
+export interface TokenizerAccuracy {
+  tokenizer: string;
+  samples: number;
+  realTokens: number;
+  estimatedTokens: number;
+  /** Mean of |estimate − real| / real per message. */
+  meanAbsolutePercentError: number;
+  /** estimatedTokens / realTokens − 1: positive overestimates, negative underestimates. */
+  bias: number;
+}
+
+export interface TokenizerAccuracyReport {
+  /** Messages with real output usage and nothing but content to count. */
+  samples: number;
+  /** Accuracy per tokenizer, each message grouped under the tokenizer of its row's model. */
+  byTokenizer: TokenizerAccuracy[];
+  /** The 4-characters-per-token heuristic on the same messages, for comparison. */
+  heuristic: TokenizerAccuracy | null;
+}
+
+// ---------------------------------------------------------------------------
+// Session lifecycle
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether a session is running: `active` (recent events or an open turn),
+ * `resumed` (active again after a later session.start or CLI process),
+ * `idle` (no recent activity, not yet timed out), `ended` (shut down or
+ * timed out) or `abandoned` (a turn that never ended, then timed out).
+ */
+export type SessionLifecycleState = 'active' | 'idle' | 'ended' | 'resumed' | 'abandoned';
+
+/** The CLI processes whose logs name one session. */
+export interface SessionProcessSummary {
+  processes: number;
+  /** Newest process log mtime. */
+  lastLoggedAt: number;
+  /** Start of the newest process. */
+  latestStartedAt: number | null;
+}
+
+export interface SessionLifecycle {
+  state: SessionLifecycleState;
+  /** Latest of the last event, the events.jsonl mtime and the session's process log mtimes. */
+  lastActivityAt: number;
+  /** Type of the last event read. */
+  lastEventType: string | null;
+  /** A turn_start without its turn_end. */
+  openTurn: boolean;
+  /** A process log of the session was written within the idle timeout. */
+  processLive: boolean;
+  /** When the session was last resumed; absent if it never was. */
+  resumedAt?: number;
+}
+
+/** A live session's lifecycle state changed. */
+export interface SessionLifecycleChange extends SessionLifecycle {
+  sessionId: string;
+  /** State last reported for the session; null for its first change. */
+  previousState: SessionLifecycleState | null;
+  /** When the change was noticed. */
+  timestamp: number;
+}
+
+export type SessionLifecycleCallback = (change: SessionLifecycleChange) => void;
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/** `otlp-json` is the OTLP JSON file format: one export request per line. */
+export type ExportFormat = 'csv' | 'jsonl' | 'otlp-json';
+
+/** One record per message row, or one per session summary. */
+export type ExportScope = 'messages' | 'sessions';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Defaults to `messages`. */
+  scope?: ExportScope;
+  /** Epoch ms, inclusive — messages at or after, sessions active at or after. */
+  since?: number;
+  /** Epoch ms, exclusive — messages before, sessions started before. */
+  until?: number;
+  /** A project directory (matches it and anything below it) or a repository (`owner/name`). */
+  project?: string;
+  /** Most recently updated sessions to read; 0 or absent for all. */
+  limit?: number;
+}
+
+export interface ExportStats {
+  sessions: number;
+  messages: number;
+}
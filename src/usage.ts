@@ -0,0 +1,70 @@
+import type { CopilotCliUsageData, NormalizedUsage } from './types.ts';
+
+function readCount(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value) : undefined;
+}
+
+function readNestedCount(value: unknown, key: string): number | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  return readCount((value as Record<string, unknown>)[key]);
+}
+
+/**
+ * Normalise a usage object in any of the shapes providers report:
+ *
+ * - OpenAI — `prompt_tokens` / `completion_tokens` / `total_tokens`, where
+ *   `cached_tokens` (top level or in `prompt_tokens_details`) is part of the
+ *   prompt and `completion_tokens_details.reasoning_tokens` part of the
+ *   completion; cache reads are split out of the input, while reasoning stays
+ *   in the output and is reported as `reasoning`
+ * - Anthropic — `input_tokens` / `output_tokens`, with cache reads and writes
+ *   in `cache_read_input_tokens` / `cache_creation_input_tokens`, reported
+ *   separately from the input
+ * - Copilot CLI — camelCase `inputTokens`, `outputTokens`, `cacheReadTokens`,
+ *   `cacheWriteTokens`, `reasoningTokens`
+ *
+ * Reasoning is always counted inside `output`, as every provider bills it.
+ * A missing output is derived from `total_tokens`. Returns null when the
+ * object carries no input or output tokens.
+ */
+export function normalizeUsage(raw: unknown): NormalizedUsage | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const usage = raw as Record<keyof CopilotCliUsageData, unknown>;
+
+  const promptTokens = readCount(usage.prompt_tokens);
+  const separateInput = readCount(usage.input_tokens) ?? readCount(usage.inputTokens);
+  const cachedInPrompt = readNestedCount(usage.prompt_tokens_details, 'cached_tokens') ?? readCount(usage.cached_tokens) ?? 0;
+  const separateCacheRead = readCount(usage.cache_read_input_tokens) ?? readCount(usage.cacheReadTokens);
+
+  let input: number;
+  let cacheRead: number;
+  if (promptTokens !== undefined && separateInput === undefined) {
+    if (separateCacheRead !== undefined) {
+      // Anthropic cache field on an OpenAI-style object — the prompt excludes it
+      input = promptTokens;
+      cacheRead = separateCacheRead;
+    } else {
+      cacheRead = Math.min(cachedInPrompt, promptTokens);
+      input = promptTokens - cacheRead;
+    }
+  } else {
+    input = separateInput ?? 0;
+    cacheRead = separateCacheRead ?? 0;
+  }
+
+  const cacheWrite = readCount(usage.cache_creation_input_tokens) ?? readCount(usage.cacheWriteTokens) ?? 0;
+
+  let output = readCount(usage.completion_tokens) ?? readCount(usage.output_tokens) ?? readCount(usage.outputTokens);
+  const total = readCount(usage.total_tokens);
+  if (output === undefined && total !== undefined && promptTokens !== undefined) {
+    output = Math.max(0, total - promptTokens);
+  }
+
+  const reasoning = readNestedCount(usage.completion_tokens_details, 'reasoning_tokens') ?? readCount(usage.reasoningTokens) ?? 0;
+  // Reasoning is part of the output, so the output is never less than it
+  output = Math.max(output ?? 0, reasoning);
+
+  if (input === 0 && output === 0) return null;
+
+  return { input, output, cacheRead, cacheWrite, reasoning };
+}
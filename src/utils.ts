@@ -1,5 +1,16 @@
+import * as fsSync from 'fs';
 import * as fs from 'fs/promises';
-import type { CopilotCliWorkspaceInfo, ProcessLogData } from './types.ts';
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import type {
+  CompactionEntry,
+  CopilotCliSessionStartData,
+  CopilotCliWorkspaceInfo,
+  ProcessLogData,
+  SessionGitContext,
+  YamlValue,
+} from './types.ts';
+import { getTokenizer } from './tokenizer.ts';
+import { parseYaml, setMapEntry } from './yaml.ts';
 
 /**
  * Read a JSONL file and return an array of parsed lines.
@@ -29,127 +40,353 @@ export async function readJsonlFile<T>(filePath: string): Promise<T[]> {
 }
 
 /**
- * Parse a simple YAML file into a flat key-value object.
- * Handles the workspace.yaml format used by Copilot CLI:
- *   key: value
- * Does NOT handle nested YAML, arrays, or multi-line values.
+ * Read complete lines from `startOffset` (up to `endOffset`, when given) in
+ * chunks. Returns the offset just past the last newline and the bytes after
+ * it, or `null` on file errors.
  */
-export async function readWorkspaceYaml(filePath: string): Promise<CopilotCliWorkspaceInfo | null> {
-  try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const lines = content.split(/\r?\n/);
-    const result: Record<string, string> = {};
+async function readLinesFrom(
+  filePath: string,
+  startOffset: number,
+  onLine: (line: Buffer) => void,
+  endOffset?: number,
+): Promise<{ consumed: number; leftover: Buffer } | null> {
+  let consumed = startOffset;
+  let leftover: Buffer = Buffer.alloc(0);
 
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed || trimmed.startsWith('#')) continue;
+  try {
+    if (endOffset !== undefined && endOffset <= startOffset) return { consumed, leftover };
+    const stream = fsSync.createReadStream(filePath, {
+      start: startOffset,
+      ...(endOffset !== undefined ? { end: endOffset - 1 } : {}),
+    });
 
-      const colonIndex = trimmed.indexOf(':');
-      if (colonIndex === -1) continue;
+    for await (const chunk of stream as AsyncIterable<Buffer>) {
+      const buffer = leftover.length > 0 ? Buffer.concat([leftover, chunk]) : chunk;
+      let lineStart = 0;
+      let newlineIndex = buffer.indexOf(0x0a, lineStart);
 
-      const key = trimmed.slice(0, colonIndex).trim();
-      const value = trimmed.slice(colonIndex + 1).trim();
-      if (key) {
-        result[key] = value;
+      while (newlineIndex !== -1) {
+        onLine(buffer.subarray(lineStart, newlineIndex));
+        lineStart = newlineIndex + 1;
+        newlineIndex = buffer.indexOf(0x0a, lineStart);
       }
-    }
 
-    if (!result['id']) return null;
-
-    return {
-      id: result['id']!,
-      cwd: result['cwd'] ?? '',
-      git_root: result['git_root'],
-      repository: result['repository'],
-      branch: result['branch'],
-      summary: result['summary'],
-      summary_count: result['summary_count'] ? parseInt(result['summary_count'], 10) : undefined,
-      created_at: result['created_at'] ?? '',
-      updated_at: result['updated_at'] ?? '',
-    };
+      consumed += lineStart;
+      leftover = buffer.subarray(lineStart);
+    }
   } catch {
     return null;
   }
+
+  return { consumed, leftover };
+}
+
+/**
+ * Stream a JSONL file from `startOffset`, calling `onRow` for each parsed line.
+ * Reads in chunks so large files never sit in memory at once. With
+ * `endOffset`, reading stops before that byte.
+ *
+ * Returns the byte offset just past the last consumed line. A trailing line
+ * without a newline is only consumed if it parses — otherwise it is assumed
+ * to be mid-write and will be re-read on the next call. Malformed complete
+ * lines are skipped. Returns `null` on file errors.
+ */
+export async function streamJsonlFile<T>(
+  filePath: string,
+  startOffset: number,
+  onRow: (row: T) => void,
+  endOffset?: number,
+): Promise<number | null> {
+  const result = await readLinesFrom(filePath, startOffset, (line) => {
+    const trimmed = line.toString('utf-8').trim();
+    if (!trimmed) return;
+
+    try {
+      onRow(JSON.parse(trimmed) as T);
+    } catch {
+      // Skip malformed lines
+    }
+  }, endOffset);
+  if (!result) return null;
+
+  const { leftover } = result;
+  let { consumed } = result;
+  if (leftover.length > 0) {
+    const trimmed = leftover.toString('utf-8').trim();
+    try {
+      const row = JSON.parse(trimmed) as T;
+      onRow(row);
+      consumed += leftover.length;
+    } catch {
+      // Incomplete trailing line — leave it for the next read
+    }
+  }
+
+  return consumed;
+}
+
+/**
+ * Stream the newline-terminated lines of a text file from `startOffset`.
+ * Returns the offset just past the last complete line — a partial trailing
+ * line is left for the next call. Returns `null` on file errors.
+ */
+export async function streamTextLines(
+  filePath: string,
+  startOffset: number,
+  onLine: (line: string) => void,
+): Promise<number | null> {
+  const result = await readLinesFrom(filePath, startOffset, (line) => {
+    onLine(line.toString('utf-8').replace(/\r$/, ''));
+  });
+  return result?.consumed ?? null;
 }
 
+const WORKSPACE_STRING_KEYS = ['id', 'cwd', 'git_root', 'repository', 'branch', 'summary', 'created_at', 'updated_at'] as const;
+const WORKSPACE_KEYS: ReadonlySet<string> = new Set([...WORKSPACE_STRING_KEYS, 'summary_count']);
+
+function yamlScalarToString(value: YamlValue | undefined): string | undefined {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return undefined;
+}
+
+const RE_TOP_LEVEL_ENTRY = /^([A-Za-z_][\w.-]*):(?:[ \t]+(.*))?$/;
+const RE_BLOCK_SCALAR_HEADER = /^[|>][-+1-9]*$/;
+
 /**
- * Estimate token count from text content.
- * Uses the standard ~4 characters per token heuristic.
+ * The raw text of each top-level `key: value` line, as the original line
+ * reader saw it: no number, boolean, null or flow collection coercion. The
+ * indented lines of a block scalar are dedented and joined.
  */
-export function estimateTokens(text: string): number {
-  if (!text) return 0;
-  return Math.ceil(text.length / 4);
+function readTopLevelScalars(content: string): Map<string, string> {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const entries = new Map<string, string>();
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = RE_TOP_LEVEL_ENTRY.exec(lines[i]!.trimEnd());
+    const value = match?.[2]?.trim();
+    if (!match || !value) continue;
+
+    if (!RE_BLOCK_SCALAR_HEADER.test(value)) {
+      entries.set(match[1]!, value);
+      continue;
+    }
+
+    const block: string[] = [];
+    while (i + 1 < lines.length && (/^\s/.test(lines[i + 1]!) || lines[i + 1]!.trim() === '')) {
+      block.push(lines[++i]!);
+    }
+    const indent = Math.min(...block.filter((line) => line.trim()).map((line) => line.length - line.trimStart().length));
+    const text = block.map((line) => line.slice(Math.min(indent, line.length)).trimEnd());
+    entries.set(match[1]!, text.join(value.startsWith('|') ? '\n' : ' ').trim());
+  }
+
+  return entries;
+}
+
+/** Unwrap a single-line quoted value; anything else is returned as written. */
+function unquoteRawScalar(raw: string): string {
+  if (raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"')) {
+    try {
+      const value: unknown = JSON.parse(raw);
+      if (typeof value === 'string') return value;
+    } catch {
+      // Not a JSON-compatible string — keep it as written
+    }
+  }
+  if (raw.length >= 2 && raw.startsWith("'") && raw.endsWith("'")) {
+    const inner = raw.slice(1, -1);
+    if (!inner.replace(/''/g, '').includes("'")) return inner.replace(/''/g, "'");
+  }
+  return raw;
 }
 
 /**
- * Extract the default model name from a Copilot CLI process log file.
- * Scans for lines like: `[INFO] Using default model: claude-sonnet-4.6`
- * Returns the last match (most recent model selection).
+ * Parse workspace.yaml content into workspace info. Pure function — no I/O.
+ * Keys not modelled on `CopilotCliWorkspaceInfo` are kept in `extra`.
+ *
+ * String fields keep their text as written when YAML would resolve it to
+ * something else (`branch: 1.10`, `summary: [WIP]`). Copilot writes plain
+ * scalars strict YAML rejects (`summary: [WIP] fix`, `* star`, `!important`);
+ * such files fall back to reading top-level `key: value` lines.
+ * Returns null for a document without an `id`.
  */
-export async function extractModelFromProcessLog(logPath: string): Promise<string | null> {
+export function parseWorkspaceYaml(content: string): CopilotCliWorkspaceInfo | null {
+  const rawScalars = readTopLevelScalars(content);
+
+  let document: YamlValue;
   try {
-    const content = await fs.readFile(logPath, 'utf-8');
-    const matches = content.matchAll(/\[INFO\] Using default model: (.+)/g);
-    let lastModel: string | null = null;
-
-    for (const match of matches) {
-      const model = match[1]?.trim();
-      if (model) {
-        lastModel = model;
-      }
+    document = parseYaml(content);
+  } catch {
+    document = {};
+    for (const [key, raw] of rawScalars) {
+      setMapEntry(document, key, unquoteRawScalar(raw));
+    }
+  }
+  if (!document || typeof document !== 'object' || Array.isArray(document)) return null;
+
+  const fields: Partial<Record<(typeof WORKSPACE_STRING_KEYS)[number], string>> = {};
+  for (const key of WORKSPACE_STRING_KEYS) {
+    const value = document[key];
+    const raw = rawScalars.get(key);
+    fields[key] = typeof value !== 'string' && raw !== undefined ? unquoteRawScalar(raw) : yamlScalarToString(value);
+  }
+  if (!fields.id) return null;
+
+  const rawSummaryCount = document['summary_count'];
+  const summaryCount = typeof rawSummaryCount === 'string' ? parseInt(rawSummaryCount, 10) : rawSummaryCount;
+
+  const extra: Record<string, YamlValue> = {};
+  for (const [key, value] of Object.entries(document)) {
+    if (!WORKSPACE_KEYS.has(key)) {
+      setMapEntry(extra, key, value);
     }
+  }
+
+  return {
+    id: fields.id,
+    cwd: fields.cwd ?? '',
+    git_root: fields.git_root,
+    repository: fields.repository,
+    branch: fields.branch,
+    summary: fields.summary,
+    summary_count: typeof summaryCount === 'number' && Number.isInteger(summaryCount) ? summaryCount : undefined,
+    created_at: fields.created_at ?? '',
+    updated_at: fields.updated_at ?? '',
+    extra,
+  };
+}
 
-    return lastModel;
+/**
+ * Read and parse a session's workspace.yaml.
+ * Returns null when the file is missing, malformed or has no `id`.
+ */
+export async function readWorkspaceYaml(filePath: string): Promise<CopilotCliWorkspaceInfo | null> {
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    return parseWorkspaceYaml(content);
   } catch {
     return null;
   }
 }
 
+/**
+ * Resolve a session's repository, branch and git root. workspace.yaml wins
+ * field by field; the session.start context fills in whatever it lacks.
+ * Only fields with a value are present on the result.
+ */
+export function resolveGitContext(
+  workspace: CopilotCliWorkspaceInfo | null,
+  sessionContext: CopilotCliSessionStartData['context'] | null,
+): SessionGitContext {
+  const git: SessionGitContext = {};
+
+  const repository = workspace?.repository || sessionContext?.repository;
+  const branch = workspace?.branch || sessionContext?.branch;
+  const gitRoot = workspace?.git_root || sessionContext?.gitRoot;
+
+  if (repository) git.repository = repository;
+  if (branch) git.branch = branch;
+  if (gitRoot) git.gitRoot = gitRoot;
+
+  return git;
+}
+
+/**
+ * Estimate token count from text content with the tokenizer for `modelId`'s
+ * family. Without a model (or for an unknown family) uses the standard
+ * ~4 characters per token heuristic.
+ */
+export function estimateTokens(text: string, modelId?: string): number {
+  return getTokenizer(modelId).countTokens(text);
+}
+
+/**
+ * Reasoning tokens of a row — the part of `tokens.output` spent reasoning.
+ * The SDK row has no reasoning category, so the split travels in
+ * `metadata.reasoningTokens`.
+ */
+export function getReasoningTokens(row: SessionUsageData): number {
+  const reasoning = row.metadata?.reasoningTokens;
+  return typeof reasoning === 'number' && reasoning > 0 ? reasoning : 0;
+}
+
+/**
+ * Estimate token count from base64-encoded opaque content (encrypted
+ * reasoning): ~3 bytes per 4 base64 characters, then ~4 bytes per token.
+ */
+export function estimateOpaqueTokens(encoded: string): number {
+  if (!encoded) return 0;
+  return Math.ceil((encoded.length * 3) / 16);
+}
+
 export function toTimestamp(value: string | undefined, fallback: number): number {
   if (!value) return fallback;
   const parsed = Date.parse(value);
   return Number.isFinite(parsed) ? parsed : fallback;
 }
 
+const RE_LINE_TIMESTAMP = /^(\d{4}-\d{2}-\d{2}T[\d:.]+Z) /;
 const RE_WORKSPACE_INIT = /Workspace initialized: ([0-9a-f-]{36})/;
 const RE_DEFAULT_MODEL = /\[INFO\] Using default model: (.+)/;
 const RE_COMPACTION = /^(\d{4}-\d{2}-\d{2}T[\d:.]+Z) \[INFO\] CompactionProcessor: Utilization [\d.]+% \((\d+)\/(\d+) tokens\)/;
 
+export function createProcessLogData(): ProcessLogData {
+  return { sessionId: null, model: null, modelTimeline: [], startedAt: null, compactionTimeline: [] };
+}
+
 /**
- * Parse a Copilot CLI process log file and extract session ID, model, and
- * CompactionProcessor timeline. Pure function — no I/O.
+ * Fold one process log line into `data`. Returns the CompactionProcessor
+ * entry the line added, if any. Shared by the full parse and the live tailer.
  */
-export function parseProcessLogData(content: string): ProcessLogData {
-  const lines = content.split(/\r?\n/);
-  let sessionId: string | null = null;
-  let model: string | null = null;
-  const compactionTimeline: ProcessLogData['compactionTimeline'] = [];
-
-  for (const line of lines) {
-    if (!sessionId) {
-      const wsMatch = RE_WORKSPACE_INIT.exec(line);
-      if (wsMatch) {
-        sessionId = wsMatch[1]!;
-      }
-    }
+export function applyProcessLogLine(data: ProcessLogData, line: string): CompactionEntry | null {
+  const tsMatch = RE_LINE_TIMESTAMP.exec(line);
+  const lineTimestamp = tsMatch ? Date.parse(tsMatch[1]!) : NaN;
+  if (data.startedAt === null && Number.isFinite(lineTimestamp)) {
+    data.startedAt = lineTimestamp;
+  }
 
-    const modelMatch = RE_DEFAULT_MODEL.exec(line);
-    if (modelMatch) {
-      model = modelMatch[1]!.trim();
+  if (!data.sessionId) {
+    const wsMatch = RE_WORKSPACE_INIT.exec(line);
+    if (wsMatch) {
+      data.sessionId = wsMatch[1]!;
     }
+  }
 
-    const cpMatch = RE_COMPACTION.exec(line);
-    if (cpMatch) {
-      const ts = Date.parse(cpMatch[1]!);
-      if (Number.isFinite(ts)) {
-        compactionTimeline.push({
-          timestamp: ts,
-          tokens: parseInt(cpMatch[2]!, 10),
-          contextWindow: parseInt(cpMatch[3]!, 10),
-        });
-      }
+  const modelMatch = RE_DEFAULT_MODEL.exec(line);
+  if (modelMatch) {
+    data.model = modelMatch[1]!.trim();
+    data.modelTimeline.push({
+      timestamp: Number.isFinite(lineTimestamp) ? lineTimestamp : data.startedAt ?? 0,
+      model: data.model,
+    });
+  }
+
+  const cpMatch = RE_COMPACTION.exec(line);
+  if (cpMatch) {
+    const ts = Date.parse(cpMatch[1]!);
+    if (Number.isFinite(ts)) {
+      const entry: CompactionEntry = {
+        timestamp: ts,
+        tokens: parseInt(cpMatch[2]!, 10),
+        contextWindow: parseInt(cpMatch[3]!, 10),
+      };
+      data.compactionTimeline.push(entry);
+      return entry;
     }
   }
 
-  return { sessionId, model, compactionTimeline };
+  return null;
+}
+
+/**
+ * Parse a Copilot CLI process log file and extract session ID, model, and
+ * CompactionProcessor timeline. Pure function — no I/O.
+ */
+export function parseProcessLogData(content: string): ProcessLogData {
+  const data = createProcessLogData();
+  for (const line of content.split(/\r?\n/)) {
+    applyProcessLogLine(data, line);
+  }
+  return data;
 }
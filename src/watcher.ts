@@ -2,31 +2,77 @@ import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
 import type { ActivityCallback, ActivityUpdate } from '@tokentop/plugin-sdk';
-import { COPILOT_CLI_SESSION_STATE_PATH, getSessionDirs } from './paths.ts';
-import { isAssistantMessage } from './parser.ts';
-import { estimateTokens, readWorkspaceYaml, toTimestamp } from './utils.ts';
+import { processLogCache, sessionCache } from './cache.ts';
+import { getCopilotCliRoots, getSessionDirs } from './paths.ts';
+import {
+  applyEventToParseState,
+  buildCompactionIndex,
+  buildMessageRows,
+  buildModelIndex,
+  createSessionParseState,
+  getDefaultModel,
+  updateSessionParseState,
+} from './parser.ts';
+import { removeProcessLog, updateProcessLog } from './logs.ts';
+import { resolveSessionLifecycle, summarizeSessionProcesses } from './lifecycle.ts';
+import type {
+  CopilotCliActivityUpdate,
+  CopilotCliEventBase,
+  MessageRow,
+  SessionLifecycle,
+  SessionLifecycleCallback,
+  SessionLifecycleChange,
+  SessionLifecycleState,
+  SessionParseState,
+  SessionProcessSummary,
+} from './types.ts';
+import { getReasoningTokens, streamJsonlFile } from './utils.ts';
 
 export interface SessionWatcherState {
   sessionDirWatchers: Map<string, fsSync.FSWatcher>;
-  rootWatcher: fsSync.FSWatcher | null;
+  rootWatchers: Map<string, fsSync.FSWatcher>;
   dirtyPaths: Set<string>;
   reconciliationTimer: ReturnType<typeof setInterval> | null;
   started: boolean;
 }
 
+/** Live parse state for one watched events.jsonl. */
+interface LiveSession {
+  /** Shared reducer state; built on the first change after priming. */
+  parseState: SessionParseState | null;
+  /** File size when watching began — messages before it are not emitted. */
+  primedOffset: number;
+  /** Tail of the queue that runs delta processing one call at a time. */
+  pending: Promise<void>;
+  /** Tokens last emitted per message, so compaction corrections are sent once. */
+  emittedTokens: Map<string, ActivityUpdate['tokens']>;
+  /** Lifecycle state last emitted; null until the parse state is built. */
+  lifecycleState: SessionLifecycleState | null;
+}
+
 interface ActivityWatcherState {
   sessionDirWatchers: Map<string, fsSync.FSWatcher>;
-  rootWatcher: fsSync.FSWatcher | null;
+  rootWatchers: Map<string, fsSync.FSWatcher>;
+  /** Session ID (dir name) → watched dir, so a session mirrored under two roots is watched once. */
+  watchedSessionIds: Map<string, string>;
   callback: ActivityCallback | null;
-  fileOffsets: Map<string, number>;
+  /** Receives lifecycle changes, which never go through `callback`. */
+  lifecycleCallback: SessionLifecycleCallback | null;
+  /** events.jsonl path → live parse state. */
+  liveSessions: Map<string, LiveSession>;
+  /** Logs dir → watcher, one per Copilot root. */
+  logDirWatchers: Map<string, fsSync.FSWatcher>;
+  /** Re-checks live sessions, so idle and ended are noticed without new events. */
+  lifecycleTimer: ReturnType<typeof setInterval> | null;
   started: boolean;
 }
 
 export const RECONCILIATION_INTERVAL_MS = 10 * 60 * 1000;
+export const LIFECYCLE_CHECK_INTERVAL_MS = 30 * 1000;
 
 export const sessionWatcher: SessionWatcherState = {
   sessionDirWatchers: new Map(),
-  rootWatcher: null,
+  rootWatchers: new Map(),
   dirtyPaths: new Set(),
   reconciliationTimer: null,
   started: false,
@@ -34,143 +80,415 @@ export const sessionWatcher: SessionWatcherState = {
 
 const activityWatcher: ActivityWatcherState = {
   sessionDirWatchers: new Map(),
-  rootWatcher: null,
+  rootWatchers: new Map(),
+  watchedSessionIds: new Map(),
   callback: null,
-  fileOffsets: new Map(),
+  lifecycleCallback: null,
+  liveSessions: new Map(),
+  logDirWatchers: new Map(),
+  lifecycleTimer: null,
   started: false,
 };
 
 export let forceFullReconciliation = false;
 
-function tryWatchNewSessionDir(dirName: string, watchFn: (sessionDirPath: string) => void): void {
-  const eventsPath = path.join(COPILOT_CLI_SESSION_STATE_PATH, dirName, 'events.jsonl');
+function tryWatchNewSessionDir(
+  sessionStatePath: string,
+  dirName: string,
+  watchFn: (sessionDirPath: string) => void,
+): void {
+  const eventsPath = path.join(sessionStatePath, dirName, 'events.jsonl');
   try {
     if (fsSync.existsSync(eventsPath)) {
-      watchFn(path.join(COPILOT_CLI_SESSION_STATE_PATH, dirName));
+      watchFn(path.join(sessionStatePath, dirName));
     }
   } catch {
     // Silently skip inaccessible dirs
   }
 }
 
+/**
+ * Watch every root's session-state directory that is not already watched.
+ * Safe to call repeatedly — roots that appear later (or via config changes)
+ * are picked up on the next call.
+ */
+function watchSessionStateRoots(
+  rootWatchers: Map<string, fsSync.FSWatcher>,
+  onNewEntry: (sessionStatePath: string, filename: string) => void,
+): void {
+  for (const root of getCopilotCliRoots()) {
+    const sessionStatePath = root.sessionStatePath;
+    if (rootWatchers.has(sessionStatePath)) continue;
+
+    try {
+      const watcher = fsSync.watch(sessionStatePath, (eventType, filename) => {
+        if (eventType !== 'rename' || !filename) return;
+        onNewEntry(sessionStatePath, filename);
+      });
+      rootWatchers.set(sessionStatePath, watcher);
+    } catch {
+      // Session state dir might not exist yet
+    }
+  }
+}
+
+function closeRootWatchers(rootWatchers: Map<string, fsSync.FSWatcher>): void {
+  for (const watcher of rootWatchers.values()) {
+    watcher.close();
+  }
+  rootWatchers.clear();
+}
+
 /**
  * Watch a session directory for activity changes (events.jsonl modifications).
  */
 function watchSessionDirForActivity(sessionDirPath: string): void {
   if (activityWatcher.sessionDirWatchers.has(sessionDirPath)) return;
 
+  const sessionId = path.basename(sessionDirPath);
+  if (activityWatcher.watchedSessionIds.has(sessionId)) return;
+
   try {
     const watcher = fsSync.watch(sessionDirPath, (_eventType, filename) => {
       if (filename !== 'events.jsonl') return;
-      const filePath = path.join(sessionDirPath, 'events.jsonl');
-      void processEventsDelta(filePath, sessionDirPath);
+      scheduleEventsDelta(path.join(sessionDirPath, 'events.jsonl'), sessionDirPath);
     });
 
     activityWatcher.sessionDirWatchers.set(sessionDirPath, watcher);
+    activityWatcher.watchedSessionIds.set(sessionId, sessionDirPath);
   } catch {
     // Silently skip unwatchable dirs
   }
 }
 
 /**
- * Prime file offsets for existing events.jsonl files.
- * Called when starting activity watching so we only emit deltas for new events.
+ * Record the current size of an existing events.jsonl. Called when starting
+ * activity watching so history before this point is not emitted.
  */
 async function primeSessionOffset(sessionDirPath: string): Promise<void> {
   const eventsPath = path.join(sessionDirPath, 'events.jsonl');
   try {
     const stat = await fs.stat(eventsPath);
-    activityWatcher.fileOffsets.set(eventsPath, stat.size);
+    if (!activityWatcher.liveSessions.has(eventsPath)) {
+      activityWatcher.liveSessions.set(eventsPath, createLiveSession(stat.size));
+    }
   } catch {
     // File might not exist yet
   }
 }
 
+function createLiveSession(primedOffset: number): LiveSession {
+  return { parseState: null, primedOffset, pending: Promise.resolve(), emittedTokens: new Map(), lifecycleState: null };
+}
+
 /**
- * Process only the new bytes appended to events.jsonl since we last read.
- * Emits ActivityUpdate for each new assistant.message event.
+ * Append a task to a live session's queue. A task that fails — a parse error
+ * or a throwing activity callback — is dropped, so the queue stays resolved
+ * and later changes to the session are still processed.
  */
-async function processEventsDelta(filePath: string, sessionDirPath: string): Promise<void> {
-  const callback = activityWatcher.callback;
-  if (!callback) return;
+function enqueueLiveTask(live: LiveSession, task: () => Promise<void> | void): void {
+  live.pending = live.pending.then(task).catch(() => {
+    // Dropped — one failed delta must not stop the session's later updates
+  });
+}
 
-  let stat: Awaited<ReturnType<typeof fs.stat>>;
+/**
+ * Queue delta processing for an events.jsonl. Change events often arrive in
+ * bursts; running them one at a time keeps the shared parse state consistent.
+ */
+function scheduleEventsDelta(filePath: string, sessionDirPath: string): void {
+  let live = activityWatcher.liveSessions.get(filePath);
+  if (!live) {
+    live = createLiveSession(0);
+    activityWatcher.liveSessions.set(filePath, live);
+  }
+
+  const session = live;
+  enqueueLiveTask(session, () => processEventsDelta(filePath, sessionDirPath, session));
+}
+
+/**
+ * Build the parse state for history up to the primed offset, so models,
+ * turns and compaction alignment account for messages that were not emitted.
+ */
+async function seedLiveParseState(filePath: string, primedOffset: number): Promise<SessionParseState | null> {
+  let ino: number;
   try {
-    stat = await fs.stat(filePath);
+    ino = (await fs.stat(filePath)).ino;
   } catch {
-    activityWatcher.fileOffsets.delete(filePath);
-    return;
+    return null;
   }
 
-  const knownOffset = activityWatcher.fileOffsets.get(filePath) ?? 0;
-  const startOffset = stat.size < knownOffset ? 0 : knownOffset;
+  const state = createSessionParseState(ino);
+  const byteOffset = await streamJsonlFile<CopilotCliEventBase>(filePath, 0, (event) => {
+    applyEventToParseState(state, event);
+  }, primedOffset);
+  if (byteOffset === null) return null;
 
-  if (stat.size === startOffset) return;
+  state.byteOffset = byteOffset;
+  return state;
+}
+
+function toActivityUpdate({ messageId, row }: MessageRow): CopilotCliActivityUpdate {
+  // ActivityUpdate has its own reasoning category, so it is taken out of the output here
+  const reasoning = Math.min(getReasoningTokens(row), row.tokens.output);
+  const tokens: ActivityUpdate['tokens'] = {
+    input: row.tokens.input,
+    output: row.tokens.output - reasoning,
+  };
+  if (row.tokens.cacheRead) {
+    tokens.cacheRead = row.tokens.cacheRead;
+  }
+  if (row.tokens.cacheWrite) {
+    tokens.cacheWrite = row.tokens.cacheWrite;
+  }
+  if (reasoning) {
+    tokens.reasoning = reasoning;
+  }
+
+  return {
+    sessionId: row.sessionId,
+    messageId,
+    tokens,
+    timestamp: row.timestamp,
+    metadata: { ...row.metadata, modelId: row.modelId },
+  };
+}
 
-  let chunk: string;
+function toLifecycleChange(
+  sessionId: string,
+  lifecycle: SessionLifecycle,
+  previousState: SessionLifecycleState | null,
+): SessionLifecycleChange {
+  return { ...lifecycle, sessionId, previousState, timestamp: Date.now() };
+}
+
+/**
+ * Work out a live session's lifecycle state and, when it differs from the
+ * state last emitted, report the change to the lifecycle callback. The state
+ * is tracked without one, since message updates carry it, and every change
+ * expires the session list so the next `parseSessions` call returns rows with
+ * the new `metadata.sessionState`. Run on the session's queue.
+ */
+function emitLifecycleChange(
+  live: LiveSession,
+  sessionId: string,
+  mtimeMs: number,
+  processes: SessionProcessSummary | undefined,
+): void {
+  if (!activityWatcher.callback || !live.parseState) return;
+
+  const lifecycle = resolveSessionLifecycle(live.parseState, mtimeMs, processes);
+  if (lifecycle.state === live.lifecycleState) return;
+
+  const previousState = live.lifecycleState;
+  live.lifecycleState = lifecycle.state;
+  // Core polls parseSessions: idle and ended sessions with no new message reach it this way
+  sessionCache.lastCheck = 0;
+  activityWatcher.lifecycleCallback?.(toLifecycleChange(sessionId, lifecycle, previousState));
+}
+
+/**
+ * Queue a lifecycle check for a live session whose parse state is built.
+ */
+function scheduleLifecycleCheck(
+  filePath: string,
+  live: LiveSession,
+  processSummaries: ReadonlyMap<string, SessionProcessSummary>,
+): void {
+  if (!live.parseState) return;
+
+  const sessionId = path.basename(path.dirname(filePath));
+  enqueueLiveTask(live, async () => {
+    if (activityWatcher.liveSessions.get(filePath) !== live) return;
+
+    try {
+      const { mtimeMs } = await fs.stat(filePath);
+      emitLifecycleChange(live, sessionId, mtimeMs, processSummaries.get(sessionId));
+    } catch {
+      // Session file removed — the next delta resets the session
+    }
+  });
+}
+
+function checkLiveLifecycles(): void {
+  const processSummaries = summarizeSessionProcesses();
+  for (const [filePath, live] of activityWatcher.liveSessions) {
+    scheduleLifecycleCheck(filePath, live, processSummaries);
+  }
+}
+
+function hasSameTokens(a: ActivityUpdate['tokens'], b: ActivityUpdate['tokens']): boolean {
+  return a.input === b.input
+    && a.output === b.output
+    && (a.cacheRead ?? 0) === (b.cacheRead ?? 0)
+    && (a.cacheWrite ?? 0) === (b.cacheWrite ?? 0)
+    && (a.reasoning ?? 0) === (b.reasoning ?? 0);
+}
+
+/**
+ * Rebuild the session's rows and emit an update for each new message, plus a
+ * correction (`metadata.isCorrection`) for any already-emitted message whose
+ * tokens changed because new CompactionProcessor entries arrived.
+ */
+async function emitLiveRows(
+  live: LiveSession,
+  state: SessionParseState,
+  sessionDirPath: string,
+  mtimeMs: number,
+  newMessageIds: ReadonlySet<string>,
+): Promise<void> {
+  const [defaultModel, compactionIndex, modelIndex] = await Promise.all([
+    getDefaultModel(),
+    buildCompactionIndex(),
+    buildModelIndex(),
+  ]);
+  const sessionId = path.basename(sessionDirPath);
+  const messageRows = await buildMessageRows(
+    state,
+    sessionDirPath,
+    mtimeMs,
+    defaultModel,
+    compactionIndex.get(sessionId),
+    modelIndex.get(sessionId),
+  );
+
+  for (const messageRow of messageRows) {
+    const callback = activityWatcher.callback;
+    if (!callback) return;
+
+    const isNew = newMessageIds.has(messageRow.messageId);
+    const emitted = live.emittedTokens.get(messageRow.messageId);
+    if (!isNew && !emitted) continue;
+
+    const update = toActivityUpdate(messageRow);
+    if (live.lifecycleState) {
+      update.metadata = { ...update.metadata, sessionState: live.lifecycleState };
+    }
+    if (!isNew && hasSameTokens(emitted!, update.tokens)) continue;
+    if (!isNew) {
+      update.metadata = { ...update.metadata, isCorrection: true };
+    }
+    live.emittedTokens.set(messageRow.messageId, update.tokens);
+    callback(update);
+  }
+}
+
+/**
+ * Fold the events appended to events.jsonl since the last call into the
+ * session's parse state, and emit an ActivityUpdate for each new assistant
+ * message. Updates are built from the same rows `parseSessions` returns.
+ */
+async function processEventsDelta(filePath: string, sessionDirPath: string, live: LiveSession): Promise<void> {
+  if (!activityWatcher.callback || activityWatcher.liveSessions.get(filePath) !== live) return;
+
+  let mtimeMs: number;
   try {
-    const handle = await fs.open(filePath, 'r');
-    const length = stat.size - startOffset;
-    const buffer = Buffer.alloc(length);
-    await handle.read(buffer, 0, length, startOffset);
-    await handle.close();
-    chunk = buffer.toString('utf-8');
+    mtimeMs = (await fs.stat(filePath)).mtimeMs;
   } catch {
+    live.parseState = null;
+    live.primedOffset = 0;
     return;
   }
 
-  activityWatcher.fileOffsets.set(filePath, stat.size);
+  const previous = live.parseState ?? await seedLiveParseState(filePath, live.primedOffset);
+  const knownMessages = previous?.messages.size ?? 0;
+
+  const state = await updateSessionParseState(filePath, previous ?? undefined);
+  if (!state) return;
+  live.parseState = state;
 
-  // Get session ID from directory name or workspace.yaml
-  const workspace = await readWorkspaceYaml(path.join(sessionDirPath, 'workspace.yaml'));
-  const sessionId = workspace?.id ?? path.basename(sessionDirPath);
+  const sessionId = path.basename(sessionDirPath);
+  emitLifecycleChange(live, sessionId, mtimeMs, summarizeSessionProcesses().get(sessionId));
 
-  const lines = chunk.split(/\r?\n/);
+  // A replaced or truncated file restarts the state — every message in it is new.
+  const firstNewMessage = state === previous ? knownMessages : 0;
+  if (state.messages.size <= firstNewMessage) return;
 
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
+  const newMessageIds = new Set(Array.from(state.messages.keys()).slice(firstNewMessage));
+  await emitLiveRows(live, state, sessionDirPath, mtimeMs, newMessageIds);
+}
+
+/**
+ * Re-emit a live session's messages whose tokens changed after its process
+ * log gained CompactionProcessor entries.
+ */
+function scheduleCompactionCorrections(sessionId: string): void {
+  const sessionDirPath = activityWatcher.watchedSessionIds.get(sessionId);
+  if (!sessionDirPath) return;
+
+  const filePath = path.join(sessionDirPath, 'events.jsonl');
+  const live = activityWatcher.liveSessions.get(filePath);
+  if (!live) return;
+
+  enqueueLiveTask(live, async () => {
+    const state = live.parseState;
+    if (!state || live.emittedTokens.size === 0 || activityWatcher.liveSessions.get(filePath) !== live) return;
 
-    let event: unknown;
     try {
-      event = JSON.parse(trimmed) as unknown;
+      const { mtimeMs } = await fs.stat(filePath);
+      await emitLiveRows(live, state, sessionDirPath, mtimeMs, new Set());
     } catch {
-      continue;
+      // Session file removed — nothing to correct
     }
+  });
+}
 
-    if (!isAssistantMessage(event)) continue;
+/**
+ * Read the lines appended to a process log into the shared process log index
+ * (a new, replaced or truncated file is read from the start). New
+ * CompactionProcessor entries trigger corrections for the session named by
+ * `Workspace initialized`; any change re-checks its lifecycle state.
+ */
+async function processLogDelta(logPath: string): Promise<void> {
+  let stat: fsSync.Stats;
+  try {
+    stat = await fs.stat(logPath);
+  } catch {
+    removeProcessLog(logPath);
+    return;
+  }
 
-    const { data } = event;
+  const added = await updateProcessLog({ path: logPath, ino: stat.ino, mtimeMs: stat.mtimeMs, size: stat.size });
+  if (added === null) return;
 
-    let inputTokens: number;
-    let outputTokens: number;
+  const sessionId = processLogCache.get(logPath)?.data.sessionId;
+  if (!sessionId) return;
 
-    if (data.usage && typeof data.usage.prompt_tokens === 'number' && data.usage.prompt_tokens > 0) {
-      inputTokens = data.usage.prompt_tokens;
-      outputTokens = data.usage.completion_tokens ?? 0;
-    } else {
-      outputTokens = estimateTokens(data.content);
-      inputTokens = Math.ceil(outputTokens * 0.5);
-    }
+  if (added > 0) {
+    scheduleCompactionCorrections(sessionId);
+  }
 
-    const tokens: ActivityUpdate['tokens'] = {
-      input: inputTokens,
-      output: outputTokens,
-    };
+  // Process log output keeps a session live, and a new process resumes it
+  const sessionDirPath = activityWatcher.watchedSessionIds.get(sessionId);
+  const filePath = sessionDirPath ? path.join(sessionDirPath, 'events.jsonl') : null;
+  const live = filePath ? activityWatcher.liveSessions.get(filePath) : undefined;
+  if (filePath && live) {
+    scheduleLifecycleCheck(filePath, live, summarizeSessionProcesses());
+  }
+}
 
-    if (data.usage?.cache_read_input_tokens && data.usage.cache_read_input_tokens > 0) {
-      tokens.cacheRead = data.usage.cache_read_input_tokens;
-    }
-    if (data.usage?.cache_creation_input_tokens && data.usage.cache_creation_input_tokens > 0) {
-      tokens.cacheWrite = data.usage.cache_creation_input_tokens;
-    }
+/**
+ * Follow every root's process logs. Each change to a `process-*.log` —
+ * including a newly created one when the CLI starts a new process — is read
+ * from its last offset.
+ */
+function watchLogDirs(): void {
+  for (const root of getCopilotCliRoots()) {
+    const logsPath = root.logsPath;
+    if (activityWatcher.logDirWatchers.has(logsPath)) continue;
 
-    callback({
-      sessionId,
-      messageId: data.messageId,
-      tokens,
-      timestamp: toTimestamp(event.timestamp, Date.now()),
-    });
+    try {
+      const watcher = fsSync.watch(logsPath, (_eventType, filename) => {
+        if (!filename || !filename.startsWith('process-') || !filename.endsWith('.log')) return;
+        processLogDelta(path.join(logsPath, filename)).catch(() => {
+          // A log that cannot be read is retried on its next change
+        });
+      });
+      activityWatcher.logDirWatchers.set(logsPath, watcher);
+    } catch {
+      // Logs dir might not exist yet
+    }
   }
 }
 
@@ -193,19 +511,16 @@ export function watchSessionDir(sessionDirPath: string): void {
   }
 }
 
+function onNewSessionDir(sessionStatePath: string, filename: string): void {
+  tryWatchNewSessionDir(sessionStatePath, filename, watchSessionDir);
+}
+
 export function startSessionWatcher(): void {
+  watchSessionStateRoots(sessionWatcher.rootWatchers, onNewSessionDir);
+
   if (sessionWatcher.started) return;
   sessionWatcher.started = true;
 
-  try {
-    sessionWatcher.rootWatcher = fsSync.watch(COPILOT_CLI_SESSION_STATE_PATH, (eventType, filename) => {
-      if (eventType !== 'rename' || !filename) return;
-      tryWatchNewSessionDir(filename, watchSessionDir);
-    });
-  } catch {
-    // Session state dir might not exist yet
-  }
-
   void getSessionDirs().then((dirs) => {
     for (const dirPath of dirs) {
       watchSessionDir(dirPath);
@@ -228,15 +543,20 @@ export function stopSessionWatcher(): void {
   }
   sessionWatcher.sessionDirWatchers.clear();
 
-  if (sessionWatcher.rootWatcher) {
-    sessionWatcher.rootWatcher.close();
-    sessionWatcher.rootWatcher = null;
-  }
+  closeRootWatchers(sessionWatcher.rootWatchers);
 
   sessionWatcher.dirtyPaths.clear();
   sessionWatcher.started = false;
 }
 
+/**
+ * Force the next parse to stat every session dir instead of trusting the
+ * metadata index (e.g. after the index was restored from disk).
+ */
+export function requestFullReconciliation(): void {
+  forceFullReconciliation = true;
+}
+
 export function consumeForceFullReconciliation(): boolean {
   const value = forceFullReconciliation;
   if (forceFullReconciliation) {
@@ -245,44 +565,108 @@ export function consumeForceFullReconciliation(): boolean {
   return value;
 }
 
+function onNewActivitySessionDir(sessionStatePath: string, filename: string): void {
+  const sessionDirPath = path.join(sessionStatePath, filename);
+  watchSessionDirForActivity(sessionDirPath);
+  void primeSessionOffset(sessionDirPath);
+}
+
+function watchExistingSessionDirsForActivity(): void {
+  void getSessionDirs().then((dirs) => {
+    for (const dirPath of dirs) {
+      watchSessionDirForActivity(dirPath);
+      void primeSessionOffset(dirPath);
+    }
+  });
+}
+
+/**
+ * Receive the lifecycle changes of live sessions while activity watching is
+ * on; null stops them. Kept across stop and start of the activity watch.
+ */
+export function onSessionLifecycleChange(callback: SessionLifecycleCallback | null): void {
+  activityWatcher.lifecycleCallback = callback;
+}
+
 export function startActivityWatch(callback: ActivityCallback): void {
   activityWatcher.callback = callback;
 
   if (activityWatcher.started) return;
   activityWatcher.started = true;
 
-  try {
-    activityWatcher.rootWatcher = fsSync.watch(COPILOT_CLI_SESSION_STATE_PATH, (eventType, filename) => {
-      if (eventType !== 'rename' || !filename) return;
+  watchSessionStateRoots(activityWatcher.rootWatchers, onNewActivitySessionDir);
+  watchLogDirs();
+  activityWatcher.lifecycleTimer = setInterval(checkLiveLifecycles, LIFECYCLE_CHECK_INTERVAL_MS);
+
+  watchExistingSessionDirsForActivity();
+}
+
+/** Close the watchers whose path is not kept, returning the closed paths. */
+function closeWatchersExcept(watchers: Map<string, fsSync.FSWatcher>, keep: (watchedPath: string) => boolean): string[] {
+  const closed: string[] = [];
+  for (const [watchedPath, watcher] of watchers) {
+    if (keep(watchedPath)) continue;
+    watcher.close();
+    watchers.delete(watchedPath);
+    closed.push(watchedPath);
+  }
+  return closed;
+}
 
-      const sessionDirPath = path.join(COPILOT_CLI_SESSION_STATE_PATH, filename);
-      watchSessionDirForActivity(sessionDirPath);
-      void primeSessionOffset(sessionDirPath);
+/**
+ * Re-point the running watchers at the current Copilot roots after the
+ * configured homes changed. Dropped roots stop being watched; new roots are
+ * watched along with the session dirs already under them, and the next parse
+ * re-stats every session.
+ */
+export function refreshWatchedRoots(): void {
+  const roots = getCopilotCliRoots();
+  const sessionStatePaths = new Set(roots.map((root) => root.sessionStatePath));
+  const logsPaths = new Set(roots.map((root) => root.logsPath));
+  const inRoot = (sessionDirPath: string): boolean => sessionStatePaths.has(path.dirname(sessionDirPath));
+
+  closeWatchersExcept(sessionWatcher.rootWatchers, (watchedPath) => sessionStatePaths.has(watchedPath));
+  closeWatchersExcept(sessionWatcher.sessionDirWatchers, inRoot);
+  if (sessionWatcher.started) {
+    watchSessionStateRoots(sessionWatcher.rootWatchers, onNewSessionDir);
+    void getSessionDirs().then((dirs) => {
+      for (const dirPath of dirs) {
+        watchSessionDir(dirPath);
+      }
     });
-  } catch {
-    // Session state dir might not exist yet
   }
 
-  void getSessionDirs().then((dirs) => {
-    for (const dirPath of dirs) {
-      watchSessionDirForActivity(dirPath);
-      void primeSessionOffset(dirPath);
-    }
-  });
+  closeWatchersExcept(activityWatcher.rootWatchers, (watchedPath) => sessionStatePaths.has(watchedPath));
+  closeWatchersExcept(activityWatcher.logDirWatchers, (watchedPath) => logsPaths.has(watchedPath));
+  for (const sessionDirPath of closeWatchersExcept(activityWatcher.sessionDirWatchers, inRoot)) {
+    activityWatcher.watchedSessionIds.delete(path.basename(sessionDirPath));
+    activityWatcher.liveSessions.delete(path.join(sessionDirPath, 'events.jsonl'));
+  }
+  if (activityWatcher.started) {
+    watchSessionStateRoots(activityWatcher.rootWatchers, onNewActivitySessionDir);
+    watchLogDirs();
+    watchExistingSessionDirsForActivity();
+  }
+
+  requestFullReconciliation();
 }
 
 export function stopActivityWatch(): void {
+  if (activityWatcher.lifecycleTimer) {
+    clearInterval(activityWatcher.lifecycleTimer);
+    activityWatcher.lifecycleTimer = null;
+  }
+
   for (const watcher of activityWatcher.sessionDirWatchers.values()) {
     watcher.close();
   }
   activityWatcher.sessionDirWatchers.clear();
 
-  if (activityWatcher.rootWatcher) {
-    activityWatcher.rootWatcher.close();
-    activityWatcher.rootWatcher = null;
-  }
+  closeRootWatchers(activityWatcher.rootWatchers);
+  closeRootWatchers(activityWatcher.logDirWatchers);
 
-  activityWatcher.fileOffsets.clear();
+  activityWatcher.watchedSessionIds.clear();
+  activityWatcher.liveSessions.clear();
   activityWatcher.callback = null;
   activityWatcher.started = false;
 
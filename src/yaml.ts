@@ -0,0 +1,727 @@
+import type { YamlMap, YamlValue } from './types.ts';
+
+/**
+ * Parser for the block-style YAML subset Copilot CLI writes to
+ * workspace.yaml: nested block mappings and sequences (including compact
+ * `- key: value` items), plain, single- and double-quoted scalars that may
+ * span lines, literal (`|`) and folded (`>`) block scalars with chomping and
+ * indentation indicators, flow collections, and comments.
+ *
+ * Plain scalars resolve with the YAML 1.2 core schema (null, booleans, ints,
+ * floats); everything else is a string. Anchors, aliases, tags and explicit
+ * `?` keys are not supported. Only the first document is read.
+ *
+ * Throws an Error naming the offending line on malformed input.
+ */
+export function parseYaml(content: string): YamlValue {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  // A final newline terminates the last line rather than starting an empty one.
+  if (lines[lines.length - 1] === '') lines.pop();
+  return parseDocument({ lines, pos: 0, end: lines.length });
+}
+
+const RE_INT = /^[-+]?[0-9]+$/;
+const RE_OCT = /^0o[0-7]+$/;
+const RE_HEX = /^0x[0-9a-fA-F]+$/;
+const RE_FLOAT = /^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/;
+
+/**
+ * Resolve a plain scalar with the YAML 1.2 core schema. Integers beyond the
+ * safe range stay strings rather than losing precision.
+ */
+export function resolvePlainScalar(text: string): YamlValue {
+  switch (text) {
+    case '':
+    case '~':
+    case 'null':
+    case 'Null':
+    case 'NULL':
+      return null;
+    case 'true':
+    case 'True':
+    case 'TRUE':
+      return true;
+    case 'false':
+    case 'False':
+    case 'FALSE':
+      return false;
+    case '.inf':
+    case '.Inf':
+    case '.INF':
+    case '+.inf':
+    case '+.Inf':
+    case '+.INF':
+      return Infinity;
+    case '-.inf':
+    case '-.Inf':
+    case '-.INF':
+      return -Infinity;
+    case '.nan':
+    case '.NaN':
+    case '.NAN':
+      return NaN;
+  }
+
+  let integer: number | null = null;
+  if (RE_INT.test(text)) integer = Number(text);
+  else if (RE_OCT.test(text)) integer = parseInt(text.slice(2), 8);
+  else if (RE_HEX.test(text)) integer = parseInt(text.slice(2), 16);
+
+  if (integer !== null) {
+    return Number.isSafeInteger(integer) ? integer : text;
+  }
+  if (RE_FLOAT.test(text)) {
+    return Number(text);
+  }
+  return text;
+}
+
+const SIMPLE_ESCAPES: Readonly<Record<string, string>> = {
+  '0': '\0',
+  'a': '\x07',
+  'b': '\b',
+  't': '\t',
+  '\t': '\t',
+  'n': '\n',
+  'v': '\v',
+  'f': '\f',
+  'r': '\r',
+  'e': '\x1b',
+  ' ': ' ',
+  '"': '"',
+  '/': '/',
+  '\\': '\\',
+  'N': '\u0085',
+  '_': '\u00a0',
+  'L': '\u2028',
+  'P': '\u2029',
+};
+
+const HEX_ESCAPE_LENGTHS: Readonly<Record<string, number>> = { x: 2, u: 4, U: 8 };
+
+function decodeEscapes(text: string): string {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (char !== '\\') {
+      out += char;
+      continue;
+    }
+
+    const code = text[i + 1];
+    if (code === undefined) {
+      throw new Error('Unterminated escape sequence');
+    }
+
+    const simple = SIMPLE_ESCAPES[code];
+    if (simple !== undefined) {
+      out += simple;
+      i++;
+      continue;
+    }
+
+    const hexLength = HEX_ESCAPE_LENGTHS[code];
+    const hex = hexLength ? text.slice(i + 2, i + 2 + hexLength) : '';
+    if (!hexLength || hex.length !== hexLength || !/^[0-9a-fA-F]+$/.test(hex)) {
+      throw new Error(`Invalid escape sequence \\${code}`);
+    }
+    out += String.fromCodePoint(parseInt(hex, 16));
+    i += 1 + hexLength;
+  }
+  return out;
+}
+
+function endsWithEscapedBreak(line: string): boolean {
+  const trailing = /\\+$/.exec(line);
+  return trailing !== null && trailing[0].length % 2 === 1;
+}
+
+/**
+ * Fold the lines of a quoted scalar: a single line break becomes a space,
+ * each empty line a newline, and surrounding whitespace is trimmed. In
+ * double-quoted scalars a trailing `\` joins lines without a space.
+ */
+function foldQuotedLines(lines: string[], style: '"' | "'"): string {
+  const last = lines.length - 1;
+  let out = '';
+  let emptyLines = 0;
+  let escapedBreak = false;
+
+  for (let i = 0; i <= last; i++) {
+    let line = lines[i]!;
+    if (i > 0) line = line.replace(/^[ \t]+/, '');
+    if (i < last) line = line.replace(/[ \t]+$/, '');
+
+    if (i > 0 && i < last && line === '') {
+      emptyLines++;
+      continue;
+    }
+
+    if (i > 0 && !escapedBreak) {
+      out += emptyLines > 0 ? '\n'.repeat(emptyLines) : ' ';
+    }
+    emptyLines = 0;
+    escapedBreak = false;
+
+    if (style === '"' && i < last && endsWithEscapedBreak(line)) {
+      line = line.slice(0, -1);
+      escapedBreak = true;
+    }
+
+    out += style === '"' ? decodeEscapes(line) : line.replace(/''/g, "'");
+  }
+
+  return out;
+}
+
+/** Index of the closing quote in `text`, or -1 when the scalar continues. */
+function findClosingQuote(text: string, start: number, quote: '"' | "'"): number {
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (quote === '"' && char === '\\') {
+      i++;
+    } else if (char === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++;
+      } else {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/** Strip a trailing ` # comment` from a plain scalar or header. */
+function stripComment(text: string): string {
+  const match = /(^|[ \t])#/.exec(text);
+  return (match ? text.slice(0, match.index) : text).trimEnd();
+}
+
+function isBlank(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === '' || trimmed.startsWith('#');
+}
+
+function indentOf(line: string): number {
+  let indent = 0;
+  while (line[indent] === ' ') indent++;
+  return indent;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ') || text.startsWith('-\t');
+}
+
+/**
+ * Split `key: rest` off the start of a line. Returns null when the line is
+ * not a mapping entry.
+ */
+function splitMappingEntry(text: string): { key: string; rest: string } | null {
+  const first = text[0];
+  if (first === '"' || first === "'") {
+    const close = findClosingQuote(text, 1, first);
+    if (close === -1) return null;
+
+    const after = text.slice(close + 1);
+    const colon = /^[ \t]*:(?=[ \t]|$)/.exec(after);
+    if (!colon) return null;
+
+    return {
+      key: foldQuotedLines([text.slice(1, close)], first),
+      rest: after.slice(colon[0].length),
+    };
+  }
+
+  if (first === undefined || isSequenceItem(text) || '#[]{}|>&*!%@`?,'.includes(first)) {
+    return null;
+  }
+
+  const colon = /:(?=[ \t]|$)/.exec(text);
+  if (!colon) return null;
+
+  const key = text.slice(0, colon.index).trimEnd();
+  if (key === '' || /[ \t]#/.test(key)) return null;
+
+  return { key, rest: text.slice(colon.index + 1) };
+}
+
+interface BlockParserState {
+  lines: string[];
+  pos: number;
+  /** Index of the first line past the document (a `---` or `...` marker). */
+  end: number;
+}
+
+function fail(state: BlockParserState, message: string): never {
+  throw new Error(`YAML line ${state.pos + 1}: ${message}`);
+}
+
+function skipBlankLines(state: BlockParserState): void {
+  while (state.pos < state.end && isBlank(state.lines[state.pos]!)) {
+    state.pos++;
+  }
+}
+
+function checkIndentation(state: BlockParserState, line: string): number {
+  const indent = indentOf(line);
+  if (line[indent] === '\t') {
+    fail(state, 'tabs are not allowed in indentation');
+  }
+  return indent;
+}
+
+/** Assign without letting a `__proto__` key reach the prototype. */
+export function setMapEntry(map: YamlMap, key: string, value: YamlValue): void {
+  Object.defineProperty(map, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+function parseDocument(state: BlockParserState): YamlValue {
+  skipBlankLines(state);
+  while (state.pos < state.end && state.lines[state.pos]!.startsWith('%')) {
+    state.pos++;
+    skipBlankLines(state);
+  }
+
+  const first = state.lines[state.pos];
+  if (first !== undefined && /^---(?=[ \t]|$)/.test(first)) {
+    const rest = first.slice(3);
+    if (isBlank(rest)) {
+      state.pos++;
+    } else {
+      state.lines[state.pos] = '   ' + rest;
+    }
+  }
+
+  for (let i = state.pos; i < state.lines.length; i++) {
+    if (/^(---|\.\.\.)(?=[ \t]|$)/.test(state.lines[i]!)) {
+      state.end = i;
+      break;
+    }
+  }
+
+  skipBlankLines(state);
+  if (state.pos >= state.end) return null;
+
+  const value = parseNode(state, -1);
+
+  skipBlankLines(state);
+  if (state.pos < state.end) {
+    fail(state, 'unexpected content');
+  }
+  return value;
+}
+
+/** Parse the node starting on the current (non-blank) line. */
+function parseNode(state: BlockParserState, parentIndent: number): YamlValue {
+  const line = state.lines[state.pos]!;
+  const indent = checkIndentation(state, line);
+  const text = line.slice(indent);
+
+  if (isSequenceItem(text)) {
+    return parseBlockSequence(state, indent);
+  }
+  if (splitMappingEntry(text)) {
+    return parseBlockMapping(state, indent);
+  }
+  return parseScalar(state, parentIndent, text);
+}
+
+function parseBlockMapping(state: BlockParserState, indent: number): YamlMap {
+  const map: YamlMap = {};
+
+  while (true) {
+    skipBlankLines(state);
+    if (state.pos >= state.end) break;
+
+    const line = state.lines[state.pos]!;
+    const lineIndent = checkIndentation(state, line);
+    if (lineIndent < indent) break;
+    if (lineIndent > indent) fail(state, 'unexpected indentation');
+
+    const entry = splitMappingEntry(line.slice(indent));
+    if (!entry) {
+      if (isSequenceItem(line.slice(indent))) break;
+      fail(state, 'expected a mapping entry');
+    }
+
+    setMapEntry(map, entry.key, parseEntryValue(state, indent, entry.rest, true));
+  }
+
+  return map;
+}
+
+function parseBlockSequence(state: BlockParserState, indent: number): YamlValue[] {
+  const items: YamlValue[] = [];
+
+  while (true) {
+    skipBlankLines(state);
+    if (state.pos >= state.end) break;
+
+    const line = state.lines[state.pos]!;
+    const lineIndent = checkIndentation(state, line);
+    if (lineIndent < indent) break;
+    if (lineIndent > indent) fail(state, 'unexpected indentation');
+
+    const text = line.slice(indent);
+    if (!isSequenceItem(text)) break;
+
+    if (isBlank(text.slice(1))) {
+      items.push(parseEntryValue(state, indent, '', false));
+      continue;
+    }
+
+    // Re-read the item in place with the dash blanked out, so compact
+    // `- key: value` items parse as a mapping at the item's column.
+    state.lines[state.pos] = ' '.repeat(indent + 1) + text.slice(1);
+    items.push(parseNode(state, indent));
+  }
+
+  return items;
+}
+
+/**
+ * Parse the value following `key:` or a bare `-`. `rest` is the remainder
+ * of the current line; an empty rest means the value is on the next lines.
+ * Only a mapping value may be a sequence at the key's own indentation.
+ */
+function parseEntryValue(state: BlockParserState, indent: number, rest: string, inMapping: boolean): YamlValue {
+  const inline = rest.trim();
+  if (inline !== '' && !inline.startsWith('#')) {
+    return parseScalar(state, indent, inline);
+  }
+
+  state.pos++;
+  skipBlankLines(state);
+  if (state.pos >= state.end) return null;
+
+  const line = state.lines[state.pos]!;
+  const lineIndent = indentOf(line);
+  if (lineIndent > indent) {
+    return parseNode(state, indent);
+  }
+  if (inMapping && lineIndent === indent && isSequenceItem(line.slice(indent))) {
+    return parseBlockSequence(state, indent);
+  }
+  return null;
+}
+
+/**
+ * Parse a scalar or flow collection beginning with `text` on the current
+ * line. Continuation lines must be indented deeper than `parentIndent`.
+ */
+function parseScalar(state: BlockParserState, parentIndent: number, text: string): YamlValue {
+  const first = text[0];
+
+  if (first === '|' || first === '>') {
+    return parseBlockScalar(state, parentIndent, text);
+  }
+  if (first === '"' || first === "'") {
+    return parseQuotedScalar(state, text, first);
+  }
+  if (first === '[' || first === '{') {
+    return parseFlowCollection(state, parentIndent, text);
+  }
+  if (first === '&' || first === '*' || first === '!' || first === '?') {
+    fail(state, `unsupported syntax "${first}"`);
+  }
+  return parsePlainScalar(state, parentIndent, text);
+}
+
+function parsePlainScalar(state: BlockParserState, parentIndent: number, text: string): YamlValue {
+  let value = stripComment(text);
+  const commented = value.length < text.trimEnd().length;
+  state.pos++;
+
+  if (commented) {
+    return resolvePlainScalar(value);
+  }
+
+  let emptyLines = 0;
+  let multiline = false;
+  while (state.pos < state.end) {
+    const line = state.lines[state.pos]!;
+    const trimmed = line.trim();
+
+    if (trimmed === '') {
+      emptyLines++;
+      state.pos++;
+      continue;
+    }
+    if (indentOf(line) <= parentIndent || trimmed.startsWith('#')) break;
+
+    const continuation = stripComment(trimmed);
+    value += emptyLines > 0 ? '\n'.repeat(emptyLines) : ' ';
+    value += continuation;
+    emptyLines = 0;
+    multiline = true;
+    state.pos++;
+
+    if (continuation.length < trimmed.length) break;
+  }
+
+  // Rewind over trailing empty lines so they stay blank lines, not content.
+  state.pos -= emptyLines;
+  return multiline ? value : resolvePlainScalar(value);
+}
+
+function parseQuotedScalar(state: BlockParserState, text: string, quote: '"' | "'"): string {
+  const startLine = state.pos;
+  const parts: string[] = [];
+  let current = text.slice(1);
+  let close = findClosingQuote(current, 0, quote);
+
+  while (close === -1) {
+    parts.push(current);
+    state.pos++;
+    if (state.pos >= state.end) {
+      state.pos = startLine;
+      fail(state, 'unterminated quoted scalar');
+    }
+    current = state.lines[state.pos]!;
+    close = findClosingQuote(current, 0, quote);
+  }
+
+  parts.push(current.slice(0, close));
+  if (!isBlank(current.slice(close + 1))) {
+    fail(state, 'unexpected content after quoted scalar');
+  }
+  state.pos++;
+
+  try {
+    return foldQuotedLines(parts, quote);
+  } catch (error) {
+    state.pos = startLine;
+    fail(state, (error as Error).message);
+  }
+}
+
+function parseBlockScalar(state: BlockParserState, parentIndent: number, header: string): string {
+  const match = /^([|>])([1-9]?)([-+]?)([1-9]?)$/.exec(stripComment(header));
+  if (!match || (match[2] && match[4])) {
+    fail(state, 'invalid block scalar header');
+  }
+
+  const folded = match[1] === '>';
+  const chomping = match[3] ?? '';
+  const explicitIndent = Number(match[2] || match[4] || 0);
+  state.pos++;
+
+  let contentIndent = explicitIndent > 0 ? Math.max(0, parentIndent + explicitIndent) : -1;
+  const contentLines: string[] = [];
+
+  while (state.pos < state.end) {
+    const line = state.lines[state.pos]!;
+    if (line.trim() === '') {
+      contentLines.push(contentIndent >= 0 && line.length > contentIndent ? line.slice(contentIndent) : '');
+      state.pos++;
+      continue;
+    }
+
+    const lineIndent = indentOf(line);
+    if (contentIndent < 0) {
+      if (lineIndent <= parentIndent) break;
+      contentIndent = lineIndent;
+    }
+    if (lineIndent < contentIndent) break;
+
+    contentLines.push(line.slice(contentIndent));
+    state.pos++;
+  }
+
+  let trailingEmpty = 0;
+  while (trailingEmpty < contentLines.length && contentLines[contentLines.length - 1 - trailingEmpty] === '') {
+    trailingEmpty++;
+  }
+  const body = contentLines.slice(0, contentLines.length - trailingEmpty);
+
+  let value = folded ? foldBlockLines(body) : body.join('\n');
+  if (chomping === '+') {
+    value += '\n'.repeat(trailingEmpty + (body.length > 0 ? 1 : 0));
+  } else if (chomping === '' && body.length > 0) {
+    value += '\n';
+  }
+  return value;
+}
+
+function parseFlowCollection(state: BlockParserState, parentIndent: number, text: string): YamlValue {
+  const startLine = state.pos;
+  let source = text;
+
+  while (!isFlowComplete(source)) {
+    state.pos++;
+    const line = state.lines[state.pos];
+    if (line === undefined || state.pos >= state.end || (indentOf(line) <= parentIndent && !isBlank(line))) {
+      state.pos = startLine;
+      fail(state, 'unterminated flow collection');
+    }
+    source += '\n' + line;
+  }
+  state.pos++;
+
+  try {
+    return parseFlow(source);
+  } catch (error) {
+    state.pos = startLine;
+    fail(state, (error as Error).message);
+  }
+}
+
+/**
+ * Fold the body of a `>` block scalar: line breaks between text lines become
+ * spaces, while breaks around more-indented lines and empty lines are kept.
+ */
+function foldBlockLines(lines: string[]): string {
+  let out = '';
+  let previous: 'none' | 'text' | 'indented' = 'none';
+  let emptyLines = 0;
+
+  for (const line of lines) {
+    if (line === '') {
+      emptyLines++;
+      continue;
+    }
+
+    const indented = line[0] === ' ' || line[0] === '\t';
+    if (previous === 'none') {
+      out += '\n'.repeat(emptyLines);
+    } else if (previous === 'text' && !indented) {
+      out += emptyLines > 0 ? '\n'.repeat(emptyLines) : ' ';
+    } else {
+      out += '\n'.repeat(emptyLines + 1);
+    }
+
+    out += line;
+    previous = indented ? 'indented' : 'text';
+    emptyLines = 0;
+  }
+
+  return out;
+}
+
+/** True once every bracket opened in `source` (outside quotes and comments) is closed. */
+function isFlowComplete(source: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]!;
+    if (char === '"' || char === "'") {
+      const close = findClosingQuote(source, i + 1, char);
+      if (close === -1) return false;
+      i = close;
+    } else if (char === '#' && (i === 0 || /\s/.test(source[i - 1]!))) {
+      const newline = source.indexOf('\n', i);
+      if (newline === -1) break;
+      i = newline;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) return true;
+    }
+  }
+  return false;
+}
+
+/** Parse a complete flow collection such as `[a, "b"]` or `{key: [1, 2]}`. */
+function parseFlow(source: string): YamlValue {
+  let pos = 0;
+
+  const skipSpace = (): void => {
+    while (pos < source.length) {
+      const char = source[pos]!;
+      if (char === ' ' || char === '\t' || char === '\n') {
+        pos++;
+      } else if (char === '#' && (pos === 0 || /\s/.test(source[pos - 1]!))) {
+        while (pos < source.length && source[pos] !== '\n') pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const parseScalarText = (): { value: YamlValue; plain: boolean } => {
+    const char = source[pos];
+    if (char === '"' || char === "'") {
+      const close = findClosingQuote(source, pos + 1, char);
+      if (close === -1) throw new Error('unterminated quoted scalar');
+      const value = foldQuotedLines(source.slice(pos + 1, close).split('\n'), char);
+      pos = close + 1;
+      return { value, plain: false };
+    }
+
+    const start = pos;
+    while (pos < source.length) {
+      const current = source[pos]!;
+      if (',[]{}'.includes(current)) break;
+      if (current === ':' && /[\s,\]}]/.test(source[pos + 1] ?? ' ')) break;
+      if (current === '#' && /\s/.test(source[pos - 1] ?? ' ')) break;
+      pos++;
+    }
+    const text = source.slice(start, pos).replace(/\s*\n\s*/g, ' ').trim();
+    return { value: resolvePlainScalar(text), plain: true };
+  };
+
+  const parseValue = (): YamlValue => {
+    skipSpace();
+    const char = source[pos];
+    if (char === '[') return parseSequence();
+    if (char === '{') return parseMapping();
+    return parseScalarText().value;
+  };
+
+  const expectSeparator = (closer: string): boolean => {
+    skipSpace();
+    if (source[pos] === ',') {
+      pos++;
+      skipSpace();
+      return source[pos] !== closer;
+    }
+    if (source[pos] === closer) return false;
+    throw new Error(`expected "," or "${closer}" in flow collection`);
+  };
+
+  function parseSequence(): YamlValue[] {
+    const items: YamlValue[] = [];
+    pos++;
+    skipSpace();
+    if (source[pos] === ']') {
+      pos++;
+      return items;
+    }
+    do {
+      items.push(parseValue());
+    } while (expectSeparator(']'));
+    pos++;
+    return items;
+  }
+
+  function parseMapping(): YamlMap {
+    const map: YamlMap = {};
+    pos++;
+    skipSpace();
+    if (source[pos] === '}') {
+      pos++;
+      return map;
+    }
+    do {
+      skipSpace();
+      const { value: key } = parseScalarText();
+      skipSpace();
+      let value: YamlValue = null;
+      if (source[pos] === ':') {
+        pos++;
+        skipSpace();
+        value = source[pos] === ',' || source[pos] === '}' ? null : parseValue();
+      }
+      setMapEntry(map, String(key), value);
+    } while (expectSeparator('}'));
+    pos++;
+    return map;
+  }
+
+  const value = parseValue();
+  skipSpace();
+  if (pos < source.length) {
+    throw new Error('unexpected content after flow collection');
+  }
+  return value;
+}
@@ -0,0 +1,174 @@
+import { afterEach, describe, test, expect } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { runCli, type CliIO } from '../src/cli.ts';
+import { configureCopilotHomes } from '../src/paths.ts';
+import { configurePersistentCache } from '../src/persist.ts';
+import { createHome, event, type SessionFixture } from './fixtures.ts';
+
+const FIRST_SESSION = '3c9d2f1e-0000-4000-8000-000000000001';
+const SECOND_SESSION = '3c9d7a4b-0000-4000-8000-000000000002';
+const LOGGED_ONLY_SESSION = '3c9d2f1e-0000-4000-8000-000000000003';
+
+function cliSession(sessionId: string, day: string, events: string[], workspace = true): SessionFixture {
+  return {
+    events: [event('session.start', `${sessionId}-start`, `${day}T09:00:00.000Z`, { sessionId, version: 1 }), ...events],
+    ...(workspace ? { workspace: { id: sessionId, cwd: '/work/app', summary: 'Fix login bug' } } : {}),
+  };
+}
+
+async function createCliHome(): Promise<string> {
+  const home = await createHome({
+    [FIRST_SESSION]: {
+      ...cliSession(FIRST_SESSION, '2026-03-01', [
+        event('session.model_change', 'first-model', '2026-03-01T09:00:01.000Z', { newModel: 'claude-sonnet-4.6' }),
+        event('assistant.message', 'first-m1', '2026-03-01T09:00:10.000Z', {
+          messageId: 'first-msg-1',
+          content: 'Looking at the login handler.',
+          interactionId: 'i1',
+          usage: { input_tokens: 1200, output_tokens: 80 },
+        }),
+      ]),
+      updatedAt: 1_000,
+    },
+    // No model in the events — resolved from the session's process log
+    [SECOND_SESSION]: {
+      ...cliSession(SECOND_SESSION, '2026-03-02', [
+        event('assistant.message', 'second-m1', '2026-03-02T09:00:10.000Z', {
+          messageId: 'second-msg-1',
+          content: 'Added a regression test.',
+          interactionId: 'i1',
+        }),
+      ], false),
+      updatedAt: 2_000,
+    },
+  });
+
+  const logsDir = path.join(home, 'logs');
+  await fs.mkdir(logsDir, { recursive: true });
+  await fs.writeFile(path.join(logsDir, 'process-1.log'), [
+    `2026-03-02T08:59:59.000Z [INFO] Workspace initialized: ${SECOND_SESSION}`,
+    '2026-03-02T09:00:00.000Z [INFO] Using default model: gpt-5.1',
+    '',
+  ].join('\n'));
+  await fs.writeFile(path.join(logsDir, 'process-2.log'), [
+    `2026-03-03T08:59:59.000Z [INFO] Workspace initialized: ${LOGGED_ONLY_SESSION}`,
+    '2026-03-03T09:00:00.000Z [INFO] Using default model: mystery-model-9',
+    '',
+  ].join('\n'));
+
+  await fs.utimes(path.join(logsDir, 'process-1.log'), 2_000, 2_000);
+  await fs.utimes(path.join(logsDir, 'process-2.log'), 3_000, 3_000);
+  return home;
+}
+
+async function run(argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  let stdout = '';
+  let stderr = '';
+  const io: CliIO = {
+    stdout: (text) => { stdout += text; },
+    stderr: (text) => { stderr += text; },
+  };
+  const code = await runCli(argv, io);
+  return { code, stdout, stderr };
+}
+
+describe('runCli', () => {
+  afterEach(() => {
+    configureCopilotHomes(undefined);
+    configurePersistentCache(undefined);
+  });
+
+  test('lists sessions of the chosen home only, newest first', async () => {
+    const home = await createCliHome();
+    const { code, stdout } = await run(['list', '--home', home]);
+
+    expect(code).toBe(0);
+    const lines = stdout.trimEnd().split('\n');
+    expect(lines[0]).toMatch(/^SESSION\s+UPDATED\s+MESSAGES/);
+    expect(lines).toHaveLength(4);
+    expect(lines[2]!.startsWith(SECOND_SESSION)).toBe(true);
+    expect(lines[3]).toContain('claude-sonnet-4.6');
+    expect(lines[3]).toContain('1,200');
+
+    const json = JSON.parse((await run(['list', '--home', home, '--json', '--limit', '1'])).stdout) as Array<Record<string, unknown>>;
+    expect(json).toHaveLength(1);
+    expect(json[0]).toMatchObject({ sessionId: SECOND_SESSION, messages: 1, models: ['gpt-5.1'] });
+  });
+
+  test('shows one session by a unique ID prefix', async () => {
+    const home = await createCliHome();
+    const { code, stdout } = await run(['show', '3c9d2', '--home', home, '--json']);
+
+    expect(code).toBe(0);
+    const summary = JSON.parse(stdout) as Record<string, any>;
+    expect(summary.sessionId).toBe(FIRST_SESSION);
+    expect(summary.summary).toBe('Fix login bug');
+    expect(summary.tokens.input).toBe(1200);
+    expect(summary.byModel[0].modelId).toBe('claude-sonnet-4.6');
+    expect(summary.lifecycle.state).toBe('ended');
+
+    const ambiguous = await run(['show', '3c9d', '--home', home]);
+    expect(ambiguous.code).toBe(1);
+    expect(ambiguous.stderr).toContain('matches 2 sessions');
+    expect((await run(['show', 'nope', '--home', home])).stderr).toContain('No session nope');
+  });
+
+  test('prints a session timeline with model and token sources', async () => {
+    const home = await createCliHome();
+    const { code, stdout } = await run(['timeline', SECOND_SESSION, '--home', home]);
+
+    expect(code).toBe(0);
+    const row = stdout.trimEnd().split('\n')[2]!;
+    expect(row.startsWith('2026-03-02 09:00:10')).toBe(true);
+    expect(row).toContain('gpt-5.1');
+    expect(row).toContain('process_log');
+    expect(row).toContain('estimate');
+  });
+
+  test('aggregates models and reads process logs', async () => {
+    const home = await createCliHome();
+    const models = JSON.parse((await run(['models', '--home', home, '--json'])).stdout) as {
+      defaultModel: string;
+      models: Array<{ modelId: string; sessions: number; estimatedMessages: number }>;
+    };
+    expect(models.defaultModel).toBe('mystery-model-9');
+    expect(models.models.map((model) => model.modelId).sort()).toEqual(['claude-sonnet-4.6', 'gpt-5.1']);
+    expect(models.models.find((model) => model.modelId === 'gpt-5.1')?.estimatedMessages).toBe(1);
+
+    const logs = JSON.parse((await run(['logs', '--home', home, '--json'])).stdout) as Array<Record<string, unknown>>;
+    expect(logs.map((log) => log.sessionId).sort()).toEqual([SECOND_SESSION, LOGGED_ONLY_SESSION].sort());
+    expect(logs.find((log) => log.sessionId === SECOND_SESSION)).toMatchObject({
+      model: 'gpt-5.1',
+      startedAt: '2026-03-02T08:59:59.000Z',
+    });
+  });
+
+  test('doctor reports warnings and fails without sessions', async () => {
+    const home = await createCliHome();
+    const report = JSON.parse((await run(['doctor', '--home', home, '--json'])).stdout) as {
+      ok: boolean;
+      checks: Array<{ status: string; check: string; detail: string }>;
+    };
+    const checks = new Map(report.checks.map((check) => [check.check, check]));
+    expect(report.ok).toBe(true);
+    expect(checks.get('sessions')?.detail).toBe('2 sessions');
+    expect(checks.get('workspace.yaml')?.status).toBe('warn');
+    expect(checks.get('orphan logs')?.detail).toContain(LOGGED_ONLY_SESSION);
+    expect(checks.get('sessions without logs')?.detail).toContain(FIRST_SESSION);
+    expect(checks.get('pricing')?.status).toBe('ok');
+
+    const empty = await createHome();
+    const failed = await run(['doctor', '--home', empty]);
+    expect(failed.code).toBe(1);
+    expect(failed.stdout).toContain('[error]');
+  });
+
+  test('rejects unknown commands and options', async () => {
+    expect((await run([])).code).toBe(2);
+    expect((await run(['frobnicate'])).stderr).toContain('Unknown command: frobnicate');
+    expect((await run(['list', '--bogus'])).code).toBe(2);
+    expect((await run(['list', '--limit', '-1'])).code).toBe(2);
+    expect((await run(['--help'])).stdout).toContain('Usage: copilot-cli-usage');
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, describe, test, expect } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { getSessionContextUsage, isCompactionDrop, listContextUsage, summarizeContextUsage } from '../src/context.ts';
+import { invalidateCompactionIndex } from '../src/parser.ts';
+import { configureCopilotHomes } from '../src/paths.ts';
+import type { CompactionEntry } from '../src/types.ts';
+
+function makeEntry(tokens: number, timestamp: number, processStartedAt?: number): CompactionEntry {
+  return { timestamp, tokens, contextWindow: 100_000, ...(processStartedAt !== undefined ? { processStartedAt } : {}) };
+}
+
+function makeLog(sessionId: string, tokens: number[]): string {
+  const lines = [`2026-03-01T10:00:00.000Z [INFO] Workspace initialized: ${sessionId}`];
+  tokens.forEach((count, i) => {
+    const ts = new Date(Date.parse('2026-03-01T10:01:00.000Z') + i * 60_000).toISOString();
+    lines.push(`${ts} [INFO] CompactionProcessor: Utilization ${(count / 1000).toFixed(1)}% (${count}/100000 tokens)`);
+  });
+  return lines.join('\n') + '\n';
+}
+
+describe('isCompactionDrop', () => {
+  test('requires a large drop within one process', () => {
+    expect(isCompactionDrop(makeEntry(80_000, 1), makeEntry(20_000, 2))).toBe(true);
+    expect(isCompactionDrop(makeEntry(80_000, 1), makeEntry(70_000, 2))).toBe(false);
+    // Small contexts: a 50% drop of 1,500 tokens is churn
+    expect(isCompactionDrop(makeEntry(1_500, 1), makeEntry(750, 2))).toBe(false);
+    // A resume starts a new context
+    expect(isCompactionDrop(makeEntry(80_000, 1, 0), makeEntry(20_000, 2, 5))).toBe(false);
+  });
+});
+
+describe('summarizeContextUsage', () => {
+  test('builds the series, peak, average and compaction events', () => {
+    const summary = summarizeContextUsage('s1', [
+      makeEntry(40_000, 1),
+      makeEntry(90_000, 2),
+      makeEntry(30_000, 3),
+      makeEntry(35_000, 4),
+    ]);
+
+    expect(summary.series.map((point) => point.utilization)).toEqual([0.4, 0.9, 0.3, 0.35]);
+    expect(summary.peak).toEqual({ timestamp: 2, tokens: 90_000, contextWindow: 100_000, utilization: 0.9 });
+    expect(summary.averageUtilization).toBe(0.4875);
+    expect(summary.compactionEvents).toEqual([
+      { timestamp: 3, tokensBefore: 90_000, tokensAfter: 30_000, contextWindow: 100_000, utilizationBefore: 0.9 },
+    ]);
+  });
+
+  test('handles an empty timeline', () => {
+    const summary = summarizeContextUsage('s1', []);
+    expect(summary.peak).toBeNull();
+    expect(summary.averageUtilization).toBe(0);
+    expect(summary.series).toEqual([]);
+  });
+});
+
+describe('getSessionContextUsage', () => {
+  afterEach(() => {
+    configureCopilotHomes(undefined);
+    invalidateCompactionIndex();
+  });
+
+  test('reads sessions from process logs and ranks them by peak', async () => {
+    const busy = '11111111-2222-4333-8444-555555555555';
+    const quiet = '66666666-7777-4888-9999-000000000000';
+    const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+    await fs.mkdir(path.join(home, 'logs'));
+    await fs.writeFile(path.join(home, 'logs', 'process-1.log'), makeLog(busy, [60_000, 95_000, 20_000]));
+    await fs.writeFile(path.join(home, 'logs', 'process-2.log'), makeLog(quiet, [5_000, 8_000]));
+    configureCopilotHomes({ copilotHomes: home });
+    invalidateCompactionIndex();
+
+    const usage = await getSessionContextUsage(busy);
+    expect(usage?.peak?.utilization).toBe(0.95);
+    expect(usage?.compactionEvents).toHaveLength(1);
+    expect(await getSessionContextUsage('no-such-session')).toBeNull();
+
+    expect((await listContextUsage()).map((summary) => summary.sessionId)).toEqual([busy, quiet]);
+    expect((await listContextUsage({ minPeakUtilization: 0.9 })).map((summary) => summary.sessionId)).toEqual([busy]);
+  });
+});
@@ -0,0 +1,227 @@
+import { afterEach, beforeAll, describe, test, expect } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Writable } from 'stream';
+import { sessionAggregateCache, sessionCache, sessionSummaryCache } from '../src/cache.ts';
+import { exportUsage, writeUsageExport } from '../src/export.ts';
+import { configureCopilotHomes } from '../src/paths.ts';
+import type { ExportOptions } from '../src/types.ts';
+import { stopActivityWatch } from '../src/watcher.ts';
+import { createHome, event, makeFetchContext, type SessionFixture } from './fixtures.ts';
+
+const APP_SESSION = '1a2b3c4d-0000-4000-8000-000000000001';
+const API_SESSION = '1a2b3c4d-0000-4000-8000-000000000002';
+
+function makeSession(sessionId: string, cwd: string, repository: string, day: string, summary: string): SessionFixture {
+  return {
+    events: [
+      event('session.start', `${sessionId}-start`, `${day}T09:00:00.000Z`, { sessionId, version: 1 }),
+      event('session.model_change', `${sessionId}-model`, `${day}T09:00:01.000Z`, { newModel: 'claude-sonnet-4.6' }),
+      event('assistant.turn_start', `${sessionId}-ts`, `${day}T09:00:05.000Z`, { turnId: '0', interactionId: 'i1' }),
+      event('assistant.message', `${sessionId}-m1`, `${day}T09:00:10.000Z`, {
+        messageId: `${sessionId}-msg-1`,
+        content: 'First reply',
+        interactionId: 'i1',
+        usage: { input_tokens: 1000, output_tokens: 50, reasoningTokens: 20 },
+      }),
+      event('assistant.turn_end', `${sessionId}-te`, `${day}T09:00:12.500Z`, { turnId: '0' }),
+      event('assistant.message', `${sessionId}-m2`, `${day}T18:00:00.000Z`, {
+        messageId: `${sessionId}-msg-2`,
+        content: 'Second reply',
+        interactionId: 'i2',
+        usage: { input_tokens: 2000, output_tokens: 70, cache_read_input_tokens: 500 },
+      }),
+    ],
+    workspace: {
+      id: sessionId,
+      cwd,
+      repository,
+      branch: 'main',
+      summary,
+      summary_count: 1,
+      created_at: `${day}T09:00:00.000Z`,
+      updated_at: `${day}T18:00:00.000Z`,
+    },
+    // Files last written at the session's last message
+    updatedAt: new Date(`${day}T18:00:00.000Z`),
+  };
+}
+
+async function createExportHome(): Promise<void> {
+  configureCopilotHomes({
+    copilotHomes: await createHome({
+      [APP_SESSION]: makeSession(APP_SESSION, '/work/app', 'acme/app', '2026-03-01', '"Fix login, then ship"'),
+      [API_SESSION]: makeSession(API_SESSION, '/work/api', 'acme/api', '2026-03-05', 'Add rate limits'),
+    }),
+  });
+}
+
+async function collect(options: ExportOptions): Promise<string> {
+  let output = '';
+  for await (const chunk of exportUsage(options, makeFetchContext())) {
+    output += chunk;
+  }
+  return output;
+}
+
+describe('exportUsage', () => {
+  beforeAll(async () => {
+    process.env['XDG_CACHE_HOME'] = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-cache-'));
+  });
+
+  afterEach(() => {
+    configureCopilotHomes(undefined);
+    stopActivityWatch();
+    sessionAggregateCache.clear();
+    sessionSummaryCache.clear();
+    sessionCache.lastCheck = 0;
+  });
+
+  test('writes one CSV line per message with a header', async () => {
+    await createExportHome();
+    const lines = (await collect({ format: 'csv' })).trimEnd().split('\r\n');
+
+    expect(lines[0]!.startsWith('timestamp,session_id,session_name,project_path,repository,branch')).toBe(true);
+    expect(lines).toHaveLength(5);
+    const first = lines.find((line) => line.startsWith('2026-03-01T09:00:10.000Z'))!;
+    // The summary contains a comma, so the field is quoted
+    expect(first).toContain(`${APP_SESSION},"Fix login, then ship",/work/app,acme/app,main,github-copilot,claude-sonnet-4.6,1000,50,0,0,20,`);
+    // Turn ID and duration close the line; the second message ran outside any turn
+    expect(first.endsWith(',i1,0,7500')).toBe(true);
+    expect(lines.find((line) => line.startsWith('2026-03-01T18:00:00.000Z'))!.endsWith(',i2,,')).toBe(true);
+  });
+
+  test('writes message records with their turn', async () => {
+    await createExportHome();
+    const records = (await collect({ format: 'jsonl', project: 'acme/app' }))
+      .trimEnd().split('\n').map((line) => JSON.parse(line) as Record<string, unknown>);
+
+    expect(records.map((record) => [record.turn, record.turnDurationMs])).toEqual([['0', 7500], [null, null]]);
+  });
+
+  test('writes session summaries as normalised JSONL', async () => {
+    await createExportHome();
+    const records = (await collect({ format: 'jsonl', scope: 'sessions' }))
+      .trimEnd().split('\n').map((line) => JSON.parse(line) as Record<string, unknown>);
+
+    expect(records.map((record) => record.sessionId)).toEqual([API_SESSION, APP_SESSION]);
+    expect(records[0]).toMatchObject({
+      type: 'session',
+      startedAt: '2026-03-05T09:00:00.000Z',
+      endedAt: '2026-03-05T18:00:00.000Z',
+      messageCount: 2,
+      summaryCount: 1,
+      repository: 'acme/api',
+      tokens: { input: 3000, output: 120, cacheRead: 500 },
+    });
+  });
+
+  test('filters by date range and project', async () => {
+    await createExportHome();
+    const since = Date.parse('2026-03-01T12:00:00.000Z');
+    const until = Date.parse('2026-03-05T12:00:00.000Z');
+
+    const inRange = (await collect({ format: 'jsonl', since, until }))
+      .trimEnd().split('\n').map((line) => JSON.parse(line) as Record<string, unknown>);
+    expect(inRange.map((record) => record.timestamp)).toEqual(['2026-03-05T09:00:10.000Z', '2026-03-01T18:00:00.000Z']);
+
+    const byPath = (await collect({ format: 'jsonl', project: '/work' })).trimEnd().split('\n');
+    expect(byPath).toHaveLength(4);
+    const byRepository = (await collect({ format: 'jsonl', scope: 'sessions', project: 'acme/app' })).trimEnd().split('\n');
+    expect(byRepository.map((line) => (JSON.parse(line) as { sessionId: string }).sessionId)).toEqual([APP_SESSION]);
+    expect(await collect({ format: 'jsonl', project: '/work/ap' })).toBe('');
+  });
+
+  test('writes OTLP-JSON spans and token usage metrics following the GenAI conventions', async () => {
+    await createExportHome();
+    const lines = (await collect({ format: 'otlp-json', project: 'acme/app' })).trimEnd().split('\n');
+    expect(lines).toHaveLength(2);
+
+    const traces = JSON.parse(lines[0]!) as {
+      resourceSpans: Array<{ scopeSpans: Array<{ spans: Array<Record<string, unknown>> }> }>;
+    };
+    const spans = traces.resourceSpans[0]!.scopeSpans[0]!.spans;
+    expect(spans.map((span) => span.name)).toEqual([
+      'invoke_agent copilot-cli',
+      'chat claude-sonnet-4.6',
+      'chat claude-sonnet-4.6',
+    ]);
+    expect(spans[1]!.parentSpanId).toBe(spans[0]!.spanId);
+    expect(spans[0]!.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(spans[1]!.startTimeUnixNano).toBe(String(Date.parse('2026-03-01T09:00:10.000Z') * 1_000_000));
+    const attributes = new Map((spans[2]!.attributes as Array<{ key: string; value: unknown }>).map((a) => [a.key, a.value]));
+    expect(attributes.get('gen_ai.operation.name')).toEqual({ stringValue: 'chat' });
+    expect(attributes.get('gen_ai.conversation.id')).toEqual({ stringValue: APP_SESSION });
+    expect(attributes.get('gen_ai.usage.input_tokens')).toEqual({ intValue: '2000' });
+    expect(attributes.get('gen_ai.usage.cache_read.input_tokens')).toEqual({ intValue: '500' });
+
+    const metrics = JSON.parse(lines[1]!) as {
+      resourceMetrics: Array<{ scopeMetrics: Array<{ metrics: Array<Record<string, any>> }> }>;
+    };
+    const metric = metrics.resourceMetrics[0]!.scopeMetrics[0]!.metrics[0]!;
+    expect(metric.name).toBe('gen_ai.client.token.usage');
+    expect(metric.unit).toBe('{token}');
+    const input = (metric.histogram.dataPoints as Array<Record<string, any>>).find((point) =>
+      point.attributes.some((a: { key: string; value: { stringValue?: string } }) =>
+        a.key === 'gen_ai.token.type' && a.value.stringValue === 'input'))!;
+    expect(input.count).toBe('2');
+    expect(input.sum).toBe(3500);
+    const output = (metric.histogram.dataPoints as Array<Record<string, any>>).find((point) =>
+      point.attributes.some((a: { key: string; value: { stringValue?: string } }) =>
+        a.key === 'gen_ai.token.type' && a.value.stringValue === 'output'))!;
+    // Reasoning is counted once, inside the output
+    expect(output.sum).toBe(120);
+  });
+
+  test('totals the exported messages on the OTLP session span', async () => {
+    await createExportHome();
+    const since = Date.parse('2026-03-01T12:00:00.000Z');
+    const until = Date.parse('2026-03-02T00:00:00.000Z');
+    const lines = (await collect({ format: 'otlp-json', since, until })).trimEnd().split('\n');
+
+    const traces = JSON.parse(lines[0]!) as {
+      resourceSpans: Array<{ scopeSpans: Array<{ spans: Array<Record<string, unknown>> }> }>;
+    };
+    const spans = traces.resourceSpans[0]!.scopeSpans[0]!.spans;
+    expect(spans).toHaveLength(2);
+    const attributes = new Map((spans[0]!.attributes as Array<{ key: string; value: unknown }>).map((a) => [a.key, a.value]));
+    // Only the second message is in range: the first one's tokens are left out
+    expect(attributes.get('gen_ai.usage.input_tokens')).toEqual({ intValue: '2000' });
+    expect(attributes.get('gen_ai.usage.cache_read.input_tokens')).toEqual({ intValue: '500' });
+    expect(attributes.get('tokentop.usage.reasoning_tokens')).toEqual({ intValue: '0' });
+    expect(attributes.get('tokentop.messages')).toEqual({ intValue: '1' });
+  });
+
+  test('reads one session at a time without filling the session caches', async () => {
+    await createExportHome();
+    const chunks: string[] = [];
+    for await (const chunk of exportUsage({ format: 'jsonl', limit: 1 }, makeFetchContext())) {
+      chunks.push(chunk);
+    }
+
+    // Only the most recently updated session, and nothing left behind in the caches
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toContain(API_SESSION);
+    expect(chunks[0]).not.toContain(APP_SESSION);
+    expect(sessionAggregateCache.size).toBe(0);
+    expect(sessionSummaryCache.size).toBe(0);
+  });
+
+  test('streams into a writable and reports what it wrote', async () => {
+    await createExportHome();
+    const chunks: string[] = [];
+    const output = new Writable({
+      highWaterMark: 1,
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk.toString());
+        setTimeout(callback, 1);
+      },
+    });
+
+    const stats = await writeUsageExport({ format: 'csv' }, makeFetchContext(), output);
+    expect(stats).toEqual({ sessions: 2, messages: 4 });
+    // Header, then one chunk per session
+    expect(chunks).toHaveLength(3);
+  });
+});
@@ -0,0 +1,59 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { AgentFetchContext } from '@tokentop/plugin-sdk';
+
+export function makeFetchContext(): AgentFetchContext {
+  const noop = (): void => {};
+  return {
+    http: { fetch: () => Promise.reject(new Error('no network in tests')) },
+    logger: { debug: noop, info: noop, warn: noop, error: noop },
+    config: {},
+    signal: new AbortController().signal,
+  };
+}
+
+/** One events.jsonl line. */
+export function event(type: string, id: string, timestamp: string, data: Record<string, unknown>): string {
+  return JSON.stringify({ type, id, timestamp, parentId: null, data });
+}
+
+export interface SessionFixture {
+  /** events.jsonl lines, e.g. from `event()`. */
+  events: string[];
+  /** workspace.yaml fields, written as `key: value`; no workspace.yaml when absent. */
+  workspace?: Record<string, string | number>;
+  /** events.jsonl mtime, e.g. the session's last message. */
+  updatedAt?: Date | number;
+}
+
+/**
+ * Write a session dir under `home`'s session-state. Returns the path of its
+ * events.jsonl.
+ */
+export async function writeSession(home: string, sessionId: string, session: SessionFixture): Promise<string> {
+  const dir = path.join(home, 'session-state', sessionId);
+  await fs.mkdir(dir, { recursive: true });
+
+  const eventsPath = path.join(dir, 'events.jsonl');
+  await fs.writeFile(eventsPath, session.events.join('\n') + '\n');
+  if (session.workspace) {
+    const lines = Object.entries(session.workspace).map(([key, value]) => `${key}: ${value}`);
+    await fs.writeFile(path.join(dir, 'workspace.yaml'), lines.join('\n') + '\n');
+  }
+  if (session.updatedAt !== undefined) {
+    await fs.utimes(eventsPath, session.updatedAt, session.updatedAt);
+  }
+  return eventsPath;
+}
+
+/**
+ * Create a temporary Copilot home holding `sessions`, keyed by session ID.
+ */
+export async function createHome(sessions: Record<string, SessionFixture> = {}): Promise<string> {
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+  for (const [sessionId, session] of Object.entries(sessions)) {
+    await writeSession(home, sessionId, session);
+  }
+  return home;
+}
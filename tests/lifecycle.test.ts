@@ -0,0 +1,125 @@
+import { describe, test, expect } from 'bun:test';
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import {
+  applySessionLifecycle,
+  resolveSessionLifecycle,
+  SESSION_ACTIVE_WINDOW_MS,
+  SESSION_IDLE_TIMEOUT_MS,
+  summarizeSessionProcesses,
+} from '../src/lifecycle.ts';
+import { applyEventToParseState, createSessionParseState } from '../src/parser.ts';
+import type { ProcessLogIndexEntry, SessionParseState } from '../src/types.ts';
+import { createProcessLogData } from '../src/utils.ts';
+
+const START = Date.parse('2026-03-01T10:00:00.000Z');
+
+function event(type: string, offsetMs: number, data: Record<string, unknown> = {}): Record<string, unknown> {
+  return { type, id: `evt-${type}-${offsetMs}`, timestamp: new Date(START + offsetMs).toISOString(), parentId: null, data };
+}
+
+function buildState(events: Array<Record<string, unknown>>): SessionParseState {
+  const state = createSessionParseState();
+  for (const item of events) {
+    applyEventToParseState(state, item as never);
+  }
+  return state;
+}
+
+function makeLogEntry(sessionId: string, startedAt: number, mtimeMs: number): ProcessLogIndexEntry {
+  const data = createProcessLogData();
+  data.sessionId = sessionId;
+  data.startedAt = startedAt;
+  return { ino: 1, mtimeMs, size: 0, offset: 0, data };
+}
+
+const SESSION_START = event('session.start', 0, { sessionId: 's1', version: 1 });
+const TURN_START = event('assistant.turn_start', 1_000, { turnId: '0', interactionId: 'i1' });
+const TURN_END = event('assistant.turn_end', 5_000, { turnId: '0' });
+
+describe('resolveSessionLifecycle', () => {
+  test('moves from active to idle to ended as the session goes quiet', () => {
+    const state = buildState([SESSION_START, TURN_START, TURN_END]);
+    const lastEventAt = START + 5_000;
+
+    expect(resolveSessionLifecycle(state, lastEventAt, undefined, lastEventAt + 1_000).state).toBe('active');
+    expect(resolveSessionLifecycle(state, lastEventAt, undefined, lastEventAt + SESSION_ACTIVE_WINDOW_MS).state).toBe('idle');
+    expect(resolveSessionLifecycle(state, lastEventAt, undefined, lastEventAt + SESSION_IDLE_TIMEOUT_MS).state).toBe('ended');
+  });
+
+  test('keeps an open turn active until the idle timeout, then reports it abandoned', () => {
+    const state = buildState([SESSION_START, TURN_START]);
+    const lastEventAt = START + 1_000;
+
+    const working = resolveSessionLifecycle(state, lastEventAt, undefined, lastEventAt + 10 * 60_000);
+    expect(working.state).toBe('active');
+    expect(working.openTurn).toBe(true);
+    expect(resolveSessionLifecycle(state, lastEventAt, undefined, lastEventAt + SESSION_IDLE_TIMEOUT_MS).state).toBe('abandoned');
+  });
+
+  test('reports a session.shutdown as ended straight away', () => {
+    const state = buildState([SESSION_START, TURN_START, TURN_END, event('session.shutdown', 6_000)]);
+
+    const lifecycle = resolveSessionLifecycle(state, START + 6_000, undefined, START + 7_000);
+    expect(lifecycle.state).toBe('ended');
+    expect(lifecycle.lastEventType).toBe('session.shutdown');
+  });
+
+  test('reports a later session.start as a resume', () => {
+    const resumedAt = 2 * 60 * 60_000;
+    const state = buildState([
+      SESSION_START,
+      TURN_START,
+      TURN_END,
+      event('session.shutdown', 6_000),
+      event('session.start', resumedAt, { sessionId: 's1', version: 1 }),
+    ]);
+
+    const lifecycle = resolveSessionLifecycle(state, START + resumedAt, undefined, START + resumedAt + 1_000);
+    expect(lifecycle.state).toBe('resumed');
+    expect(lifecycle.resumedAt).toBe(START + resumedAt);
+    // Once the resume is older than the idle timeout the session is plain active again
+    const later = START + resumedAt + SESSION_IDLE_TIMEOUT_MS;
+    expect(resolveSessionLifecycle(state, later, undefined, later).state).toBe('active');
+  });
+
+  test('counts process log writes as activity and a second process as a resume', () => {
+    const state = buildState([SESSION_START, TURN_START, TURN_END]);
+    const now = START + 60 * 60_000;
+    const processes = summarizeSessionProcesses(new Map([
+      ['/logs/process-1.log', makeLogEntry('s1', START, START + 10_000)],
+      ['/logs/process-2.log', makeLogEntry('s1', now - 60_000, now - 1_000)],
+      ['/logs/process-3.log', makeLogEntry('other', START, now)],
+    ])).get('s1');
+
+    expect(processes).toEqual({ processes: 2, lastLoggedAt: now - 1_000, latestStartedAt: now - 60_000 });
+
+    const lifecycle = resolveSessionLifecycle(state, START + 5_000, processes, now);
+    expect(lifecycle.state).toBe('resumed');
+    expect(lifecycle.processLive).toBe(true);
+    expect(lifecycle.lastActivityAt).toBe(now - 1_000);
+  });
+});
+
+describe('applySessionLifecycle', () => {
+  test('records the state on each row and only copies rows that change', () => {
+    const row: SessionUsageData = {
+      sessionId: 's1',
+      providerId: 'github-copilot',
+      modelId: 'gpt-5.1',
+      tokens: { input: 1, output: 2 },
+      timestamp: START,
+      metadata: { turn: 1 },
+    };
+    const rows = [row];
+    const state = buildState([SESSION_START]);
+
+    applySessionLifecycle(rows, resolveSessionLifecycle(state, START, undefined, START + 1_000));
+    expect(rows[0]).not.toBe(row);
+    expect(rows[0]!.metadata).toEqual({ turn: 1, sessionState: 'active' });
+    expect(row.metadata).toEqual({ turn: 1 });
+
+    const updated = rows[0];
+    applySessionLifecycle(rows, resolveSessionLifecycle(state, START, undefined, START + 2_000));
+    expect(rows[0]).toBe(updated);
+  });
+});
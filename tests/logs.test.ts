@@ -0,0 +1,122 @@
+import { afterEach, describe, test, expect } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { processLogCache } from '../src/cache.ts';
+import { getProcessLogIndex, invalidateProcessLogIndex, updateProcessLog } from '../src/logs.ts';
+import { getDefaultModel } from '../src/parser.ts';
+import { configureCopilotHomes } from '../src/paths.ts';
+
+const SESSION_ID = '3c9e1f2a-4b5d-4e6f-8a7b-9c0d1e2f3a4b';
+
+function compactionLine(timestamp: string, tokens: number): string {
+  return `${timestamp} [INFO] CompactionProcessor: Utilization 1.0% (${tokens}/100000 tokens)\n`;
+}
+
+async function createLogsHome(): Promise<string> {
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+  await fs.mkdir(path.join(home, 'logs'));
+  configureCopilotHomes({ copilotHomes: home });
+  invalidateProcessLogIndex();
+  return home;
+}
+
+async function refreshIndex(): Promise<void> {
+  invalidateProcessLogIndex();
+  await getProcessLogIndex();
+}
+
+describe('process log index', () => {
+  afterEach(() => {
+    configureCopilotHomes(undefined);
+    invalidateProcessLogIndex();
+    processLogCache.clear();
+  });
+
+  test('skips unchanged files and reads only appended bytes', async () => {
+    const home = await createLogsHome();
+    const logPath = path.join(home, 'logs', 'process-1.log');
+    const first = `2026-03-01T10:00:00.000Z [INFO] Workspace initialized: ${SESSION_ID}\n`
+      + compactionLine('2026-03-01T10:01:00.000Z', 1000);
+    await fs.writeFile(logPath, first);
+    await refreshIndex();
+    expect(processLogCache.get(logPath)?.data.compactionTimeline.map((entry) => entry.tokens)).toEqual([1000]);
+
+    // Bytes already parsed are never read again, so an in-place rewrite goes unnoticed
+    const { mtime } = await fs.stat(logPath);
+    await fs.writeFile(logPath, first.replace('(1000/', '(2000/'));
+    await fs.utimes(logPath, mtime, mtime);
+    await refreshIndex();
+    expect(processLogCache.get(logPath)?.data.compactionTimeline.map((entry) => entry.tokens)).toEqual([1000]);
+
+    // Appended lines are parsed from the last offset; earlier bytes are not re-read
+    await fs.appendFile(logPath, compactionLine('2026-03-01T10:02:00.000Z', 3000));
+    await refreshIndex();
+    const entry = processLogCache.get(logPath)!;
+    expect(entry.data.compactionTimeline.map((item) => item.tokens)).toEqual([1000, 3000]);
+    expect(entry.offset).toBe((await fs.stat(logPath)).size);
+  });
+
+  test('re-reads a truncated or replaced file and forgets deleted ones', async () => {
+    const home = await createLogsHome();
+    const logPath = path.join(home, 'logs', 'process-1.log');
+    await fs.writeFile(logPath, compactionLine('2026-03-01T10:01:00.000Z', 1000) + compactionLine('2026-03-01T10:02:00.000Z', 2000));
+    await refreshIndex();
+
+    await fs.writeFile(logPath, compactionLine('2026-03-01T11:00:00.000Z', 500));
+    await refreshIndex();
+    expect(processLogCache.get(logPath)?.data.compactionTimeline.map((entry) => entry.tokens)).toEqual([500]);
+
+    await fs.rm(logPath);
+    await refreshIndex();
+    expect(processLogCache.has(logPath)).toBe(false);
+  });
+
+  test('drops a log that disappears during an update and keeps updating others', async () => {
+    const home = await createLogsHome();
+    const logPath = path.join(home, 'logs', 'process-1.log');
+    await fs.writeFile(logPath, compactionLine('2026-03-01T10:01:00.000Z', 1000));
+    await refreshIndex();
+    const stat = await fs.stat(logPath);
+
+    await fs.rm(logPath);
+    const file = { path: logPath, ino: stat.ino, mtimeMs: stat.mtimeMs + 1, size: stat.size + 10 };
+    expect(await updateProcessLog(file)).toBeNull();
+    expect(processLogCache.has(logPath)).toBe(false);
+
+    await fs.writeFile(logPath, compactionLine('2026-03-01T11:00:00.000Z', 500));
+    const restored = await fs.stat(logPath);
+    expect(await updateProcessLog({ path: logPath, ino: restored.ino, mtimeMs: restored.mtimeMs, size: restored.size })).toBe(1);
+    expect(processLogCache.get(logPath)?.data.compactionTimeline.map((entry) => entry.tokens)).toEqual([500]);
+  });
+
+  test('leaves a partial trailing line for the next update', async () => {
+    const home = await createLogsHome();
+    const logPath = path.join(home, 'logs', 'process-1.log');
+    const line = compactionLine('2026-03-01T10:01:00.000Z', 1000);
+    await fs.writeFile(logPath, line.slice(0, 40));
+    await refreshIndex();
+    expect(processLogCache.get(logPath)?.data.compactionTimeline).toHaveLength(0);
+
+    await fs.appendFile(logPath, line.slice(40));
+    await refreshIndex();
+    expect(processLogCache.get(logPath)?.data.compactionTimeline.map((entry) => entry.tokens)).toEqual([1000]);
+  });
+
+  test('getDefaultModel uses the newest log that names a model', async () => {
+    const home = await createLogsHome();
+    const older = path.join(home, 'logs', 'process-1.log');
+    const newer = path.join(home, 'logs', 'process-2.log');
+    await fs.writeFile(older, '2026-03-01T10:00:00.000Z [INFO] Using default model: gpt-5.1\n');
+    await fs.writeFile(newer, '2026-03-02T10:00:00.000Z [INFO] Using default model: claude-sonnet-4.6\n');
+    await fs.utimes(older, 1_000, 1_000);
+    await fs.utimes(newer, 2_000, 2_000);
+    await refreshIndex();
+    expect(await getDefaultModel()).toBe('claude-sonnet-4.6');
+
+    // A newer log without a model line does not hide the last known model
+    await fs.writeFile(path.join(home, 'logs', 'process-3.log'), '2026-03-03T10:00:00.000Z [INFO] Starting\n');
+    await refreshIndex();
+    expect(await getDefaultModel()).toBe('claude-sonnet-4.6');
+  });
+});
@@ -1,11 +1,30 @@
-import { describe, test, expect } from 'bun:test';
+import { afterEach, beforeAll, describe, test, expect, spyOn } from 'bun:test';
+import type { ActivityUpdate } from '@tokentop/plugin-sdk';
+import { sessionAggregateCache, sessionCache, sessionMetadataIndex } from '../src/cache.ts';
+import { buildEventTree } from '../src/events.ts';
+import { configureInteractions, getSessionInteractions, summarizeInteractions } from '../src/interactions.ts';
 import {
+  buildCompactionIndex,
+  buildModelIndex,
+  invalidateCompactionIndex,
   isAssistantMessage,
   isSessionStart,
   isModelChange,
+  isToolExecutionComplete,
+  isToolExecutionStart,
+  isTurnEnd,
+  isTurnStart,
+  isUserMessage,
+  parseSessionDirIncremental,
   parseSessionDirRows,
+  parseSessionsFromDirs,
 } from '../src/parser.ts';
+import { configureCopilotHomes } from '../src/paths.ts';
+import { getSessionToolUsage, summarizeToolCalls, UNKNOWN_TOOL_NAME } from '../src/tools.ts';
+import type { SessionLifecycleChange, ToolUsageSummary, TurnMetrics } from '../src/types.ts';
+import { onSessionLifecycleChange, startActivityWatch, stopActivityWatch } from '../src/watcher.ts';
 import { toTimestamp, estimateTokens, parseProcessLogData } from '../src/utils.ts';
+import { makeFetchContext } from './fixtures.ts';
 
 // ---------------------------------------------------------------------------
 // Test helpers
@@ -40,6 +59,7 @@ function makeAssistantMessage(overrides?: {
 function makeSessionStart(overrides?: {
   sessionId?: string;
   timestamp?: string;
+  context?: Record<string, unknown>;
 }): Record<string, unknown> {
   return {
     type: 'session.start',
@@ -48,6 +68,7 @@ function makeSessionStart(overrides?: {
     parentId: null,
     data: {
       sessionId: overrides?.sessionId ?? 'f519f8be-67df-4d12-a3a5-6edf86d85f38',
+      ...(overrides?.context ? { context: overrides.context } : {}),
     },
   };
 }
@@ -259,8 +280,10 @@ describe('estimateTokens', () => {
 // parsing logic using a temp directory with fixture data.
 
 import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import { Readable } from 'stream';
 
 async function createTempSession(events: Record<string, unknown>[], workspace?: string): Promise<string> {
   const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-test-'));
@@ -284,9 +307,9 @@ describe('parseSessionDirRows', () => {
 
     const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
     expect(rows).toHaveLength(1);
-    expect(rows[0]!.tokens.output).toBe(estimateTokens('Hello world, this is a test response.'));
+    expect(rows[0]!.tokens.output).toBe(estimateTokens('Hello world, this is a test response.', DEFAULT_MODEL));
     expect(rows[0]!.tokens.input).toBe(Math.ceil(rows[0]!.tokens.output * 0.5));
-    expect(rows[0]!.metadata).toEqual({ isEstimated: true });
+    expect(rows[0]!.metadata?.isEstimated).toBe(true);
     expect(rows[0]!.providerId).toBe('github-copilot');
   });
 
@@ -350,7 +373,7 @@ describe('parseSessionDirRows', () => {
 
     const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
     expect(rows).toHaveLength(1);
-    expect(rows[0]!.tokens.output).toBe(estimateTokens('full response with more content'));
+    expect(rows[0]!.tokens.output).toBe(estimateTokens('full response with more content', DEFAULT_MODEL));
   });
 
   test('handles multiple messages with different ids', async () => {
@@ -462,7 +485,7 @@ describe('parseSessionDirRows', () => {
     expect(rows[0]!.tokens.output).toBe(250);
     expect(rows[0]!.tokens.cacheRead).toBe(1200);
     expect(rows[0]!.tokens.cacheWrite).toBe(300);
-    expect(rows[0]!.metadata).toEqual({ isEstimated: false });
+    expect(rows[0]!.metadata?.isEstimated).toBe(false);
   });
 
   test('omits cache fields when zero in real usage data', async () => {
@@ -484,6 +507,102 @@ describe('parseSessionDirRows', () => {
     expect(rows[0]!.tokens.cacheWrite).toBeUndefined();
   });
 
+  test('estimates reasoning tokens from reasoningText, else reasoningOpaque', async () => {
+    const withText = makeAssistantMessage({ messageId: 'msg_text' });
+    (withText.data as Record<string, unknown>).reasoningText = 'r'.repeat(400);
+    const withOpaque = { ...makeAssistantMessage({ messageId: 'msg_opaque', timestamp: '2026-02-27T20:59:20.000Z' }), id: 'evt-002' };
+    (withOpaque.data as Record<string, unknown>).reasoningOpaque = 'A'.repeat(160);
+    const dir = await createTempSession([makeSessionStart(), withText, withOpaque]);
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    expect(rows[0]!.metadata?.reasoningTokens).toBe(estimateTokens('r'.repeat(400), DEFAULT_MODEL));
+    expect(rows[1]!.metadata?.reasoningTokens).toBe(30);
+    // Reasoning stays inside the output; the metadata says how much of it
+    expect(rows[0]!.tokens.output).toBe(estimateTokens('Hello, I can help with that.', DEFAULT_MODEL) + estimateTokens('r'.repeat(400), DEFAULT_MODEL));
+    expect(rows[1]!.tokens.output).toBe(estimateTokens('Hello, I can help with that.', DEFAULT_MODEL) + 30);
+  });
+
+  test('estimates with the tokenizer of the model the row resolves to', async () => {
+    const content = 'The quick brown fox';
+    const dir = await createTempSession([makeSessionStart(), makeAssistantMessage({ content })]);
+
+    // No event names a model, so only the process log can pick the tokenizer
+    const rows = await parseSessionDirRows(dir, MTIME, 'grok-code-fast-1', undefined, [
+      { timestamp: Date.parse('2026-02-27T20:00:00.000Z'), model: 'gpt-5.1' },
+    ]);
+    expect(rows[0]).toMatchObject({ modelId: 'gpt-5.1', metadata: { modelSource: 'process_log' } });
+    expect(rows[0]!.tokens.output).toBe(estimateTokens(content, 'gpt-5.1'));
+    expect(estimateTokens(content, 'gpt-5.1')).not.toBe(estimateTokens(content));
+
+    const unknown = await parseSessionDirRows(dir, MTIME, 'grok-code-fast-1');
+    expect(unknown[0]!.tokens.output).toBe(estimateTokens(content));
+  });
+
+  test('real usage reasoning replaces the estimate', async () => {
+    const message = makeAssistantMessage({ usage: { prompt_tokens: 100, completion_tokens: 50 } });
+    const data = message.data as Record<string, unknown>;
+    data.reasoningText = 'r'.repeat(400);
+    const dir = await createTempSession([makeSessionStart(), message]);
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    expect(rows[0]!.metadata).not.toHaveProperty('reasoningTokens');
+
+    data.usage = { prompt_tokens: 100, completion_tokens: 50, completion_tokens_details: { reasoning_tokens: 30 } };
+    const withReasoning = await parseSessionDirRows(await createTempSession([makeSessionStart(), message]), MTIME, DEFAULT_MODEL);
+    expect(withReasoning[0]!.metadata?.reasoningTokens).toBe(30);
+    expect(withReasoning[0]!.tokens.output).toBe(50);
+  });
+
+  test('records the token source of each row', async () => {
+    const dir = await createTempSession([
+      makeSessionStart(),
+      makeAssistantMessage({ messageId: 'msg_real', usage: { prompt_tokens: 100, completion_tokens: 50 } }),
+      { ...makeAssistantMessage({ messageId: 'msg_est', timestamp: '2026-02-27T20:59:20.000Z' }), id: 'evt-002' },
+    ]);
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    expect(rows.map((row) => row.metadata?.tokenSource)).toEqual(['message.usage', 'estimate']);
+  });
+
+  test('applies a standalone assistant.usage event to its message', async () => {
+    const dir = await createTempSession([
+      makeSessionStart(),
+      { ...makeAssistantMessage({ usage: { prompt_tokens: 10, completion_tokens: 5 } }), id: 'evt-msg' },
+      {
+        type: 'assistant.usage',
+        id: 'evt-usage',
+        timestamp: '2026-02-27T20:59:12.000Z',
+        parentId: 'evt-msg',
+        data: { input_tokens: 900, output_tokens: 120, cache_read_input_tokens: 4000 },
+      },
+    ]);
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    expect(rows[0]!.tokens.input).toBe(900);
+    expect(rows[0]!.tokens.output).toBe(120);
+    expect(rows[0]!.tokens.cacheRead).toBe(4000);
+    expect(rows[0]!.metadata?.isEstimated).toBe(false);
+    expect(rows[0]!.metadata?.tokenSource).toBe('assistant.usage');
+  });
+
+  test('holds assistant.usage naming a message that has not arrived yet', async () => {
+    const dir = await createTempSession([
+      makeSessionStart(),
+      {
+        type: 'assistant.usage',
+        id: 'evt-usage',
+        timestamp: '2026-02-27T20:59:10.000Z',
+        parentId: null,
+        data: { messageId: 'msg_001', inputTokens: 700, outputTokens: 60 },
+      },
+      makeAssistantMessage(),
+    ]);
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    expect(rows[0]!.tokens.input).toBe(700);
+    expect(rows[0]!.tokens.output).toBe(60);
+    expect(rows[0]!.metadata?.tokenSource).toBe('assistant.usage');
+  });
+
   test('prefers event model over resolved model', async () => {
     const dir = await createTempSession([
       makeSessionStart(),
@@ -529,6 +648,36 @@ describe('parseSessionDirRows', () => {
     expect(rows[0]!.modelId).toBe('o4-mini');
   });
 
+  test('records the source of each row model', async () => {
+    const sources = async (events: Record<string, unknown>[]) => {
+      const rows = await parseSessionDirRows(await createTempSession([makeSessionStart(), ...events]), MTIME, DEFAULT_MODEL);
+      return rows[0]!.metadata?.modelSource;
+    };
+
+    expect(await sources([makeAssistantMessage({ model: 'o4-mini' })])).toBe('message');
+    expect(await sources([makeModelChange(), makeAssistantMessage()])).toBe('model_change');
+    expect(await sources([makeToolExecutionComplete({ model: 'gpt-5.3-codex' }), makeAssistantMessage()])).toBe('event');
+    expect(await sources([makeAssistantMessage()])).toBe('default');
+  });
+
+  test('falls back to the session\'s own process log models at the message timestamp', async () => {
+    const dir = await createTempSession([
+      makeSessionStart(),
+      { ...makeAssistantMessage({ messageId: 'early', timestamp: '2026-02-27T20:00:00.000Z' }), id: 'evt-early' },
+      { ...makeAssistantMessage({ messageId: 'first', timestamp: '2026-02-27T20:30:00.000Z' }), id: 'evt-first' },
+      { ...makeAssistantMessage({ messageId: 'resumed', timestamp: '2026-02-27T22:00:00.000Z' }), id: 'evt-resumed' },
+    ]);
+    const modelTimeline = [
+      { timestamp: Date.parse('2026-02-27T20:10:00.000Z'), model: 'gpt-4.1' },
+      { timestamp: Date.parse('2026-02-27T21:50:00.000Z'), model: 'claude-sonnet-4.5' },
+    ];
+
+    const rows = await parseSessionDirRows(dir, MTIME, 'today-default', undefined, modelTimeline);
+    // A message logged before the first model line still ran under the process's first model
+    expect(rows.map((row) => row.modelId)).toEqual(['gpt-4.1', 'gpt-4.1', 'claude-sonnet-4.5']);
+    expect(rows.every((row) => row.metadata?.modelSource === 'process_log')).toBe(true);
+  });
+
   test('picks up arbitrary future model names from events without code changes', async () => {
     const dir = await createTempSession([
       makeSessionStart(),
@@ -591,7 +740,11 @@ describe('parseSessionDirRows', () => {
 
     // Message 2: input = CP[2].tokens, output = content estimate (no CP[3])
     expect(rows[2]!.tokens.input).toBe(36386);
-    expect(rows[2]!.tokens.output).toBe(estimateTokens('Third response with more text'));
+    expect(rows[2]!.tokens.output).toBe(estimateTokens('Third response with more text', DEFAULT_MODEL));
+
+    expect(rows[2]!.metadata!.contextWindow).toBe(272000);
+    expect(rows[2]!.metadata!.contextUtilization).toBe(0.1338);
+    expect(rows[2]!.metadata!).not.toHaveProperty('afterCompaction');
   });
 
   test('compaction data does not override real usage data from assistant.usage', async () => {
@@ -621,7 +774,7 @@ describe('parseSessionDirRows', () => {
 
     // No compaction timeline passed
     const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
-    expect(rows[0]!.tokens.output).toBe(estimateTokens('Hello world response'));
+    expect(rows[0]!.tokens.output).toBe(estimateTokens('Hello world response', DEFAULT_MODEL));
     expect(rows[0]!.tokens.input).toBe(Math.ceil(rows[0]!.tokens.output * 0.5));
   });
 
@@ -642,10 +795,10 @@ describe('parseSessionDirRows', () => {
 
     // First message gets CP data (input from CP, output = content estimate since no CP[1])
     expect(rows[0]!.tokens.input).toBe(23000);
-    expect(rows[0]!.tokens.output).toBe(estimateTokens('First'));
+    expect(rows[0]!.tokens.output).toBe(estimateTokens('First', DEFAULT_MODEL));
 
     // Second message keeps content-based estimate (no CP entry for it)
-    expect(rows[1]!.tokens.output).toBe(estimateTokens('Second reply'));
+    expect(rows[1]!.tokens.output).toBe(estimateTokens('Second reply', DEFAULT_MODEL));
     expect(rows[1]!.tokens.input).toBe(Math.ceil(rows[1]!.tokens.output * 0.5));
   });
 
@@ -656,9 +809,186 @@ describe('parseSessionDirRows', () => {
     ]);
 
     const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL, []);
-    expect(rows[0]!.tokens.output).toBe(estimateTokens('test response'));
+    expect(rows[0]!.tokens.output).toBe(estimateTokens('test response', DEFAULT_MODEL));
     expect(rows[0]!.tokens.input).toBe(Math.ceil(rows[0]!.tokens.output * 0.5));
   });
+
+  test('aligns compaction entries per process across a resume', async () => {
+    const dir = await createTempSession([
+      makeSessionStart({ timestamp: '2026-02-27T20:58:52.000Z' }),
+      makeAssistantMessage({ messageId: 'msg_001', content: 'First', timestamp: '2026-02-27T20:59:00.000Z' }),
+      makeSessionStart({ timestamp: '2026-02-27T22:00:00.000Z' }),
+      makeAssistantMessage({ messageId: 'msg_002', content: 'Resumed', timestamp: '2026-02-27T22:01:00.000Z' }),
+      makeAssistantMessage({ messageId: 'msg_003', content: 'Again', timestamp: '2026-02-27T22:02:00.000Z' }),
+    ]);
+
+    const firstProcess = Date.parse('2026-02-27T20:58:50.000Z');
+    const secondProcess = Date.parse('2026-02-27T21:59:58.000Z');
+    const compactionTimeline = [
+      // The first process logged two requests but only one message was persisted
+      { timestamp: Date.parse('2026-02-27T20:58:55.000Z'), tokens: 1000, contextWindow: 128000, processStartedAt: firstProcess },
+      { timestamp: Date.parse('2026-02-27T20:59:30.000Z'), tokens: 1500, contextWindow: 128000, processStartedAt: firstProcess },
+      { timestamp: Date.parse('2026-02-27T22:00:55.000Z'), tokens: 3000, contextWindow: 128000, processStartedAt: secondProcess },
+      { timestamp: Date.parse('2026-02-27T22:01:30.000Z'), tokens: 3400, contextWindow: 128000, processStartedAt: secondProcess },
+    ];
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL, compactionTimeline);
+    rows.sort((a, b) => a.timestamp - b.timestamp);
+
+    expect(rows[0]!.tokens.input).toBe(1000);
+    expect(rows[0]!.tokens.output).toBe(500);
+    expect(rows[1]!.tokens.input).toBe(3000);
+    expect(rows[1]!.tokens.output).toBe(400);
+    expect(rows[2]!.tokens.input).toBe(3400);
+    expect(rows[2]!.tokens.output).toBe(estimateTokens('Again', DEFAULT_MODEL));
+  });
+
+  test('an extra compaction entry from a retry does not shift later messages', async () => {
+    const dir = await createTempSession([
+      makeSessionStart({ timestamp: '2026-02-27T20:58:52.000Z' }),
+      makeAssistantMessage({ messageId: 'msg_001', content: 'First', timestamp: '2026-02-27T20:59:00.000Z' }),
+      makeAssistantMessage({ messageId: 'msg_002', content: 'Second', timestamp: '2026-02-27T21:00:00.000Z' }),
+      makeAssistantMessage({ messageId: 'msg_003', content: 'Third', timestamp: '2026-02-27T21:01:00.000Z' }),
+    ]);
+
+    const compactionTimeline = [
+      { timestamp: Date.parse('2026-02-27T20:58:55.000Z'), tokens: 1000, contextWindow: 128000 },
+      // Failed request, retried ten seconds later
+      { timestamp: Date.parse('2026-02-27T20:59:40.000Z'), tokens: 1200, contextWindow: 128000 },
+      { timestamp: Date.parse('2026-02-27T20:59:50.000Z'), tokens: 1200, contextWindow: 128000 },
+      { timestamp: Date.parse('2026-02-27T21:00:50.000Z'), tokens: 2000, contextWindow: 128000 },
+    ];
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL, compactionTimeline);
+    rows.sort((a, b) => a.timestamp - b.timestamp);
+
+    expect(rows.map((row) => row.tokens.input)).toEqual([1000, 1200, 2000]);
+    expect(rows[1]!.tokens.output).toBe(800);
+    // Two entries competed for the second message
+    expect(rows[1]!.metadata!.compactionConfidence as number).toBeLessThan(rows[0]!.metadata!.compactionConfidence as number);
+    expect(rows[2]!.metadata!.compactionConfidence as number).toBeGreaterThan(0.5);
+  });
+
+  test('a message without a compaction entry keeps its estimate and later messages stay aligned', async () => {
+    const dir = await createTempSession([
+      makeSessionStart({ timestamp: '2026-02-27T20:58:52.000Z' }),
+      makeAssistantMessage({ messageId: 'msg_001', content: 'First', timestamp: '2026-02-27T20:59:00.000Z' }),
+      makeAssistantMessage({ messageId: 'msg_002', content: 'No entry logged', timestamp: '2026-02-27T21:10:00.000Z' }),
+      makeAssistantMessage({ messageId: 'msg_003', content: 'Third', timestamp: '2026-02-27T21:20:00.000Z' }),
+    ]);
+
+    const compactionTimeline = [
+      { timestamp: Date.parse('2026-02-27T20:58:55.000Z'), tokens: 1000, contextWindow: 128000 },
+      { timestamp: Date.parse('2026-02-27T21:19:30.000Z'), tokens: 5000, contextWindow: 128000 },
+    ];
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL, compactionTimeline);
+    rows.sort((a, b) => a.timestamp - b.timestamp);
+
+    expect(rows[0]!.tokens.input).toBe(1000);
+    expect(rows[1]!.tokens.output).toBe(estimateTokens('No entry logged', DEFAULT_MODEL));
+    expect(rows[1]!.metadata!).not.toHaveProperty('contextUtilization');
+    expect(rows[1]!.metadata!.compactionConfidence).toBe(0);
+    expect(rows[2]!.tokens.input).toBe(5000);
+  });
+
+  test('only matches entries inside the message\'s turn', async () => {
+    const turnMessage = makeAssistantMessage({ messageId: 'msg_001', content: 'In turn', timestamp: '2026-02-27T21:00:10.000Z' });
+    (turnMessage.data as Record<string, unknown>).interactionId = 'int-1';
+    const dir = await createTempSession([
+      makeSessionStart({ timestamp: '2026-02-27T20:58:52.000Z' }),
+      makeTurnStart('0', 'int-1', '2026-02-27T21:00:00.000Z'),
+      turnMessage,
+      makeTurnEnd('0', '2026-02-27T21:00:11.000Z'),
+    ]);
+
+    // A summarisation call logged before the turn began
+    const outsideTurn = [{ timestamp: Date.parse('2026-02-27T20:59:30.000Z'), tokens: 800, contextWindow: 128000 }];
+    const unmatched = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL, outsideTurn);
+    expect(unmatched[0]!.tokens.input).not.toBe(800);
+    expect(unmatched[0]!.metadata!.compactionConfidence).toBe(0);
+
+    const insideTurn = [...outsideTurn, { timestamp: Date.parse('2026-02-27T21:00:01.000Z'), tokens: 900, contextWindow: 128000 }];
+    const matched = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL, insideTurn);
+    expect(matched[0]!.tokens.input).toBe(900);
+    expect(matched[0]!.metadata!.compactionConfidence).toBe(0.97);
+    expect(matched[0]!.metadata!.tokenSource).toBe('compaction');
+    expect(unmatched[0]!.metadata!.tokenSource).toBe('estimate');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildCompactionIndex
+// ---------------------------------------------------------------------------
+
+describe('buildCompactionIndex', () => {
+  afterEach(() => {
+    configureCopilotHomes(undefined);
+    invalidateCompactionIndex();
+  });
+
+  test('merges every process log of a resumed session in timestamp order', async () => {
+    const sessionId = '7a1d9c2e-3f4b-4a5c-9d6e-0f1a2b3c4d5e';
+    const firstLog = [
+      `2026-02-27T20:58:50.000Z [INFO] Workspace initialized: ${sessionId}`,
+      '2026-02-27T20:58:55.000Z [INFO] CompactionProcessor: Utilization 0.8% (1000/128000 tokens)',
+      '2026-02-27T20:59:30.000Z [INFO] CompactionProcessor: Utilization 1.2% (1500/128000 tokens)',
+    ].join('\n');
+    const secondLog = [
+      `2026-02-27T21:59:58.000Z [INFO] Workspace initialized: ${sessionId}`,
+      '2026-02-27T22:00:55.000Z [INFO] CompactionProcessor: Utilization 2.3% (3000/128000 tokens)',
+    ].join('\n');
+
+    const homes: string[] = [];
+    for (const logs of [{ 'process-2.log': secondLog, 'process-1.log': firstLog }, { 'process-1.log': firstLog }]) {
+      const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+      await fs.mkdir(path.join(home, 'logs'));
+      for (const [name, content] of Object.entries(logs)) {
+        await fs.writeFile(path.join(home, 'logs', name), content + '\n');
+      }
+      homes.push(home);
+    }
+    configureCopilotHomes({ copilotHomes: homes });
+    invalidateCompactionIndex();
+
+    const timeline = (await buildCompactionIndex()).get(sessionId)!;
+    // The copy of process-1.log in the second home adds nothing
+    expect(timeline.map((entry) => entry.tokens)).toEqual([1000, 1500, 3000]);
+    expect(timeline.map((entry) => entry.processStartedAt)).toEqual([
+      Date.parse('2026-02-27T20:58:50.000Z'),
+      Date.parse('2026-02-27T20:58:50.000Z'),
+      Date.parse('2026-02-27T21:59:58.000Z'),
+    ]);
+  });
+});
+
+describe('buildModelIndex', () => {
+  afterEach(() => {
+    configureCopilotHomes(undefined);
+    invalidateCompactionIndex();
+  });
+
+  test('merges the model lines of every process log of a session', async () => {
+    const sessionId = '0b8f4c1d-2e3a-4b5c-8d9e-1f2a3b4c5d6e';
+    const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+    await fs.mkdir(path.join(home, 'logs'));
+    await fs.writeFile(path.join(home, 'logs', 'process-2.log'), [
+      `2026-02-28T09:00:00.000Z [INFO] Workspace initialized: ${sessionId}`,
+      '2026-02-28T09:00:01.000Z [INFO] Using default model: claude-sonnet-4.5',
+    ].join('\n') + '\n');
+    await fs.writeFile(path.join(home, 'logs', 'process-1.log'), [
+      `2026-02-27T09:00:00.000Z [INFO] Workspace initialized: ${sessionId}`,
+      '2026-02-27T09:00:01.000Z [INFO] Using default model: gpt-4.1',
+    ].join('\n') + '\n');
+    configureCopilotHomes({ copilotHomes: home });
+    invalidateCompactionIndex();
+
+    const timeline = (await buildModelIndex()).get(sessionId)!;
+    expect(timeline).toEqual([
+      { timestamp: Date.parse('2026-02-27T09:00:01.000Z'), model: 'gpt-4.1' },
+      { timestamp: Date.parse('2026-02-28T09:00:01.000Z'), model: 'claude-sonnet-4.5' },
+    ]);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -707,6 +1037,7 @@ describe('parseProcessLogData', () => {
     const result = parseProcessLogData(content);
     expect(result.sessionId).toBe('abcd1234-5678-9012-3456-789012345678');
     expect(result.model).toBe('gpt-5.3-codex');
+    expect(result.startedAt).toBe(Date.parse('2026-03-08T21:52:39.810Z'));
     expect(result.compactionTimeline).toHaveLength(2);
   });
 
@@ -727,3 +1058,792 @@ describe('parseProcessLogData', () => {
     expect(result.model).toBe('claude-sonnet-4.6');
   });
 });
+
+// ---------------------------------------------------------------------------
+// parseSessionsFromDirs
+// ---------------------------------------------------------------------------
+
+async function createTempHomeWithSessions(count: number): Promise<string> {
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+  for (let i = 0; i < count; i++) {
+    const dir = path.join(home, 'session-state', `session-${i}`);
+    await fs.mkdir(dir, { recursive: true });
+    const eventsPath = path.join(dir, 'events.jsonl');
+    await fs.writeFile(eventsPath, [
+      JSON.stringify(makeSessionStart({ sessionId: `session-${i}` })),
+      JSON.stringify(makeAssistantMessage({ messageId: `msg-${i}` })),
+    ].join('\n') + '\n');
+    // Later sessions are more recently updated
+    const mtimeSec = 1_700_000_000 + i * 60;
+    await fs.utimes(eventsPath, mtimeSec, mtimeSec);
+  }
+  return home;
+}
+
+describe('parseSessionsFromDirs', () => {
+  beforeAll(async () => {
+    process.env['XDG_CACHE_HOME'] = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-cache-'));
+  });
+
+  afterEach(() => {
+    configureCopilotHomes(undefined);
+    stopActivityWatch();
+    sessionAggregateCache.clear();
+    sessionCache.lastCheck = 0;
+  });
+
+  test('returns only the N most recently updated sessions', async () => {
+    const home = await createTempHomeWithSessions(5);
+    configureCopilotHomes({ copilotHomes: home });
+
+    const rows = await parseSessionsFromDirs({ limit: 2 }, makeFetchContext());
+    const sessionIds = new Set(rows.map((row) => row.sessionId));
+    expect(sessionIds).toEqual(new Set(['session-4', 'session-3']));
+    // Untouched since 2023 — long past the idle timeout
+    expect(rows.every((row) => row.metadata?.sessionState === 'ended')).toBe(true);
+  });
+
+  test('never parses sessions outside the limit window', async () => {
+    const home = await createTempHomeWithSessions(3);
+    configureCopilotHomes({ copilotHomes: home });
+
+    await parseSessionsFromDirs({ limit: 1 }, makeFetchContext());
+    expect(sessionAggregateCache.has('session-2')).toBe(true);
+    expect(sessionAggregateCache.has('session-0')).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Activity watch
+// ---------------------------------------------------------------------------
+
+async function waitFor(predicate: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+describe('startActivityWatch', () => {
+  afterEach(() => {
+    configureCopilotHomes(undefined);
+    onSessionLifecycleChange(null);
+    stopActivityWatch();
+  });
+
+  test('emits only new messages, with the model and tokens the parser reports', async () => {
+    const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+    const dir = path.join(home, 'session-state', 'live-session');
+    await fs.mkdir(dir, { recursive: true });
+    const eventsPath = path.join(dir, 'events.jsonl');
+    await fs.writeFile(eventsPath, [
+      makeSessionStart({ sessionId: 'live-session', context: { cwd: '/work/app', repository: 'acme/app' } }),
+      makeModelChange({ newModel: 'gpt-5.1' }),
+      makeAssistantMessage({ messageId: 'msg-history', timestamp: '2026-02-27T20:59:00.000Z' }),
+    ].map((event) => JSON.stringify(event)).join('\n') + '\n');
+    configureCopilotHomes({ copilotHomes: home });
+
+    const updates: ActivityUpdate[] = [];
+    const lifecycleChanges: SessionLifecycleChange[] = [];
+    onSessionLifecycleChange((change) => lifecycleChanges.push(change));
+    startActivityWatch((update) => updates.push(update));
+    // Let the initial scan record the existing file size
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    const liveMessage = makeAssistantMessage({ messageId: 'msg-live', timestamp: '2026-02-27T21:00:00.000Z', content: 'Live reply' });
+    (liveMessage.data as Record<string, unknown>).reasoningText = 'thinking '.repeat(20);
+    await fs.appendFile(eventsPath, JSON.stringify(liveMessage) + '\n');
+    await waitFor(() => updates.length > 0);
+
+    expect(updates.map((update) => update.messageId)).toEqual(['msg-live']);
+
+    const rows = await parseSessionDirRows(dir, Date.now(), 'claude-sonnet-4.6');
+    const update = updates[0] as ActivityUpdate & { metadata?: Record<string, unknown> };
+    const liveRow = rows.find((row) => row.timestamp === update.timestamp)!;
+    expect(update.metadata?.modelId).toBe('gpt-5.1');
+    expect(update.metadata?.repository).toBe('acme/app');
+    expect(update.metadata?.isEstimated).toBe(liveRow.metadata?.isEstimated);
+    // The update reports reasoning in its own category, the row inside the output
+    expect(update.tokens.reasoning).toBe(liveRow.metadata?.reasoningTokens as number);
+    expect(update.tokens.output + update.tokens.reasoning!).toBe(liveRow.tokens.output);
+    expect(update.tokens.reasoning).toBe(estimateTokens('thinking '.repeat(20), 'gpt-5.1'));
+    expect(update.metadata?.sessionState).toBe('active');
+
+    // The first change builds the parse state, which reports the session live
+    expect(lifecycleChanges).toHaveLength(1);
+    expect(lifecycleChanges[0]).toMatchObject({ sessionId: 'live-session', state: 'active', previousState: null, openTurn: false });
+
+    await fs.appendFile(eventsPath, JSON.stringify({
+      type: 'session.shutdown',
+      id: 'evt-shutdown',
+      timestamp: '2026-02-27T21:01:00.000Z',
+      parentId: null,
+      data: {},
+    }) + '\n');
+    await waitFor(() => lifecycleChanges.length > 1);
+
+    expect(lifecycleChanges[1]).toMatchObject({ state: 'ended', previousState: 'active', lastEventType: 'session.shutdown' });
+    // Lifecycle changes never reach the token callback
+    expect(updates).toHaveLength(1);
+  });
+
+  test('keeps emitting after the activity callback throws once', async () => {
+    const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+    const dir = path.join(home, 'session-state', 'throwing-session');
+    await fs.mkdir(dir, { recursive: true });
+    const eventsPath = path.join(dir, 'events.jsonl');
+    await fs.writeFile(eventsPath, JSON.stringify(makeSessionStart({ sessionId: 'throwing-session' })) + '\n');
+    configureCopilotHomes({ copilotHomes: home });
+
+    const updates: ActivityUpdate[] = [];
+    let thrown = false;
+    startActivityWatch((update) => {
+      if (!thrown) {
+        thrown = true;
+        throw new Error('consumer failed');
+      }
+      updates.push(update);
+    });
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    await fs.appendFile(eventsPath, JSON.stringify(makeAssistantMessage({ messageId: 'msg-1' })) + '\n');
+    await waitFor(() => thrown);
+    await fs.appendFile(eventsPath, JSON.stringify(makeAssistantMessage({ messageId: 'msg-2' })) + '\n');
+    await waitFor(() => updates.length > 0);
+
+    expect(updates.map((update) => update.messageId)).toEqual(['msg-2']);
+  });
+
+  test('a lifecycle change expires the session list without a lifecycle callback', async () => {
+    const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+    const dir = path.join(home, 'session-state', 'ending-session');
+    await fs.mkdir(dir, { recursive: true });
+    const eventsPath = path.join(dir, 'events.jsonl');
+    await fs.writeFile(eventsPath, JSON.stringify(makeSessionStart({ sessionId: 'ending-session' })) + '\n');
+    configureCopilotHomes({ copilotHomes: home });
+
+    const updates: ActivityUpdate[] = [];
+    startActivityWatch((update) => updates.push(update));
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    await fs.appendFile(eventsPath, JSON.stringify(makeAssistantMessage({ messageId: 'msg-1' })) + '\n');
+    await waitFor(() => updates.length > 0);
+
+    sessionCache.lastCheck = Date.now();
+    await fs.appendFile(eventsPath, JSON.stringify({
+      type: 'session.shutdown',
+      id: 'evt-shutdown',
+      timestamp: '2026-02-27T21:01:00.000Z',
+      parentId: null,
+      data: {},
+    }) + '\n');
+    // No message to emit: the next parseSessions call picks up the ended state
+    await waitFor(() => sessionCache.lastCheck === 0);
+    expect(updates).toHaveLength(1);
+  });
+
+  test('corrects emitted tokens when a rotated process log gains compaction entries', async () => {
+    const sessionId = '5e0c2f3a-1b2c-4d5e-8f90-a1b2c3d4e5f6';
+    const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+    const dir = path.join(home, 'session-state', sessionId);
+    const logsDir = path.join(home, 'logs');
+    await fs.mkdir(dir, { recursive: true });
+    await fs.mkdir(logsDir, { recursive: true });
+    const eventsPath = path.join(dir, 'events.jsonl');
+    await fs.writeFile(eventsPath, JSON.stringify(makeSessionStart({ sessionId })) + '\n');
+    await fs.writeFile(
+      path.join(logsDir, 'process-1000.log'),
+      `2026-02-27T20:58:50.000Z [INFO] Workspace initialized: ${sessionId}\n`,
+    );
+    configureCopilotHomes({ copilotHomes: home });
+
+    const updates: (ActivityUpdate & { metadata?: Record<string, unknown> })[] = [];
+    startActivityWatch((update: ActivityUpdate & { metadata?: Record<string, unknown> }) => updates.push(update));
+    await new Promise((resolve) => setTimeout(resolve, 300));
+
+    await fs.appendFile(eventsPath, JSON.stringify(makeAssistantMessage({ messageId: 'msg-a', content: 'a'.repeat(40) })) + '\n');
+    await waitFor(() => updates.length > 0);
+    expect(updates[0]!.tokens.output).toBe(10);
+    expect(updates[0]!.metadata?.isCorrection).toBeUndefined();
+
+    // The CLI restarted and logs to a new file
+    await fs.writeFile(path.join(logsDir, 'process-2000.log'), [
+      `2026-02-27T20:59:00.000Z [INFO] Workspace initialized: ${sessionId}`,
+      '2026-02-27T20:59:10.000Z [INFO] CompactionProcessor: Utilization 0.5% (1000/200000 tokens)',
+      '2026-02-27T20:59:20.000Z [INFO] CompactionProcessor: Utilization 0.8% (1500/200000 tokens)',
+    ].join('\n') + '\n');
+    await waitFor(() => updates.length > 1);
+
+    expect(updates).toHaveLength(2);
+    expect(updates[1]!.messageId).toBe('msg-a');
+    expect(updates[1]!.metadata?.isCorrection).toBe(true);
+    expect(updates[1]!.tokens.input).toBe(1000);
+    expect(updates[1]!.tokens.output).toBe(500);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseSessionDirIncremental
+// ---------------------------------------------------------------------------
+
+describe('parseSessionDirIncremental', () => {
+  const MTIME = Date.now();
+  const DEFAULT_MODEL = 'claude-sonnet-4.6';
+
+  test('reads only appended bytes when resuming from a previous state', async () => {
+    const dir = await createTempSession([
+      makeSessionStart(),
+      makeAssistantMessage({ messageId: 'msg_001', content: 'First reply' }),
+    ]);
+    const eventsPath = path.join(dir, 'events.jsonl');
+
+    const first = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL);
+    expect(first.rows).toHaveLength(1);
+    const offsetAfterFirst = first.state!.byteOffset;
+    expect(offsetAfterFirst).toBe((await fs.stat(eventsPath)).size);
+
+    await fs.appendFile(eventsPath, JSON.stringify(makeAssistantMessage({ messageId: 'msg_002', content: 'Second reply' })) + '\n');
+
+    const second = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL, undefined, first.state!);
+    expect(second.state).toBe(first.state);
+    expect(second.state!.byteOffset).toBeGreaterThan(offsetAfterFirst);
+    expect(second.rows.map((row) => row.tokens.output)).toEqual([
+      estimateTokens('First reply', DEFAULT_MODEL),
+      estimateTokens('Second reply', DEFAULT_MODEL),
+    ]);
+  });
+
+  test('keeps a partially written trailing line for the next read', async () => {
+    const dir = await createTempSession([makeSessionStart()]);
+    const eventsPath = path.join(dir, 'events.jsonl');
+    const line = JSON.stringify(makeAssistantMessage({ messageId: 'msg_001', content: 'Done' }));
+
+    await fs.appendFile(eventsPath, line.slice(0, 20));
+    const first = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL);
+    expect(first.rows).toHaveLength(0);
+
+    await fs.appendFile(eventsPath, line.slice(20) + '\n');
+    const second = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL, undefined, first.state!);
+    expect(second.rows).toHaveLength(1);
+    expect(second.rows[0]!.tokens.output).toBe(estimateTokens('Done', DEFAULT_MODEL));
+  });
+
+  test('leaves the previous state untouched when a resumed read fails', async () => {
+    const dir = await createTempSession([
+      makeSessionStart(),
+      makeAssistantMessage({ messageId: 'msg_001', content: 'First reply' }),
+    ]);
+    const eventsPath = path.join(dir, 'events.jsonl');
+    const first = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL);
+    const { byteOffset } = first.state!;
+    const eventCount = first.state!.events.size;
+
+    const appended = JSON.stringify(makeAssistantMessage({ messageId: 'msg_002', content: 'Second reply' })) + '\n';
+    await fs.appendFile(eventsPath, appended + JSON.stringify(makeAssistantMessage({ messageId: 'msg_003', content: 'Third' })) + '\n');
+
+    // The read fails after the first appended line was delivered
+    const createReadStream = spyOn(fsSync, 'createReadStream').mockImplementation((() => Readable.from((async function* () {
+      yield Buffer.from(appended);
+      throw new Error('EIO');
+    })())) as never);
+    try {
+      const failed = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL, undefined, first.state!);
+      expect(failed.state).toBeNull();
+    } finally {
+      createReadStream.mockRestore();
+    }
+    expect(first.state!.byteOffset).toBe(byteOffset);
+    expect(first.state!.messages.size).toBe(1);
+    expect(first.state!.events.size).toBe(eventCount);
+
+    const retried = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL, undefined, first.state!);
+    expect(retried.state!.messages.size).toBe(3);
+    expect(retried.rows.map((row) => row.tokens.output)).toEqual([
+      estimateTokens('First reply', DEFAULT_MODEL),
+      estimateTokens('Second reply', DEFAULT_MODEL),
+      estimateTokens('Third', DEFAULT_MODEL),
+    ]);
+  });
+
+  test('re-parses from scratch when the file is truncated', async () => {
+    const dir = await createTempSession([
+      makeSessionStart(),
+      makeAssistantMessage({ messageId: 'msg_001', content: 'A long first reply that will be discarded' }),
+      makeAssistantMessage({ messageId: 'msg_002', content: 'Another reply' }),
+    ]);
+    const first = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL);
+    expect(first.rows).toHaveLength(2);
+
+    await fs.writeFile(
+      path.join(dir, 'events.jsonl'),
+      JSON.stringify(makeAssistantMessage({ messageId: 'msg_003', content: 'New' })) + '\n',
+    );
+
+    const second = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL, undefined, first.state!);
+    expect(second.state).not.toBe(first.state);
+    expect(second.rows).toHaveLength(1);
+    expect(second.rows[0]!.tokens.output).toBe(estimateTokens('New', DEFAULT_MODEL));
+  });
+
+  test('re-parses from scratch when the file is replaced', async () => {
+    const dir = await createTempSession([
+      makeSessionStart(),
+      makeAssistantMessage({ messageId: 'msg_001', content: 'Old' }),
+    ]);
+    const eventsPath = path.join(dir, 'events.jsonl');
+    const first = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL);
+
+    const replacement = path.join(dir, 'events.jsonl.new');
+    await fs.writeFile(replacement, [
+      JSON.stringify(makeAssistantMessage({ messageId: 'msg_010', content: 'Replacement one' })),
+      JSON.stringify(makeAssistantMessage({ messageId: 'msg_011', content: 'Replacement two' })),
+    ].join('\n') + '\n');
+    await fs.rename(replacement, eventsPath);
+
+    const second = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL, undefined, first.state!);
+    expect(second.rows).toHaveLength(2);
+    expect(second.rows[0]!.tokens.output).toBe(estimateTokens('Replacement one', DEFAULT_MODEL));
+  });
+
+  test('returns no state for a missing events.jsonl', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-test-'));
+    const result = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL);
+    expect(result.rows).toHaveLength(0);
+    expect(result.state).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tool call tracking
+// ---------------------------------------------------------------------------
+
+function makeToolExecutionStart(overrides: {
+  toolCallId: string;
+  toolName: string;
+  timestamp: string;
+}): Record<string, unknown> {
+  return {
+    type: 'tool.execution_start',
+    id: `evt-start-${overrides.toolCallId}`,
+    timestamp: overrides.timestamp,
+    parentId: null,
+    data: { toolCallId: overrides.toolCallId, toolName: overrides.toolName, arguments: {} },
+  };
+}
+
+describe('tool call tracking', () => {
+  const MTIME = Date.now();
+  const DEFAULT_MODEL = 'claude-sonnet-4.6';
+
+  function makeMessageWithTools(messageId: string, timestamp: string, tools: Array<[string, string]>): Record<string, unknown> {
+    const event = makeAssistantMessage({ messageId, timestamp, content: 'Running tools' });
+    (event.data as Record<string, unknown>).toolRequests = tools.map(([toolCallId, name]) => ({
+      toolCallId,
+      name,
+      arguments: {},
+      type: 'function',
+    }));
+    return event;
+  }
+
+  function makeCompletion(toolCallId: string, timestamp: string, success: boolean): Record<string, unknown> {
+    const event = makeToolExecutionComplete({ toolCallId, timestamp });
+    (event.data as Record<string, unknown>).success = success;
+    return event;
+  }
+
+  test('isToolExecutionStart and isToolExecutionComplete validate toolCallId', () => {
+    expect(isToolExecutionStart(makeToolExecutionStart({ toolCallId: 'c1', toolName: 'bash', timestamp: '2026-02-27T20:59:10.000Z' }))).toBe(true);
+    expect(isToolExecutionStart({ type: 'tool.execution_start', data: { toolCallId: '' } })).toBe(false);
+    expect(isToolExecutionComplete(makeToolExecutionComplete())).toBe(true);
+    expect(isToolExecutionComplete({ type: 'tool.execution_complete', data: {} })).toBe(false);
+  });
+
+  test('attaches per-tool counts, outcomes and durations to the requesting message', async () => {
+    const dir = await createTempSession([
+      makeSessionStart(),
+      makeMessageWithTools('msg_001', '2026-02-27T21:00:00.000Z', [['call_1', 'bash'], ['call_2', 'edit'], ['call_3', 'bash']]),
+      makeToolExecutionStart({ toolCallId: 'call_1', toolName: 'bash', timestamp: '2026-02-27T21:00:01.000Z' }),
+      makeCompletion('call_1', '2026-02-27T21:00:03.000Z', true),
+      makeToolExecutionStart({ toolCallId: 'call_2', toolName: 'edit', timestamp: '2026-02-27T21:00:04.000Z' }),
+      makeCompletion('call_2', '2026-02-27T21:00:04.500Z', false),
+      makeMessageWithTools('msg_002', '2026-02-27T21:01:00.000Z', []),
+    ]);
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    const toolCalls = rows[0]!.metadata!.toolCalls as ToolUsageSummary;
+
+    expect(toolCalls.calls).toBe(3);
+    expect(toolCalls.succeeded).toBe(1);
+    expect(toolCalls.failed).toBe(1);
+    expect(toolCalls.pending).toBe(1);
+    expect(toolCalls.totalDurationMs).toBe(2500);
+    expect(toolCalls.byTool['bash']).toEqual({ calls: 2, succeeded: 1, failed: 0, pending: 1, totalDurationMs: 2000 });
+    expect(toolCalls.byTool['edit']).toEqual({ calls: 1, succeeded: 0, failed: 1, pending: 0, totalDurationMs: 500 });
+
+    expect(rows[1]!.metadata!.toolCalls).toBeUndefined();
+  });
+
+  test('measures duration from the request when no execution_start is recorded', () => {
+    const summary = summarizeToolCalls([
+      { toolCallId: 'c1', toolName: 'github-mcp-server-get_issue', requestedAt: 1_000, completedAt: 4_000, success: true },
+    ]);
+    expect(summary.byTool['github-mcp-server-get_issue']!.totalDurationMs).toBe(3_000);
+  });
+
+  test('session tool usage covers calls whose request was never seen', async () => {
+    const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+    const dir = path.join(home, 'session-state', 'tool-session');
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, 'events.jsonl'), [
+      makeMessageWithTools('msg_001', '2026-02-27T21:00:00.000Z', [['call_1', 'view']]),
+      makeCompletion('call_1', '2026-02-27T21:00:01.000Z', true),
+      makeCompletion('call_orphan', '2026-02-27T21:00:02.000Z', true),
+    ].map((event) => JSON.stringify(event)).join('\n') + '\n');
+
+    const { state } = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL);
+    sessionAggregateCache.set('tool-session', { updatedAt: MTIME, usageRows: [], lastAccessed: MTIME, parseState: state! });
+
+    const usage = getSessionToolUsage('tool-session')!;
+    expect(usage.calls).toBe(2);
+    expect(usage.byTool['view']!.succeeded).toBe(1);
+    expect(usage.byTool[UNKNOWN_TOOL_NAME]!.calls).toBe(1);
+    expect(getSessionToolUsage('never-parsed')).toBeNull();
+
+    sessionAggregateCache.delete('tool-session');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Turn metrics
+// ---------------------------------------------------------------------------
+
+function makeTurnStart(turnId: string, interactionId: string, timestamp: string): Record<string, unknown> {
+  return {
+    type: 'assistant.turn_start',
+    id: `evt-ts-${interactionId}-${turnId}`,
+    timestamp,
+    parentId: null,
+    data: { turnId, interactionId },
+  };
+}
+
+function makeTurnEnd(turnId: string, timestamp: string): Record<string, unknown> {
+  return {
+    type: 'assistant.turn_end',
+    id: `evt-te-${turnId}-${timestamp}`,
+    timestamp,
+    parentId: null,
+    data: { turnId },
+  };
+}
+
+describe('turn metrics', () => {
+  const MTIME = Date.now();
+  const DEFAULT_MODEL = 'claude-sonnet-4.6';
+
+  function makeTurnMessage(messageId: string, interactionId: string, timestamp: string, toolCallIds: string[] = []): Record<string, unknown> {
+    const event = makeAssistantMessage({ messageId, timestamp });
+    const data = event.data as Record<string, unknown>;
+    data.interactionId = interactionId;
+    data.toolRequests = toolCallIds.map((toolCallId) => ({ toolCallId, name: 'bash' }));
+    return event;
+  }
+
+  test('isTurnStart and isTurnEnd validate their data', () => {
+    expect(isTurnStart(makeTurnStart('0', 'int-1', '2026-02-27T21:00:00.000Z'))).toBe(true);
+    expect(isTurnStart({ type: 'assistant.turn_start', data: { turnId: '0' } })).toBe(false);
+    expect(isTurnEnd(makeTurnEnd('0', '2026-02-27T21:00:00.000Z'))).toBe(true);
+    expect(isTurnEnd({ type: 'assistant.turn_end', data: {} })).toBe(false);
+  });
+
+  test('computes time-to-first-message, duration and per-turn counts', async () => {
+    const dir = await createTempSession([
+      makeTurnStart('0', 'int-1', '2026-02-27T21:00:00.000Z'),
+      makeTurnMessage('msg_001', 'int-1', '2026-02-27T21:00:02.000Z', ['call_1', 'call_2']),
+      makeTurnMessage('msg_002', 'int-1', '2026-02-27T21:00:05.000Z'),
+      makeTurnEnd('0', '2026-02-27T21:00:06.000Z'),
+    ]);
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    expect(rows[0]!.metadata!.turn).toEqual({
+      turnId: '0',
+      interactionId: 'int-1',
+      startedAt: Date.parse('2026-02-27T21:00:00.000Z'),
+      endedAt: Date.parse('2026-02-27T21:00:06.000Z'),
+      durationMs: 6_000,
+      timeToFirstMessageMs: 2_000,
+      assistantMessages: 2,
+      toolCalls: 2,
+    });
+    expect(rows[1]!.metadata!.turn).toEqual(rows[0]!.metadata!.turn);
+  });
+
+  test('separates turns that reuse a turnId across interactions', async () => {
+    const dir = await createTempSession([
+      makeTurnStart('0', 'int-1', '2026-02-27T21:00:00.000Z'),
+      makeTurnMessage('msg_001', 'int-1', '2026-02-27T21:00:01.000Z'),
+      makeTurnEnd('0', '2026-02-27T21:00:02.000Z'),
+      makeTurnStart('0', 'int-2', '2026-02-27T21:05:00.000Z'),
+      makeTurnMessage('msg_002', 'int-2', '2026-02-27T21:05:04.000Z'),
+    ]);
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    const first = rows[0]!.metadata!.turn as TurnMetrics;
+    const second = rows[1]!.metadata!.turn as TurnMetrics;
+
+    expect(first.interactionId).toBe('int-1');
+    expect(first.durationMs).toBe(2_000);
+    expect(second.interactionId).toBe('int-2');
+    expect(second.timeToFirstMessageMs).toBe(4_000);
+    expect(second.durationMs).toBeUndefined();
+  });
+
+  test('does not attribute messages outside a turn', async () => {
+    const dir = await createTempSession([
+      makeTurnStart('0', 'int-1', '2026-02-27T21:00:00.000Z'),
+      makeTurnEnd('0', '2026-02-27T21:00:01.000Z'),
+      makeTurnMessage('msg_001', 'int-1', '2026-02-27T21:00:02.000Z'),
+    ]);
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    expect(rows[0]!.metadata!.turn).toBeUndefined();
+  });
+});
+
+describe('git context', () => {
+  const MTIME = Date.now();
+  const DEFAULT_MODEL = 'claude-sonnet-4.6';
+  const START_CONTEXT = {
+    cwd: '/Users/test/myproject/packages/api',
+    gitRoot: '/Users/test/myproject',
+    branch: 'feature/login',
+    repository: 'acme/myproject',
+  };
+
+  test('attaches repository, branch and git root from workspace.yaml', async () => {
+    const workspace = [
+      'id: session-git',
+      'cwd: /Users/test/myproject',
+      'git_root: /Users/test/myproject',
+      'repository: acme/myproject',
+      'branch: main',
+    ].join('\n');
+
+    const dir = await createTempSession([
+      makeSessionStart({ context: START_CONTEXT }),
+      makeAssistantMessage(),
+    ], workspace);
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    expect(rows[0]!.metadata).toMatchObject({
+      repository: 'acme/myproject',
+      branch: 'main',
+      gitRoot: '/Users/test/myproject',
+    });
+  });
+
+  test('falls back to the session.start context without workspace.yaml', async () => {
+    const dir = await createTempSession([
+      makeSessionStart({ context: START_CONTEXT }),
+      makeAssistantMessage(),
+    ]);
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    expect(rows[0]!.projectPath).toBe('/Users/test/myproject/packages/api');
+    expect(rows[0]!.metadata).toMatchObject({
+      repository: 'acme/myproject',
+      branch: 'feature/login',
+      gitRoot: '/Users/test/myproject',
+    });
+  });
+
+  test('fills fields workspace.yaml lacks from session.start', async () => {
+    const dir = await createTempSession([
+      makeSessionStart({ context: START_CONTEXT }),
+      makeAssistantMessage(),
+    ], 'id: session-partial\ncwd: /Users/test/myproject\nbranch: release');
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    expect(rows[0]!.projectPath).toBe('/Users/test/myproject');
+    expect(rows[0]!.metadata).toMatchObject({ repository: 'acme/myproject', branch: 'release' });
+  });
+
+  test('omits git fields outside a repository', async () => {
+    const dir = await createTempSession([
+      makeSessionStart({ context: { cwd: '/tmp/scratch' } }),
+      makeAssistantMessage(),
+    ]);
+
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    expect(rows[0]!.metadata).not.toHaveProperty('repository');
+    expect(rows[0]!.metadata).not.toHaveProperty('branch');
+    expect(rows[0]!.metadata).not.toHaveProperty('gitRoot');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Interactions
+// ---------------------------------------------------------------------------
+
+function makeUserMessage(interactionId: string, timestamp: string, content: string, extra?: Record<string, unknown>): Record<string, unknown> {
+  return {
+    type: 'user.message',
+    id: `evt-user-${interactionId}`,
+    timestamp,
+    parentId: null,
+    data: { content, interactionId, ...extra },
+  };
+}
+
+describe('interactions', () => {
+  const MTIME = Date.now();
+  const DEFAULT_MODEL = 'claude-sonnet-4.6';
+
+  function makeInteractionMessage(messageId: string, interactionId: string, timestamp: string, content: string): Record<string, unknown> {
+    const event = makeAssistantMessage({ messageId, timestamp, content });
+    (event.data as Record<string, unknown>).interactionId = interactionId;
+    return event;
+  }
+
+  async function parseInteractionSession(): Promise<string> {
+    const dir = await createTempSession([
+      makeUserMessage('int-1', '2026-02-27T21:00:00.000Z', 'Fix the login bug', {
+        transformedContent: '<context>src/login.ts</context>\nFix the login bug',
+        attachments: [{ type: 'file', path: 'src/login.ts' }],
+      }),
+      makeTurnStart('0', 'int-1', '2026-02-27T21:00:00.500Z'),
+      makeInteractionMessage('msg_001', 'int-1', '2026-02-27T21:00:01.000Z', 'a'.repeat(400)),
+      makeInteractionMessage('msg_002', 'int-1', '2026-02-27T21:00:03.000Z', 'b'.repeat(40)),
+      makeTurnEnd('0', '2026-02-27T21:00:04.000Z'),
+      makeUserMessage('int-2', '2026-02-27T21:05:00.000Z', 'Thanks'),
+      makeInteractionMessage('msg_003', 'int-2', '2026-02-27T21:05:01.000Z', 'c'.repeat(8)),
+    ]);
+
+    const eventsPath = path.join(dir, 'events.jsonl');
+    const { rows, state } = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL);
+    const sessionId = path.basename(dir);
+    sessionMetadataIndex.set(eventsPath, { mtimeMs: MTIME, sessionId });
+    sessionAggregateCache.set(sessionId, { updatedAt: MTIME, usageRows: rows, lastAccessed: MTIME, parseState: state! });
+    return sessionId;
+  }
+
+  afterEach(() => {
+    configureInteractions(undefined);
+    sessionAggregateCache.clear();
+    sessionMetadataIndex.clear();
+  });
+
+  test('isUserMessage requires content and an interactionId', () => {
+    expect(isUserMessage(makeUserMessage('int-1', '2026-02-27T21:00:00.000Z', 'hi'))).toBe(true);
+    expect(isUserMessage({ type: 'user.message', data: { content: 'hi' } })).toBe(false);
+    expect(isUserMessage({ type: 'user.message', data: { interactionId: 'int-1' } })).toBe(false);
+  });
+
+  test('links prompts to the messages, turns and tokens they caused', async () => {
+    const sessionId = await parseInteractionSession();
+    const entry = sessionAggregateCache.get(sessionId)!;
+    const [first, second] = summarizeInteractions(entry.parseState!, entry.usageRows);
+
+    expect(first).toMatchObject({
+      interactionId: 'int-1',
+      userMessageId: 'evt-user-int-1',
+      startedAt: Date.parse('2026-02-27T21:00:00.000Z'),
+      promptTokens: estimateTokens('Fix the login bug'),
+      transformedPromptTokens: estimateTokens('<context>src/login.ts</context>\nFix the login bug'),
+      attachmentCount: 1,
+      assistantMessageIds: ['msg_001', 'msg_002'],
+      turnIds: ['0'],
+      premiumRequests: 1,
+    });
+    const replies = [estimateTokens('a'.repeat(400), DEFAULT_MODEL), estimateTokens('b'.repeat(40), DEFAULT_MODEL)];
+    expect(first!.tokens.output).toBe(replies[0]! + replies[1]!);
+    expect(first!.tokens.input).toBe(Math.ceil(replies[0]! * 0.5) + Math.ceil(replies[1]! * 0.5));
+    expect(first!.tokens.total).toBe(first!.tokens.output + first!.tokens.input);
+    expect(first!.prompt).toBeUndefined();
+
+    expect(second).toMatchObject({ interactionId: 'int-2', assistantMessageIds: ['msg_003'], attachmentCount: 0 });
+  });
+
+  test('includes prompt text only when opted in', async () => {
+    const sessionId = await parseInteractionSession();
+
+    expect((await getSessionInteractions(sessionId))!.every((interaction) => interaction.prompt === undefined)).toBe(true);
+
+    configureInteractions({ includePromptText: true });
+    const interactions = await getSessionInteractions(sessionId);
+    expect(interactions!.map((interaction) => interaction.prompt)).toEqual(['Fix the login bug', 'Thanks']);
+
+    expect(await getSessionInteractions('never-parsed')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Event tree
+// ---------------------------------------------------------------------------
+
+describe('event tree', () => {
+  const MTIME = Date.now();
+  const DEFAULT_MODEL = 'claude-sonnet-4.6';
+
+  function link(event: Record<string, unknown>, id: string, parentId: string | null): Record<string, unknown> {
+    return { ...event, id, parentId };
+  }
+
+  // user → main reply → task tool → sub-agent reply → tool done → main reply + retried reply
+  const EVENTS = [
+    link(makeUserMessage('int-1', '2026-02-27T21:00:00.000Z', 'Refactor the parser'), 'u1', null),
+    link(makeAssistantMessage({ messageId: 'msg-main-1', content: 'a'.repeat(40), timestamp: '2026-02-27T21:00:01.000Z' }), 'a1', 'u1'),
+    link(makeToolExecutionStart({ toolCallId: 'call-task', toolName: 'task', timestamp: '2026-02-27T21:00:02.000Z' }), 's1', 'a1'),
+    link(makeAssistantMessage({ messageId: 'msg-sub-1', content: 'b'.repeat(80), timestamp: '2026-02-27T21:00:03.000Z' }), 'sub1', 's1'),
+    link(makeToolExecutionComplete({ toolCallId: 'call-task', timestamp: '2026-02-27T21:00:04.000Z' }), 'c1', 'sub1'),
+    link(makeAssistantMessage({ messageId: 'msg-main-2', content: 'c'.repeat(20), timestamp: '2026-02-27T21:00:05.000Z' }), 'a2', 'c1'),
+    link(makeAssistantMessage({ messageId: 'msg-main-2-retry', content: 'd'.repeat(20), timestamp: '2026-02-27T21:00:06.000Z' }), 'a3', 'c1'),
+  ];
+
+  test('tags rows with their event and branch', async () => {
+    const dir = await createTempSession(EVENTS);
+    const rows = await parseSessionDirRows(dir, MTIME, DEFAULT_MODEL);
+    const byEvent = new Map(rows.map((row) => [row.metadata!.eventId, row.metadata!]));
+
+    expect(byEvent.get('a1')).toMatchObject({ eventBranch: 'main' });
+    expect(byEvent.get('a1')).not.toHaveProperty('agentDepth');
+    expect(byEvent.get('sub1')).toMatchObject({ eventBranch: 'subagent', agentDepth: 1 });
+    expect(byEvent.get('a2')).toMatchObject({ eventBranch: 'main' });
+    expect(byEvent.get('a3')).toMatchObject({ eventBranch: 'retry' });
+  });
+
+  test('builds the tree with token subtotals per node', async () => {
+    const dir = await createTempSession(EVENTS);
+    const { rows, state } = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL);
+    const roots = buildEventTree(state!, rows);
+
+    expect(roots.map((node) => node.id)).toEqual(['u1']);
+    const tool = roots[0]!.children[0]!.children[0]!;
+    expect(tool.id).toBe('s1');
+    expect(tool.tokens.total).toBe(0);
+
+    const subAgent = tool.children[0]!;
+    expect(subAgent.branch).toBe('subagent');
+    expect(subAgent.tokens.output).toBe(estimateTokens('b'.repeat(80), DEFAULT_MODEL));
+
+    const complete = subAgent.children[0]!;
+    expect(complete.agentDepth).toBe(0);
+    expect(complete.children.map((node) => node.branch)).toEqual(['main', 'retry']);
+
+    const rowTotal = rows.reduce((sum, row) => sum + row.tokens.input + row.tokens.output, 0);
+    expect(roots[0]!.subtotal.total).toBe(rowTotal);
+    expect(tool.subtotal.total).toBe(rowTotal - roots[0]!.children[0]!.tokens.total);
+  });
+
+  test('events with an unknown parent become roots', async () => {
+    const dir = await createTempSession([
+      link(makeAssistantMessage({ messageId: 'msg-orphan' }), 'orphan', 'never-written'),
+    ]);
+    const { rows, state } = await parseSessionDirIncremental(dir, MTIME, DEFAULT_MODEL);
+    const roots = buildEventTree(state!, rows);
+    expect(roots.map((node) => node.id)).toEqual(['orphan']);
+    expect(roots[0]!.subtotal.total).toBe(rows[0]!.tokens.input + rows[0]!.tokens.output);
+  });
+});
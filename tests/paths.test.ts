@@ -0,0 +1,122 @@
+import { afterEach, describe, test, expect } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  COPILOT_CLI_HOME,
+  configureCopilotHomes,
+  getCopilotCliRoots,
+  getPermissionPaths,
+  getSessionDirs,
+} from '../src/paths.ts';
+
+async function createTempHome(sessions: Record<string, number>): Promise<string> {
+  const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+  for (const [sessionId, mtimeSec] of Object.entries(sessions)) {
+    const dir = path.join(home, 'session-state', sessionId);
+    await fs.mkdir(dir, { recursive: true });
+    const eventsPath = path.join(dir, 'events.jsonl');
+    await fs.writeFile(eventsPath, '');
+    await fs.utimes(eventsPath, mtimeSec, mtimeSec);
+  }
+  return home;
+}
+
+describe('getCopilotCliRoots', () => {
+  afterEach(() => {
+    configureCopilotHomes(undefined);
+  });
+
+  test('always includes ~/.copilot as the last root', () => {
+    const roots = getCopilotCliRoots({});
+    expect(roots).toHaveLength(1);
+    expect(roots[0]!.home).toBe(COPILOT_CLI_HOME);
+    expect(roots[0]!.sessionStatePath).toBe(path.join(COPILOT_CLI_HOME, 'session-state'));
+    expect(roots[0]!.logsPath).toBe(path.join(COPILOT_CLI_HOME, 'logs'));
+  });
+
+  test('orders config, env and XDG roots before the default', () => {
+    configureCopilotHomes({ copilotHomes: '/config/a, /config/b' });
+    const roots = getCopilotCliRoots({
+      COPILOT_CLI_HOME: `/env/a${path.delimiter}/env/b`,
+      XDG_CONFIG_HOME: '/xdg',
+    });
+
+    expect(roots.map((root) => root.home)).toEqual([
+      '/config/a',
+      '/config/b',
+      '/env/a',
+      '/env/b',
+      '/xdg/.copilot',
+      COPILOT_CLI_HOME,
+    ]);
+  });
+
+  test('accepts an array of homes in config', () => {
+    configureCopilotHomes({ copilotHomes: ['/config/a', '', 42] });
+    expect(getCopilotCliRoots({})[0]!.home).toBe('/config/a');
+    expect(getCopilotCliRoots({})).toHaveLength(2);
+  });
+
+  test('scans only the configured homes when they are exclusive', () => {
+    configureCopilotHomes({ copilotHomes: '/config/a' }, true);
+    const roots = getCopilotCliRoots({ COPILOT_CLI_HOME: '/env/a', XDG_CONFIG_HOME: '/xdg' });
+    expect(roots.map((root) => root.home)).toEqual(['/config/a']);
+
+    configureCopilotHomes(undefined);
+    expect(getCopilotCliRoots({}).map((root) => root.home)).toEqual([COPILOT_CLI_HOME]);
+  });
+
+  test('collapses duplicate roots', () => {
+    configureCopilotHomes({ copilotHomes: '/shared/' });
+    const roots = getCopilotCliRoots({ COPILOT_CLI_HOME: '/shared' });
+    expect(roots.map((root) => root.home)).toEqual(['/shared', COPILOT_CLI_HOME]);
+  });
+
+  test('reports whether the configured homes changed', () => {
+    expect(configureCopilotHomes({ copilotHomes: '/config/a' })).toBe(true);
+    expect(configureCopilotHomes({ copilotHomes: ['/config/a'] })).toBe(false);
+    expect(configureCopilotHomes({ copilotHomes: '/config/a' }, true)).toBe(true);
+    expect(configureCopilotHomes(undefined)).toBe(true);
+  });
+
+  test('declares every root and the cache root as permission paths', () => {
+    configureCopilotHomes({ copilotHomes: '/config/a' });
+    expect(getPermissionPaths({ COPILOT_CLI_HOME: '/env/a', XDG_CONFIG_HOME: '/xdg', XDG_CACHE_HOME: '/cache' })).toEqual([
+      '/config/a',
+      '/env/a',
+      '/xdg/.copilot',
+      COPILOT_CLI_HOME,
+      '/cache/tokentop',
+    ]);
+  });
+
+  test('ignores relative XDG_CONFIG_HOME', () => {
+    expect(getCopilotCliRoots({ XDG_CONFIG_HOME: 'relative/dir' })).toHaveLength(1);
+  });
+});
+
+describe('getSessionDirs', () => {
+  afterEach(() => {
+    configureCopilotHomes(undefined);
+  });
+
+  test('merges sessions from several roots', async () => {
+    const homeA = await createTempHome({ 'session-a': 1_700_000_000 });
+    const homeB = await createTempHome({ 'session-b': 1_700_000_000 });
+    configureCopilotHomes({ copilotHomes: [homeA, homeB] });
+
+    const dirs = await getSessionDirs();
+    expect(dirs).toContain(path.join(homeA, 'session-state', 'session-a'));
+    expect(dirs).toContain(path.join(homeB, 'session-state', 'session-b'));
+  });
+
+  test('keeps the most recently updated copy of a duplicated session', async () => {
+    const homeA = await createTempHome({ 'session-dup': 1_700_000_000 });
+    const homeB = await createTempHome({ 'session-dup': 1_700_000_500 });
+    configureCopilotHomes({ copilotHomes: [homeA, homeB] });
+
+    const dirs = (await getSessionDirs()).filter((dir) => path.basename(dir) === 'session-dup');
+    expect(dirs).toEqual([path.join(homeB, 'session-state', 'session-dup')]);
+  });
+});
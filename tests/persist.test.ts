@@ -0,0 +1,183 @@
+import { beforeAll, beforeEach, describe, test, expect } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PARSER_VERSION, processLogCache, sessionAggregateCache, sessionMetadataIndex } from '../src/cache.ts';
+import { getDefaultModel, parseSessionDirIncremental, parseSessionDirRows } from '../src/parser.ts';
+import { configureCopilotHomes } from '../src/paths.ts';
+import {
+  getPersistentCachePath,
+  getPersistentSessionPath,
+  loadPersistentCache,
+  PERSISTENT_CACHE_FORMAT_VERSION,
+  purgePersistentCache,
+  savePersistentCache,
+} from '../src/persist.ts';
+
+const MESSAGE_LINE = JSON.stringify({
+  type: 'assistant.message',
+  id: 'evt-001',
+  timestamp: '2026-02-27T20:59:11.000Z',
+  parentId: null,
+  data: { messageId: 'msg_001', content: 'Hello, I can help with that.' },
+});
+
+async function createParsedSession(): Promise<{ dirPath: string; eventsPath: string; sessionId: string }> {
+  const dirPath = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-persist-'));
+  const eventsPath = path.join(dirPath, 'events.jsonl');
+  await fs.writeFile(eventsPath, MESSAGE_LINE + '\n');
+
+  const stat = await fs.stat(eventsPath);
+  const sessionId = path.basename(dirPath);
+  const { rows, state } = await parseSessionDirIncremental(dirPath, stat.mtimeMs, 'claude-sonnet-4.6');
+
+  sessionMetadataIndex.set(eventsPath, { mtimeMs: stat.mtimeMs, sessionId });
+  sessionAggregateCache.set(sessionId, {
+    updatedAt: stat.mtimeMs,
+    usageRows: rows,
+    lastAccessed: Date.now(),
+    parseState: state!,
+  });
+
+  return { dirPath, eventsPath, sessionId };
+}
+
+describe('persistent cache', () => {
+  beforeAll(async () => {
+    process.env['XDG_CACHE_HOME'] = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-cache-'));
+  });
+
+  beforeEach(async () => {
+    await purgePersistentCache();
+  });
+
+  test('writes into the plugin-owned cache directory', () => {
+    expect(getPersistentCachePath()).toBe(
+      path.join(process.env['XDG_CACHE_HOME']!, 'tokentop', 'copilot-cli', 'sessions-cache.json'),
+    );
+  });
+
+  test('restores unchanged sessions after a restart', async () => {
+    const { sessionId } = await createParsedSession();
+    processLogCache.set('/logs/process-1.log', {
+      ino: 1,
+      mtimeMs: 1,
+      size: 2,
+      offset: 2,
+      data: { sessionId, model: 'gpt-5.1', modelTimeline: [], startedAt: null, compactionTimeline: [] },
+    });
+    await savePersistentCache();
+
+    const savedRows = sessionAggregateCache.get(sessionId)!.usageRows;
+    sessionAggregateCache.clear();
+    sessionMetadataIndex.clear();
+    processLogCache.clear();
+
+    expect(await loadPersistentCache()).toBe(true);
+    const restored = sessionAggregateCache.get(sessionId);
+    expect(restored?.usageRows).toEqual(savedRows);
+    expect(restored?.parseState?.messages.get('msg_001')?.contentTokens.default).toBeGreaterThan(0);
+    expect(processLogCache.get('/logs/process-1.log')?.data.model).toBe('gpt-5.1');
+  });
+
+  test('skips sessions whose events.jsonl changed since the save', async () => {
+    const { eventsPath, sessionId } = await createParsedSession();
+    await savePersistentCache();
+
+    await fs.appendFile(eventsPath, MESSAGE_LINE + '\n');
+    sessionAggregateCache.clear();
+
+    await loadPersistentCache();
+    expect(sessionAggregateCache.has(sessionId)).toBe(false);
+  });
+
+  test('discards the file when the parser version differs', async () => {
+    const { sessionId } = await createParsedSession();
+    await savePersistentCache();
+
+    const cachePath = getPersistentCachePath();
+    const file = JSON.parse(await fs.readFile(cachePath, 'utf-8')) as Record<string, unknown>;
+    await fs.writeFile(cachePath, JSON.stringify({ ...file, parserVersion: PARSER_VERSION - 1 }));
+    sessionAggregateCache.clear();
+
+    expect(await loadPersistentCache()).toBe(false);
+    expect(sessionAggregateCache.has(sessionId)).toBe(false);
+  });
+
+  test('rewrites only the session files whose rows changed', async () => {
+    const changed = await createParsedSession();
+    const unchanged = await createParsedSession();
+    await savePersistentCache();
+    const changedIno = (await fs.stat(getPersistentSessionPath(changed.dirPath))).ino;
+    const unchangedIno = (await fs.stat(getPersistentSessionPath(unchanged.dirPath))).ino;
+
+    await fs.appendFile(changed.eventsPath, MESSAGE_LINE.replace(/msg_001/g, 'msg_002') + '\n');
+    const stat = await fs.stat(changed.eventsPath);
+    const { rows, state } = await parseSessionDirIncremental(changed.dirPath, stat.mtimeMs, 'claude-sonnet-4.6');
+    sessionMetadataIndex.set(changed.eventsPath, { mtimeMs: stat.mtimeMs, sessionId: changed.sessionId });
+    sessionAggregateCache.set(changed.sessionId, { updatedAt: stat.mtimeMs, usageRows: rows, lastAccessed: Date.now(), parseState: state! });
+    await savePersistentCache();
+
+    // Each write renames a new file into place
+    expect((await fs.stat(getPersistentSessionPath(changed.dirPath))).ino).not.toBe(changedIno);
+    expect((await fs.stat(getPersistentSessionPath(unchanged.dirPath))).ino).toBe(unchangedIno);
+
+    sessionAggregateCache.clear();
+    await loadPersistentCache();
+    expect(sessionAggregateCache.get(changed.sessionId)?.usageRows).toHaveLength(2);
+  });
+
+  test('removes the files of sessions no longer cached', async () => {
+    const kept = await createParsedSession();
+    const dropped = await createParsedSession();
+    await savePersistentCache();
+
+    sessionAggregateCache.delete(dropped.sessionId);
+    sessionMetadataIndex.delete(dropped.eventsPath);
+    await savePersistentCache();
+
+    await fs.access(getPersistentSessionPath(kept.dirPath));
+    await expect(fs.access(getPersistentSessionPath(dropped.dirPath))).rejects.toThrow();
+  });
+
+  test('ignores a corrupt cache file', async () => {
+    const cachePath = getPersistentCachePath();
+    await fs.mkdir(path.dirname(cachePath), { recursive: true });
+    await fs.writeFile(cachePath, `{"formatVersion":${PERSISTENT_CACHE_FORMAT_VERSION},"sessi`);
+
+    expect(await loadPersistentCache()).toBe(false);
+  });
+
+  test('purge deletes the files and clears in-memory caches', async () => {
+    const { dirPath } = await createParsedSession();
+    await savePersistentCache();
+
+    await purgePersistentCache();
+    expect(sessionAggregateCache.size).toBe(0);
+    expect(sessionMetadataIndex.size).toBe(0);
+    await expect(fs.access(getPersistentCachePath())).rejects.toThrow();
+    await expect(fs.access(getPersistentSessionPath(dirPath))).rejects.toThrow();
+  });
+
+  test('sessions parsed right after a purge still get the logged default model', async () => {
+    const home = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-home-'));
+    await fs.mkdir(path.join(home, 'logs'));
+    await fs.writeFile(
+      path.join(home, 'logs', 'process-1.log'),
+      '2026-02-27T20:59:00.000Z [INFO] Using default model: claude-sonnet-4.5\n',
+    );
+    configureCopilotHomes({ copilotHomes: home });
+    try {
+      const { dirPath, eventsPath } = await createParsedSession();
+      const { mtimeMs } = await fs.stat(eventsPath);
+      const before = await parseSessionDirRows(dirPath, mtimeMs, await getDefaultModel());
+      expect(before[0]!.modelId).toBe('claude-sonnet-4.5');
+
+      await purgePersistentCache();
+      const after = await parseSessionDirRows(dirPath, mtimeMs, await getDefaultModel());
+      expect(after[0]!.modelId).toBe('claude-sonnet-4.5');
+    } finally {
+      configureCopilotHomes(undefined);
+    }
+  });
+});
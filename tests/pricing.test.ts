@@ -0,0 +1,171 @@
+import { afterEach, describe, test, expect } from 'bun:test';
+import type { SessionUsageData } from '@tokentop/plugin-sdk';
+import {
+  applyPricing,
+  configurePricing,
+  DEFAULT_PREMIUM_REQUEST_PRICE_USD,
+  parsePricingOverrides,
+  resolveModelPricing,
+  summarizeCost,
+} from '../src/pricing.ts';
+import type { RowPricing } from '../src/types.ts';
+
+function makeRow(overrides: {
+  modelId: string;
+  timestamp: number;
+  interactionId?: string;
+  input?: number;
+  output?: number;
+  reasoning?: number;
+}): SessionUsageData {
+  return {
+    sessionId: 'session-1',
+    providerId: 'github-copilot',
+    modelId: overrides.modelId,
+    tokens: { input: overrides.input ?? 100, output: overrides.output ?? 50 },
+    timestamp: overrides.timestamp,
+    metadata: {
+      isEstimated: true,
+      ...(overrides.interactionId ? { interactionId: overrides.interactionId } : {}),
+      ...(overrides.reasoning ? { reasoningTokens: overrides.reasoning } : {}),
+    },
+  };
+}
+
+describe('resolveModelPricing', () => {
+  afterEach(() => {
+    configurePricing(undefined);
+  });
+
+  test('matches model families by prefix', () => {
+    expect(resolveModelPricing('claude-sonnet-4.6')?.key).toBe('claude-sonnet');
+    expect(resolveModelPricing('gpt-5.3-codex')?.key).toBe('gpt-5');
+    expect(resolveModelPricing('claude-opus-4.6-fast')?.key).toBe('claude-opus-4.6');
+  });
+
+  test('prefers the longest matching key', () => {
+    expect(resolveModelPricing('gpt-5-mini')?.pricing.multiplier).toBe(0);
+    expect(resolveModelPricing('gpt-5')?.pricing.multiplier).toBe(1);
+  });
+
+  test('does not match a key followed by other characters', () => {
+    expect(resolveModelPricing('o3x')).toBeNull();
+    expect(resolveModelPricing('unknown')).toBeNull();
+  });
+
+  test('user overrides replace and extend the defaults', () => {
+    configurePricing({ pricingOverrides: '{"claude-sonnet": {"multiplier": 2}, "my-model": {"multiplier": 5}}' });
+    expect(resolveModelPricing('claude-sonnet-4.6')?.pricing.multiplier).toBe(2);
+    expect(resolveModelPricing('my-model-v2')?.pricing.multiplier).toBe(5);
+  });
+});
+
+describe('parsePricingOverrides', () => {
+  test('accepts objects and JSON strings', () => {
+    expect(parsePricingOverrides({ a: { multiplier: 1 } })).toEqual({ a: { multiplier: 1 } });
+    expect(parsePricingOverrides('{"a": {"multiplier": 1, "inputPerMillion": 3}}')).toEqual({
+      a: { multiplier: 1, inputPerMillion: 3 },
+    });
+  });
+
+  test('drops invalid entries and unparseable input', () => {
+    expect(parsePricingOverrides('{not json')).toEqual({});
+    expect(parsePricingOverrides({ a: { multiplier: -1 }, b: 'x', c: { multiplier: 1, outputPerMillion: 'free' } })).toEqual({
+      c: { multiplier: 1 },
+    });
+  });
+});
+
+describe('configurePricing', () => {
+  afterEach(() => {
+    configurePricing(undefined);
+  });
+
+  test('reports whether the effective pricing changed', () => {
+    expect(configurePricing({ premiumRequestPrice: 0.05 })).toBe(true);
+    expect(configurePricing({ premiumRequestPrice: 0.05 })).toBe(false);
+    expect(configurePricing({})).toBe(true);
+  });
+});
+
+describe('applyPricing', () => {
+  afterEach(() => {
+    configurePricing(undefined);
+  });
+
+  test('bills one premium request per interaction', () => {
+    const rows = [
+      makeRow({ modelId: 'claude-opus-4.1', timestamp: 2, interactionId: 'int-1' }),
+      makeRow({ modelId: 'claude-opus-4.1', timestamp: 1, interactionId: 'int-1' }),
+      makeRow({ modelId: 'claude-opus-4.1', timestamp: 3, interactionId: 'int-2' }),
+    ];
+    applyPricing(rows);
+
+    expect((rows[1]!.metadata!.pricing as RowPricing).premiumRequests).toBe(10);
+    expect((rows[0]!.metadata!.pricing as RowPricing).premiumRequests).toBe(0);
+    expect((rows[2]!.metadata!.pricing as RowPricing).premiumRequests).toBe(10);
+    expect(rows[1]!.cost).toBeCloseTo(10 * DEFAULT_PREMIUM_REQUEST_PRICE_USD);
+    expect(rows[0]!.cost).toBe(0);
+  });
+
+  test('bills every message that has no interaction', () => {
+    const rows = [
+      makeRow({ modelId: 'claude-sonnet-4.6', timestamp: 1 }),
+      makeRow({ modelId: 'claude-sonnet-4.6', timestamp: 2 }),
+    ];
+    applyPricing(rows);
+    expect(rows.map((row) => (row.metadata!.pricing as RowPricing).premiumRequests)).toEqual([1, 1]);
+  });
+
+  test('adds per-token prices on top of premium-request cost', () => {
+    configurePricing({
+      premiumRequestPrice: 0.1,
+      pricingOverrides: { 'claude-sonnet': { multiplier: 1, inputPerMillion: 3, outputPerMillion: 15 } },
+    });
+    const rows = [makeRow({ modelId: 'claude-sonnet-4.6', timestamp: 1, input: 1_000_000, output: 100_000 })];
+    applyPricing(rows);
+    expect(rows[0]!.cost).toBeCloseTo(0.1 + 3 + 1.5);
+  });
+
+  test('prices the reasoning part of the output at the output price unless overridden', () => {
+    configurePricing({
+      premiumRequestPrice: 0,
+      pricingOverrides: {
+        'gpt-5': { multiplier: 1, outputPerMillion: 10 },
+        'o3': { multiplier: 1, outputPerMillion: 10, reasoningPerMillion: 4 },
+      },
+    });
+    const rows = [
+      makeRow({ modelId: 'gpt-5', timestamp: 1, input: 0, output: 300_000, reasoning: 200_000 }),
+      makeRow({ modelId: 'o3', timestamp: 2, input: 0, output: 300_000, reasoning: 200_000 }),
+    ];
+    applyPricing(rows);
+    expect(rows[0]!.cost).toBeCloseTo(3);
+    expect(rows[1]!.cost).toBeCloseTo(1.8);
+  });
+
+  test('leaves rows for unknown models unpriced', () => {
+    const rows = [makeRow({ modelId: 'unknown', timestamp: 1 })];
+    applyPricing(rows);
+    expect(rows[0]!.cost).toBeUndefined();
+    expect(rows[0]!.metadata!.pricing).toBeUndefined();
+  });
+});
+
+describe('summarizeCost', () => {
+  test('totals premium requests and cost per model', () => {
+    const rows = [
+      makeRow({ modelId: 'claude-sonnet-4.6', timestamp: 1, interactionId: 'int-1' }),
+      makeRow({ modelId: 'gpt-5.1', timestamp: 2, interactionId: 'int-2' }),
+      makeRow({ modelId: 'gpt-5.1', timestamp: 3, interactionId: 'int-2' }),
+      makeRow({ modelId: 'mystery-model', timestamp: 4 }),
+    ];
+    applyPricing(rows);
+
+    const estimate = summarizeCost(rows);
+    expect(estimate.premiumRequests).toBe(2);
+    expect(estimate.cost).toBeCloseTo(2 * DEFAULT_PREMIUM_REQUEST_PRICE_USD);
+    expect(estimate.unpricedRows).toBe(1);
+    expect(estimate.byModel['gpt-5.1']!.premiumRequests).toBe(1);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, describe, test, expect } from 'bun:test';
+import type { PluginLogger } from '@tokentop/plugin-sdk';
+import { sessionAggregateCache } from '../src/cache.ts';
+import { applyEventToParseState, createSessionParseState } from '../src/parser.ts';
+import {
+  createSessionSchemaState,
+  getSchemaDiagnostics,
+  reportSchemaDrift,
+  resetSchemaDriftReports,
+  resolveEventSchema,
+  validateEvent,
+} from '../src/schema.ts';
+import type { CopilotCliEventBase } from '../src/types.ts';
+
+function makeEvent(type: string, data: unknown): CopilotCliEventBase {
+  return { type, data, id: `evt-${type}`, timestamp: '2026-03-01T10:00:00.000Z', parentId: null };
+}
+
+const SESSION_START = makeEvent('session.start', {
+  sessionId: 's1',
+  version: 1,
+  producer: 'copilot-agent',
+  copilotVersion: '0.0.420',
+  startTime: '2026-03-01T10:00:00.000Z',
+  context: { cwd: '/work' },
+});
+
+describe('validateEvent', () => {
+  test('accepts known events that match their schema', () => {
+    const schema = createSessionSchemaState();
+    validateEvent(schema, SESSION_START);
+    validateEvent(schema, makeEvent('assistant.message', { messageId: 'm1', content: 'hi', toolRequests: [] }));
+    validateEvent(schema, makeEvent('tool.execution_complete', { toolCallId: 'c1', success: true }));
+
+    expect(schema.issues.size).toBe(0);
+    expect(schema.producer).toEqual({ version: 1, producer: 'copilot-agent', copilotVersion: '0.0.420' });
+  });
+
+  test('counts unknown event types', () => {
+    const schema = createSessionSchemaState();
+    validateEvent(schema, makeEvent('session.checkpoint', {}));
+    validateEvent(schema, makeEvent('session.checkpoint', {}));
+
+    expect(Array.from(schema.issues.values())).toEqual([
+      { kind: 'unknown_event_type', eventType: 'session.checkpoint', count: 2, firstSeen: '2026-03-01T10:00:00.000Z' },
+    ]);
+  });
+
+  test('reports missing fields and unexpected shapes', () => {
+    const schema = createSessionSchemaState();
+    validateEvent(schema, makeEvent('assistant.message', { messageId: 'm1', content: ['block'], usage: 'n/a' }));
+    validateEvent(schema, makeEvent('tool.execution_start', {}));
+
+    const issues = Array.from(schema.issues.values()).map(({ kind, field, expected, actual }) => ({ kind, field, expected, actual }));
+    expect(issues).toEqual([
+      { kind: 'unexpected_type', field: 'content', expected: 'string', actual: 'array' },
+      { kind: 'unexpected_type', field: 'usage', expected: 'object', actual: 'string' },
+      { kind: 'missing_field', field: 'toolCallId', expected: 'string', actual: undefined },
+    ]);
+  });
+
+  test('flags malformed envelopes and unsupported schema versions', () => {
+    const schema = createSessionSchemaState();
+    validateEvent(schema, { type: 'user.message', data: 'text' });
+    validateEvent(schema, makeEvent('session.start', { sessionId: 's1', version: 2 }));
+
+    const kinds = Array.from(schema.issues.values()).map((issue) => `${issue.kind}:${issue.field}`);
+    expect(kinds).toEqual([
+      'malformed_event:id',
+      'malformed_event:timestamp',
+      'malformed_event:data',
+      'unsupported_version:version',
+    ]);
+  });
+
+  test('falls back to the newest schema for unknown versions', () => {
+    expect(resolveEventSchema('assistant.message', 99)?.fields.messageId?.required).toBe(true);
+    expect(resolveEventSchema('no.such.event', 1)).toBeNull();
+  });
+});
+
+describe('schema diagnostics', () => {
+  afterEach(() => {
+    sessionAggregateCache.clear();
+    resetSchemaDriftReports();
+  });
+
+  test('logs each new issue once', () => {
+    const warnings: Array<Record<string, unknown> | undefined> = [];
+    const noop = (): void => {};
+    const logger: PluginLogger = { debug: noop, info: noop, error: noop, warn: (_message, data) => warnings.push(data) };
+
+    const state = createSessionParseState();
+    applyEventToParseState(state, SESSION_START);
+    applyEventToParseState(state, makeEvent('session.checkpoint', {}));
+
+    reportSchemaDrift(logger, 's1', state.schema);
+    reportSchemaDrift(logger, 's1', state.schema);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ sessionId: 's1', kind: 'unknown_event_type', eventType: 'session.checkpoint', copilotVersion: '0.0.420' });
+  });
+
+  test('aggregates issues and CLI versions across sessions', () => {
+    for (const [sessionId, copilotVersion] of [['s1', '0.0.420'], ['s2', '0.0.420'], ['s3', undefined]] as const) {
+      const state = createSessionParseState();
+      applyEventToParseState(state, makeEvent('session.start', { sessionId, version: 1, ...(copilotVersion ? { copilotVersion } : {}) }));
+      applyEventToParseState(state, makeEvent('session.checkpoint', {}));
+      if (sessionId === 's1') {
+        applyEventToParseState(state, makeEvent('session.checkpoint', {}));
+      }
+      sessionAggregateCache.set(sessionId, { updatedAt: 0, usageRows: [], lastAccessed: 0, parseState: state });
+    }
+
+    const report = getSchemaDiagnostics();
+    expect(report.sessionsChecked).toBe(3);
+    expect(report.copilotVersions).toEqual({ '0.0.420': 2, unknown: 1 });
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({ eventType: 'session.checkpoint', count: 4, sessions: 3 });
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeAll, describe, test, expect } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { invalidateSessionAggregateRows, sessionAggregateCache, sessionCache, sessionSummaryCache } from '../src/cache.ts';
+import { parseSessionsFromDirs } from '../src/parser.ts';
+import { configureCopilotHomes } from '../src/paths.ts';
+import { getSessionSummary, listSessionSummaries } from '../src/summary.ts';
+import { estimateTokens } from '../src/utils.ts';
+import { stopActivityWatch } from '../src/watcher.ts';
+import { createHome, event, makeFetchContext } from './fixtures.ts';
+
+const SESSION_ID = '7b2e4c1d-9a8f-4e3b-b6c5-d4e3f2a1b0c9';
+
+const EVENTS = [
+  event('session.start', 'evt-start', '2026-03-01T10:00:00.000Z', { sessionId: SESSION_ID, version: 1 }),
+  event('session.model_change', 'evt-model', '2026-03-01T10:00:01.000Z', { newModel: 'claude-sonnet-4.6' }),
+  event('user.message', 'evt-user-1', '2026-03-01T10:00:05.000Z', { content: 'Fix the login bug', interactionId: 'i1' }),
+  event('assistant.turn_start', 'evt-turn-1', '2026-03-01T10:00:06.000Z', { turnId: '0', interactionId: 'i1' }),
+  event('assistant.message', 'evt-msg-1', '2026-03-01T10:00:10.000Z', {
+    messageId: 'msg-1',
+    content: 'Looking at the login handler.',
+    interactionId: 'i1',
+    usage: { input_tokens: 1200, output_tokens: 80 },
+  }),
+  event('assistant.turn_end', 'evt-turn-end-1', '2026-03-01T10:00:12.000Z', { turnId: '0' }),
+  event('user.message', 'evt-user-2', '2026-03-01T10:05:00.000Z', { content: 'Now add a test', interactionId: 'i2' }),
+  event('assistant.turn_start', 'evt-turn-2', '2026-03-01T10:05:01.000Z', { turnId: '1', interactionId: 'i2' }),
+  event('assistant.message', 'evt-msg-2', '2026-03-01T10:05:20.000Z', {
+    messageId: 'msg-2',
+    content: 'Added a regression test.',
+    interactionId: 'i2',
+    model: 'gpt-5.1',
+  }),
+  event('assistant.turn_end', 'evt-turn-end-2', '2026-03-01T10:05:30.000Z', { turnId: '1' }),
+];
+
+const WORKSPACE = {
+  id: SESSION_ID,
+  cwd: '/work/app',
+  git_root: '/work/app',
+  repository: 'acme/app',
+  branch: 'fix/login',
+  summary: 'Fix login bug',
+  summary_count: 2,
+  created_at: '2026-03-01T10:00:00.000Z',
+  updated_at: '2026-03-01T10:05:30.000Z',
+};
+
+async function createSummaryHome(): Promise<string> {
+  const home = await createHome({ [SESSION_ID]: { events: EVENTS, workspace: WORKSPACE } });
+  configureCopilotHomes({ copilotHomes: home });
+  return path.join(home, 'session-state', SESSION_ID, 'events.jsonl');
+}
+
+describe('session summaries', () => {
+  beforeAll(async () => {
+    process.env['XDG_CACHE_HOME'] = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-cache-'));
+  });
+
+  afterEach(() => {
+    configureCopilotHomes(undefined);
+    stopActivityWatch();
+    sessionAggregateCache.clear();
+    sessionSummaryCache.clear();
+    sessionCache.lastCheck = 0;
+  });
+
+  test('summarises a session from the same parse as its rows', async () => {
+    await createSummaryHome();
+    const rows = await parseSessionsFromDirs({}, makeFetchContext());
+
+    const summary = getSessionSummary(SESSION_ID)!;
+    expect(summary).not.toBeNull();
+    expect(summary.startedAt).toBe(Date.parse('2026-03-01T10:00:00.000Z'));
+    expect(summary.endedAt).toBe(Date.parse('2026-03-01T10:05:30.000Z'));
+    expect(summary.durationMs).toBe(330_000);
+    expect(summary.messageCount).toBe(2);
+    expect(summary.turnCount).toBe(2);
+    expect(summary.interactionCount).toBe(2);
+
+    expect(summary.projectPath).toBe('/work/app');
+    expect(summary.summary).toBe('Fix login bug');
+    expect(summary.summaryCount).toBe(2);
+    expect(summary.repository).toBe('acme/app');
+    expect(summary.branch).toBe('fix/login');
+    expect(summary.gitRoot).toBe('/work/app');
+
+    expect(summary.tokens.output).toBe(rows.reduce((sum, row) => sum + row.tokens.output, 0));
+    expect(summary.cost).toBeCloseTo(rows.reduce((sum, row) => sum + (row.cost ?? 0), 0), 10);
+  });
+
+  test('splits totals by model and by real versus estimated usage', async () => {
+    await createSummaryHome();
+    await parseSessionsFromDirs({}, makeFetchContext());
+
+    const summary = getSessionSummary(SESSION_ID)!;
+    const byModel = new Map(summary.byModel.map((model) => [model.modelId, model]));
+    expect(byModel.get('claude-sonnet-4.6')?.messages).toBe(1);
+    expect(byModel.get('claude-sonnet-4.6')?.tokens.input).toBe(1200);
+    expect(byModel.get('gpt-5.1')?.messages).toBe(1);
+    expect(byModel.get('gpt-5.1')?.tokens.output).toBe(estimateTokens('Added a regression test.', 'gpt-5.1'));
+
+    expect(summary.tokenSplit.realMessages).toBe(1);
+    expect(summary.tokenSplit.real.output).toBe(80);
+    expect(summary.tokenSplit.estimatedMessages).toBe(1);
+    expect(summary.tokenSplit.estimated.output).toBe(estimateTokens('Added a regression test.', 'gpt-5.1'));
+  });
+
+  test('drops a summary once its rows are stale, until the next parse', async () => {
+    const eventsPath = await createSummaryHome();
+    await parseSessionsFromDirs({}, makeFetchContext());
+    const first = getSessionSummary(SESSION_ID)!;
+
+    await fs.appendFile(eventsPath, event('assistant.message', 'evt-msg-3', '2026-03-01T10:06:00.000Z', {
+      messageId: 'msg-3',
+      content: 'One more thing.',
+    }) + '\n');
+    // Stale rows, as after a pricing change
+    invalidateSessionAggregateRows();
+
+    expect(getSessionSummary(SESSION_ID)).toBeNull();
+    expect(listSessionSummaries()).toEqual([]);
+
+    await parseSessionsFromDirs({}, makeFetchContext());
+    const second = getSessionSummary(SESSION_ID)!;
+    expect(second).not.toBe(first);
+    expect(second.messageCount).toBe(3);
+    expect(listSessionSummaries()).toEqual([second]);
+  });
+});
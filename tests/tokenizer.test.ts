@@ -0,0 +1,133 @@
+import { afterEach, describe, test, expect } from 'bun:test';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { sessionAggregateCache } from '../src/cache.ts';
+import { parseSessionDirIncremental } from '../src/parser.ts';
+import {
+  getModelFamily,
+  getTokenizer,
+  getTokenizerAccuracy,
+  HEURISTIC_TOKENIZER,
+  registerTokenizer,
+  resetTokenizers,
+} from '../src/tokenizer.ts';
+
+describe('getModelFamily', () => {
+  test('maps model IDs to families', () => {
+    expect(getModelFamily('gpt-5.1')).toBe('gpt');
+    expect(getModelFamily('o4-mini')).toBe('gpt');
+    expect(getModelFamily('gpt-5.3-codex')).toBe('gpt');
+    expect(getModelFamily('claude-sonnet-4.6')).toBe('claude');
+    expect(getModelFamily('Gemini-2.5-Pro')).toBe('gemini');
+    expect(getModelFamily('grok-code-fast-1')).toBeNull();
+  });
+});
+
+describe('getTokenizer', () => {
+  afterEach(() => {
+    resetTokenizers();
+  });
+
+  test('falls back to the heuristic without a known family', () => {
+    expect(getTokenizer()).toBe(HEURISTIC_TOKENIZER);
+    expect(getTokenizer('grok-code-fast-1')).toBe(HEURISTIC_TOKENIZER);
+    expect(HEURISTIC_TOKENIZER.countTokens('a'.repeat(10))).toBe(3);
+  });
+
+  test('counts with the bundled encoding of each family', () => {
+    const gpt = getTokenizer('gpt-5.1');
+    expect(gpt.name).toBe('o200k_base');
+    expect(gpt.countTokens('')).toBe(0);
+    expect(gpt.countTokens('The quick brown fox')).toBe(4);
+    expect(gpt.countTokens("it's 12345")).toBe(4);
+    // Special-token markers are ordinary text
+    expect(gpt.countTokens('<|endoftext|>')).toBeGreaterThan(1);
+
+    const claude = getTokenizer('claude-sonnet-4.6');
+    expect(claude.name).toBe('claude');
+    expect(claude.countTokens("it's 12345")).toBe(3);
+
+    const gemini = getTokenizer('gemini-2.5-pro');
+    expect(gemini.name).toBe('gemma');
+    // SentencePiece splits every digit
+    expect(gemini.countTokens('12345')).toBe(5);
+  });
+
+  test('counts CJK text, JSON and indentation unlike the character heuristic', () => {
+    const text = '你好世界，这是一个测试';
+    expect(HEURISTIC_TOKENIZER.countTokens(text)).toBe(3);
+    expect(getTokenizer('gpt-5.1').countTokens(text)).toBe(5);
+    expect(getTokenizer('claude-sonnet-4.6').countTokens(text)).toBe(9);
+
+    const json = '{"path": "src/index.ts", "line": 42}';
+    expect(HEURISTIC_TOKENIZER.countTokens(json)).toBe(9);
+    expect(getTokenizer('claude-sonnet-4.6').countTokens(json)).toBe(15);
+
+    const indented = ' '.repeat(16) + 'return';
+    expect(HEURISTIC_TOKENIZER.countTokens(indented)).toBe(6);
+    expect(getTokenizer('gpt-5.1').countTokens(indented)).toBe(2);
+  });
+
+  test('registered tokenizers replace a family encoding', () => {
+    registerTokenizer('claude', { name: 'exact', countTokens: (text) => text.length });
+    expect(getTokenizer('claude-opus-4.6').countTokens('abc')).toBe(3);
+    expect(getTokenizer('gpt-5.1').name).toBe('o200k_base');
+  });
+});
+
+describe('getTokenizerAccuracy', () => {
+  afterEach(() => {
+    sessionAggregateCache.clear();
+  });
+
+  test('compares estimates with real output usage', async () => {
+    const dirPath = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-tokenizer-'));
+    const message = (messageId: string, content: string, extra: Record<string, unknown>) => JSON.stringify({
+      type: 'assistant.message',
+      id: `evt-${messageId}`,
+      timestamp: '2026-03-01T10:00:00.000Z',
+      parentId: null,
+      data: { messageId, content, model: 'gpt-5.1', ...extra },
+    });
+    await fs.writeFile(path.join(dirPath, 'events.jsonl'), [
+      message('m1', 'The quick brown fox', { usage: { prompt_tokens: 100, completion_tokens: 4 } }),
+      // Tool arguments are part of the real output, so this one is not a sample
+      message('m2', 'Reading', { usage: { prompt_tokens: 100, completion_tokens: 40 }, toolRequests: [{ toolCallId: 'c1', name: 'view' }] }),
+      // No real usage
+      message('m3', 'Estimated only', {}),
+    ].join('\n') + '\n');
+
+    const { rows, state } = await parseSessionDirIncremental(dirPath, Date.now(), 'gpt-5.1');
+    sessionAggregateCache.set('tokenizer-session', { updatedAt: 0, usageRows: rows, lastAccessed: Date.now(), parseState: state! });
+
+    const report = getTokenizerAccuracy();
+    expect(report.samples).toBe(1);
+    expect(report.byTokenizer).toEqual([
+      { tokenizer: 'o200k_base', samples: 1, realTokens: 4, estimatedTokens: 4, meanAbsolutePercentError: 0, bias: 0 },
+    ]);
+    expect(report.heuristic).toEqual({
+      tokenizer: 'heuristic', samples: 1, realTokens: 4, estimatedTokens: 5, meanAbsolutePercentError: 0.25, bias: 0.25,
+    });
+  });
+
+  test('measures the tokenizer of the model the row resolved to', async () => {
+    const dirPath = await fs.mkdtemp(path.join(os.tmpdir(), 'copilot-tokenizer-'));
+    // No event names a model: it comes from the process log
+    await fs.writeFile(path.join(dirPath, 'events.jsonl'), JSON.stringify({
+      type: 'assistant.message',
+      id: 'evt-m1',
+      timestamp: '2026-03-01T10:00:00.000Z',
+      parentId: null,
+      data: { messageId: 'm1', content: 'The quick brown fox', usage: { prompt_tokens: 100, completion_tokens: 4 } },
+    }) + '\n');
+
+    const { rows, state } = await parseSessionDirIncremental(dirPath, Date.now(), 'grok-code-fast-1', undefined, undefined, [
+      { timestamp: Date.parse('2026-03-01T09:00:00.000Z'), model: 'gpt-5.1' },
+    ]);
+    expect(rows[0]!.modelId).toBe('gpt-5.1');
+    sessionAggregateCache.set('logged-model-session', { updatedAt: 0, usageRows: rows, lastAccessed: Date.now(), parseState: state! });
+
+    expect(getTokenizerAccuracy().byTokenizer.map((accuracy) => accuracy.tokenizer)).toEqual(['o200k_base']);
+  });
+});
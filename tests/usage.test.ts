@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'bun:test';
+import { normalizeUsage } from '../src/usage.ts';
+
+describe('normalizeUsage', () => {
+  test('OpenAI shape: cached tokens are split out of the prompt, reasoning stays in the completion', () => {
+    expect(normalizeUsage({
+      prompt_tokens: 1000,
+      completion_tokens: 200,
+      total_tokens: 1200,
+      prompt_tokens_details: { cached_tokens: 600 },
+      completion_tokens_details: { reasoning_tokens: 80 },
+    })).toEqual({ input: 400, output: 200, cacheRead: 600, cacheWrite: 0, reasoning: 80 });
+  });
+
+  test('Anthropic shape: cache reads and writes are reported separately', () => {
+    expect(normalizeUsage({
+      input_tokens: 300,
+      output_tokens: 90,
+      cache_read_input_tokens: 5000,
+      cache_creation_input_tokens: 700,
+    })).toEqual({ input: 300, output: 90, cacheRead: 5000, cacheWrite: 700, reasoning: 0 });
+  });
+
+  test('camelCase shape', () => {
+    expect(normalizeUsage({
+      inputTokens: 120,
+      outputTokens: 30,
+      cacheReadTokens: 40,
+      cacheWriteTokens: 10,
+      reasoningTokens: 5,
+    })).toEqual({ input: 120, output: 30, cacheRead: 40, cacheWrite: 10, reasoning: 5 });
+  });
+
+  test('prompt_tokens with a separate Anthropic cache field keeps the prompt as input', () => {
+    expect(normalizeUsage({ prompt_tokens: 1500, completion_tokens: 250, cache_read_input_tokens: 1200 }))
+      .toEqual({ input: 1500, output: 250, cacheRead: 1200, cacheWrite: 0, reasoning: 0 });
+  });
+
+  test('output always includes the reasoning', () => {
+    expect(normalizeUsage({ inputTokens: 10, reasoningTokens: 40 }))
+      .toEqual({ input: 10, output: 40, cacheRead: 0, cacheWrite: 0, reasoning: 40 });
+  });
+
+  test('derives output from total_tokens when completion is missing', () => {
+    expect(normalizeUsage({ prompt_tokens: 100, total_tokens: 130 })?.output).toBe(30);
+  });
+
+  test('returns null for empty, zero or malformed usage', () => {
+    expect(normalizeUsage(undefined)).toBeNull();
+    expect(normalizeUsage('n/a')).toBeNull();
+    expect(normalizeUsage({})).toBeNull();
+    expect(normalizeUsage({ prompt_tokens: 0, completion_tokens: 0 })).toBeNull();
+    expect(normalizeUsage({ input_tokens: -5, output_tokens: 'many' })).toBeNull();
+  });
+});
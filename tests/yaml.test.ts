@@ -0,0 +1,462 @@
+import { describe, test, expect } from 'bun:test';
+import { parseWorkspaceYaml } from '../src/utils.ts';
+import { parseYaml, resolvePlainScalar } from '../src/yaml.ts';
+import type { YamlValue } from '../src/types.ts';
+
+// Workspace files as written by Copilot CLI, including the line folding and
+// quoting its YAML writer applies to long or special summaries.
+const REAL_WORKSPACES = [
+  [
+    'id: 3f1c2a9e-8b7d-4c6e-9f0a-1b2c3d4e5f60',
+    'cwd: /Users/dev/projects/tokentop',
+    'git_root: /Users/dev/projects/tokentop',
+    'repository: tokentop/plugin-copilot-cli',
+    'branch: main',
+    'summary: Fix login bug',
+    'summary_count: 1',
+    'created_at: 2026-02-27T20:58:52.114Z',
+    'updated_at: 2026-02-27T21:04:10.902Z',
+    '',
+  ].join('\n'),
+  [
+    'id: 8c0d7e6f-5a4b-4c3d-8e2f-1a0b9c8d7e6f',
+    'cwd: /home/dev/work/api',
+    'summary: "Refactor auth: split token refresh from session storage, add retries and',
+    '  surface errors to the caller"',
+    'summary_count: 3',
+    'created_at: 2026-03-01T09:12:00.000Z',
+    'updated_at: 2026-03-01T10:40:31.517Z',
+    '',
+  ].join('\n'),
+  [
+    'id: 0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+    'cwd: C:\\Users\\dev\\source\\repos\\app',
+    'summary: |-',
+    '  Investigate flaky test',
+    '',
+    '  Steps: run `bun test` twice # not a comment',
+    'summary_count: 2',
+    'created_at: 2026-03-02T14:00:00.000Z',
+    'updated_at: 2026-03-02T14:30:00.000Z',
+    'labels:',
+    '  - ci',
+    '  - "needs: triage"',
+    'mcp:',
+    '  servers: []',
+    '  env: {}',
+    '',
+  ].join('\n'),
+];
+
+describe('parseYaml', () => {
+  test('parses nested mappings and sequences', () => {
+    const yaml = [
+      'top:',
+      '  nested:',
+      '    value: 1',
+      '  list:',
+      '    - a',
+      '    - b: 2',
+      '      c: three',
+      '    -',
+      '      - inner',
+      'compact:',
+      '- x',
+      '- y',
+      'after: done',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      top: {
+        nested: { value: 1 },
+        list: ['a', { b: 2, c: 'three' }, ['inner']],
+      },
+      compact: ['x', 'y'],
+      after: 'done',
+    });
+  });
+
+  test('keeps colons, hashes and URLs inside values', () => {
+    const yaml = [
+      'summary: Fix: login fails on retry',
+      'url: https://github.com/org/repo#readme',
+      'tag: issue#42 # trailing comment',
+      'empty:',
+      'tilde: ~',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      summary: 'Fix: login fails on retry',
+      url: 'https://github.com/org/repo#readme',
+      tag: 'issue#42',
+      empty: null,
+      tilde: null,
+    });
+  });
+
+  test('resolves core schema scalars and leaves quoted scalars as strings', () => {
+    expect(parseYaml('a: 42\nb: -1.5e3\nc: true\nd: "true"\ne: \'007\'\nf: 0x1F\ng: 2026-02-27')).toEqual({
+      a: 42,
+      b: -1500,
+      c: true,
+      d: 'true',
+      e: '007',
+      f: 31,
+      g: '2026-02-27',
+    });
+    expect(resolvePlainScalar('12345678901234567890')).toBe('12345678901234567890');
+  });
+
+  test('decodes double-quoted escapes and single-quoted doubling', () => {
+    expect(parseYaml('a: "tab\\tnew\\nline \\"q\\" \\u00e9 \\x41 \\\\"\nb: \'it\'\'s # not a comment\'')).toEqual({
+      a: 'tab\tnew\nline "q" é A \\',
+      b: "it's # not a comment",
+    });
+  });
+
+  test('folds multi-line quoted and plain scalars', () => {
+    const yaml = [
+      'double: "first',
+      '  second',
+      '',
+      '  third\\',
+      '  joined"',
+      "single: 'one",
+      "  two'",
+      'plain: alpha',
+      '  beta',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      double: 'first second\nthirdjoined',
+      single: 'one two',
+      plain: 'alpha beta',
+    });
+  });
+
+  test('handles literal and folded block scalars with chomping', () => {
+    const yaml = [
+      'clip: |',
+      '  line one',
+      '    indented',
+      '',
+      'strip: |-',
+      '  no trailing newline',
+      'keep: |+',
+      '  kept',
+      '',
+      '',
+      'folded: >',
+      '  folded',
+      '  text',
+      '',
+      '  next paragraph',
+      'explicit: |2',
+      '    leading spaces',
+      'last: x',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      clip: 'line one\n  indented\n',
+      strip: 'no trailing newline',
+      keep: 'kept\n\n\n',
+      folded: 'folded text\nnext paragraph\n',
+      explicit: '  leading spaces\n',
+      last: 'x',
+    });
+  });
+
+  test('parses flow collections', () => {
+    expect(parseYaml('a: []\nb: {}\nc: [1, "two", {k: v}]\nd: {x: [a, b],\n  y: null}')).toEqual({
+      a: [],
+      b: {},
+      c: [1, 'two', { k: 'v' }],
+      d: { x: ['a', 'b'], y: null },
+    });
+  });
+
+  test('reads only the first document and skips directives', () => {
+    expect(parseYaml('%YAML 1.2\n---\na: 1\n---\na: 2\n')).toEqual({ a: 1 });
+    expect(parseYaml('a: 1\n...\ngarbage: [')).toEqual({ a: 1 });
+    expect(parseYaml('')).toBeNull();
+    expect(parseYaml('# only a comment\n')).toBeNull();
+  });
+
+  test('does not let a __proto__ key replace the prototype', () => {
+    const parsed = parseYaml('__proto__:\n  polluted: true') as Record<string, YamlValue>;
+    expect(Object.getPrototypeOf(parsed)).toBe(Object.prototype);
+    expect(parsed['__proto__']).toEqual({ polluted: true });
+  });
+
+  test('rejects malformed input with the line number', () => {
+    expect(() => parseYaml('a: "unterminated')).toThrow('YAML line 1');
+    expect(() => parseYaml('a: 1\n b: 2\nc: [1, 2')).toThrow('YAML line 3');
+    expect(() => parseYaml('a: &anchor 1')).toThrow('unsupported');
+    expect(() => parseYaml('a:\n\t- tab')).toThrow('tabs');
+    expect(() => parseYaml('a: "bad \\q escape"')).toThrow('Invalid escape');
+  });
+});
+
+describe('parseWorkspaceYaml', () => {
+  test('maps known keys and keeps unknown keys in extra', () => {
+    const workspace = parseWorkspaceYaml(REAL_WORKSPACES[2]!);
+    expect(workspace).toEqual({
+      id: '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+      cwd: 'C:\\Users\\dev\\source\\repos\\app',
+      git_root: undefined,
+      repository: undefined,
+      branch: undefined,
+      summary: 'Investigate flaky test\n\nSteps: run `bun test` twice # not a comment',
+      summary_count: 2,
+      created_at: '2026-03-02T14:00:00.000Z',
+      updated_at: '2026-03-02T14:30:00.000Z',
+      extra: {
+        labels: ['ci', 'needs: triage'],
+        mcp: { servers: [], env: {} },
+      },
+    });
+  });
+
+  test('unfolds long quoted summaries', () => {
+    expect(parseWorkspaceYaml(REAL_WORKSPACES[1]!)?.summary).toBe(
+      'Refactor auth: split token refresh from session storage, add retries and surface errors to the caller',
+    );
+  });
+
+  test('stringifies scalar values of string fields', () => {
+    const workspace = parseWorkspaceYaml('id: 12345\ncwd: /tmp\nbranch: 2026\nsummary_count: "4"');
+    expect(workspace?.id).toBe('12345');
+    expect(workspace?.branch).toBe('2026');
+    expect(workspace?.summary_count).toBe(4);
+  });
+
+  test('returns null without a top-level id', () => {
+    expect(parseWorkspaceYaml('cwd: /tmp')).toBeNull();
+    expect(parseWorkspaceYaml('- id: x')).toBeNull();
+    expect(parseWorkspaceYaml('nested:\n  id: x')).toBeNull();
+  });
+
+  test('keeps string fields as written instead of resolving numbers or flow collections', () => {
+    const workspace = parseWorkspaceYaml('id: abc\ncwd: /tmp\nbranch: 1.10\nrepository: 0x1F\nsummary: [WIP]\n');
+    expect(workspace?.branch).toBe('1.10');
+    expect(workspace?.repository).toBe('0x1F');
+    expect(workspace?.summary).toBe('[WIP]');
+  });
+
+  test('falls back to key: value lines for summaries strict YAML rejects', () => {
+    for (const summary of ['[WIP] fix', '* star', '{foo} bar', '!important', '&anchor', '!important thing']) {
+      const workspace = parseWorkspaceYaml([
+        'id: abc',
+        'cwd: /work/app',
+        'repository: acme/app',
+        'branch: 1.10',
+        `summary: ${summary}`,
+        'summary_count: 2',
+        'labels:',
+        '  - ci',
+        '',
+      ].join('\n'));
+      expect(workspace).toMatchObject({
+        id: 'abc',
+        cwd: '/work/app',
+        repository: 'acme/app',
+        branch: '1.10',
+        summary,
+        summary_count: 2,
+      });
+    }
+  });
+
+  test('unquotes single-line values and joins block scalars in the fallback', () => {
+    const workspace = parseWorkspaceYaml([
+      'id: "abc"',
+      "cwd: 'C:\\it''s'",
+      'branch: * release',
+      'summary: |',
+      '  First line',
+      '  Second: line',
+      '',
+    ].join('\n'));
+    expect(workspace?.id).toBe('abc');
+    expect(workspace?.cwd).toBe("C:\\it's");
+    expect(workspace?.branch).toBe('* release');
+    expect(workspace?.summary).toBe('First line\nSecond: line');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Fuzzing — seeded so failures reproduce
+// ---------------------------------------------------------------------------
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const FUZZ_ALPHABET = [
+  'a', 'b', 'Z', '0', '7', ' ', ' ', ':', '#', '"', "'", '\\', '\n', '\t', '-', '|', '>',
+  '{', '}', '[', ']', ',', '&', '*', '!', '%', '@', '?', '~', 'é', '日', '🙂', '\r', '\u0007',
+];
+
+function randomString(random: () => number, maxLength: number): string {
+  const length = Math.floor(random() * maxLength);
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    text += FUZZ_ALPHABET[Math.floor(random() * FUZZ_ALPHABET.length)];
+  }
+  return text;
+}
+
+function isPlainSafe(text: string): boolean {
+  return /^[A-Za-z/][A-Za-z0-9 _./@()-]*$/.test(text)
+    && !/\s$/.test(text)
+    && typeof resolvePlainScalar(text) === 'string';
+}
+
+/** Emit a string in a randomly chosen style that must round-trip. */
+function emitString(random: () => number, text: string, indent: number): string {
+  const pad = ' '.repeat(indent + 2);
+  const choice = random();
+
+  if (choice < 0.25 && isPlainSafe(text)) {
+    return text;
+  }
+  if (choice < 0.5 && !/[\x00-\x1f\x7f]/.test(text)) {
+    return `'${text.replace(/'/g, "''")}'`;
+  }
+  if (choice < 0.75 && /\S/.test(text) && !/^[\s]/.test(text) && !/[\x00-\x09\x0b-\x1f\x7f]/.test(text)) {
+    const trailing = /\n*$/.exec(text)![0].length;
+    const chomping = trailing === 0 ? '-' : trailing === 1 ? '' : '+';
+    const body = text.slice(0, text.length - trailing);
+    const lines = body.split('\n').map((line) => (line === '' ? '' : pad + line));
+    return `|${chomping}\n${lines.join('\n')}${'\n'.repeat(Math.max(0, trailing - 1))}`;
+  }
+
+  // JSON strings are valid YAML double-quoted scalars. Fold at single spaces
+  // between non-space characters, as a line-width limited writer would.
+  return JSON.stringify(text).replace(/(?<=\S) (?=\S)/g, (space) => (random() < 0.3 ? `\n${pad}` : space));
+}
+
+function randomScalar(random: () => number): YamlValue {
+  const choice = random();
+  if (choice < 0.1) return null;
+  if (choice < 0.2) return random() < 0.5;
+  if (choice < 0.3) return Math.floor(random() * 2000) - 1000;
+  return randomString(random, 40);
+}
+
+function randomValue(random: () => number, depth: number): YamlValue {
+  const choice = random();
+  if (depth < 3 && choice < 0.15) {
+    return Array.from({ length: Math.floor(random() * 4) }, () => randomValue(random, depth + 1));
+  }
+  if (depth < 3 && choice < 0.3) {
+    const map: Record<string, YamlValue> = {};
+    const size = Math.floor(random() * 4);
+    for (let i = 0; i < size; i++) {
+      map[`key_${i}_${Math.floor(random() * 100)}`] = randomValue(random, depth + 1);
+    }
+    return map;
+  }
+  return randomScalar(random);
+}
+
+function emitValue(random: () => number, value: YamlValue, indent: number): string {
+  if (value === null) return random() < 0.5 ? '' : ' null';
+  if (typeof value === 'boolean' || typeof value === 'number') return ` ${value}`;
+  if (typeof value === 'string') return ' ' + emitString(random, value, indent);
+
+  const pad = ' '.repeat(indent + 2);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return ' []';
+    return value.map((item) => `\n${pad}-${emitValue(random, item, indent + 2)}`).join('');
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) return ' {}';
+  return entries.map(([key, item]) => `\n${pad}${key}:${emitValue(random, item, indent + 2)}`).join('');
+}
+
+function emitDocument(random: () => number, document: Record<string, YamlValue>): string {
+  return Object.entries(document)
+    .map(([key, value]) => `${key}:${emitValue(random, value, 0)}`)
+    .join(random() < 0.5 ? '\n' : '\n# comment\n\n') + '\n';
+}
+
+describe('parseYaml fuzzing', () => {
+  test('round-trips randomly generated workspace files', () => {
+    const random = createRandom(0xc0ffee);
+
+    for (let iteration = 0; iteration < 500; iteration++) {
+      const document: Record<string, YamlValue> = {
+        id: `session-${iteration}`,
+        cwd: randomString(random, 30),
+        summary: randomString(random, 120),
+        summary_count: Math.floor(random() * 10),
+      };
+      for (let i = 0; i < Math.floor(random() * 4); i++) {
+        document[`extra_${i}`] = randomValue(random, 0);
+      }
+
+      const yaml = emitDocument(random, document);
+      let parsed: YamlValue;
+      try {
+        parsed = parseYaml(yaml);
+      } catch (error) {
+        throw new Error(`iteration ${iteration}: ${(error as Error).message}\n${yaml}`);
+      }
+      if (!Bun.deepEquals(parsed, document)) {
+        throw new Error(`iteration ${iteration} did not round-trip:\n${yaml}\n${JSON.stringify(parsed)}`);
+      }
+    }
+  });
+
+  test('mutated real workspace files either parse or fail with an Error', () => {
+    const random = createRandom(42);
+
+    for (let iteration = 0; iteration < 1000; iteration++) {
+      const source = REAL_WORKSPACES[iteration % REAL_WORKSPACES.length]!;
+      let mutated = source;
+      for (let edits = 1 + Math.floor(random() * 3); edits > 0; edits--) {
+        const at = Math.floor(random() * mutated.length);
+        const mode = random();
+        if (mode < 0.4) {
+          mutated = mutated.slice(0, at) + randomString(random, 4) + mutated.slice(at);
+        } else if (mode < 0.8) {
+          mutated = mutated.slice(0, at) + mutated.slice(at + 1 + Math.floor(random() * 5));
+        } else {
+          mutated = mutated.slice(0, at);
+        }
+      }
+
+      try {
+        parseYaml(mutated);
+      } catch (error) {
+        expect(error).toBeInstanceOf(Error);
+        expect((error as Error).message).toStartWith('YAML line');
+      }
+      expect(() => parseWorkspaceYaml(mutated)).not.toThrow();
+    }
+  });
+
+  test('keeps the id, cwd and git fields of real files with summaries strict YAML rejects', () => {
+    const random = createRandom(7);
+    const prefixes = ['[WIP] ', '* ', '{draft} ', '!', '&', '[', '{', '1.', '0x'];
+
+    for (let iteration = 0; iteration < 300; iteration++) {
+      const summary = prefixes[iteration % prefixes.length]! + randomString(random, 40).replace(/[\r\n]/g, ' ').trim();
+      const source = REAL_WORKSPACES[0]!.replace('summary: Fix login bug', `summary: ${summary}`);
+      const workspace = parseWorkspaceYaml(source);
+      expect(workspace?.id).toBe('3f1c2a9e-8b7d-4c6e-9f0a-1b2c3d4e5f60');
+      expect(workspace?.cwd).toBe('/Users/dev/projects/tokentop');
+      expect(workspace?.repository).toBe('tokentop/plugin-copilot-cli');
+      expect(workspace?.branch).toBe('main');
+    }
+  });
+});